@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { ImageModeration } from '../model/imageModerationSchema';
+import { ImageModerationService } from '../service/imageModeration.service';
+import { LocalImageClassifier } from '../utils/localImageClassifier';
+import { CustomGraphQLError } from '../utils/utils';
+import * as s3Config from '../utils/s3Config';
+
+// Image bytes carrying the local classifier's score markers
+const image = (markers = '') => Buffer.from(`\x89PNG fixture ${markers}`, 'latin1');
+
+const context = { userId: 'user-1', source: 'chat' as const, fileName: 'dog.png', conversationId: 'conv-1' };
+
+describe('ImageModerationService.screenUpload', () => {
+    let service: ImageModerationService;
+    let created: any[];
+    let quarantined: string[];
+
+    beforeEach(() => {
+        service = new ImageModerationService(new LocalImageClassifier());
+        created = [];
+        quarantined = [];
+
+        mock.method(ImageModeration, 'create', async (doc: any) => {
+            const record = new ImageModeration(doc);
+            created.push(record);
+            return record;
+        });
+        mock.method(ImageModeration.prototype, 'save', async function (this: any) {
+            return this;
+        });
+        mock.method(s3Config, 'uploadToQuarantine', async (_buffer: Buffer, fileName: string, _mime: string, userId: string) => {
+            const key = `quarantine/${userId}/${fileName}`;
+            quarantined.push(key);
+            return key;
+        });
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    it('approves an image without markers and records the verdict', async () => {
+        const record = await service.screenUpload(image(), 'image/png', context);
+
+        assert.equal(record.verdict, 'approved');
+        assert.deepEqual(record.flaggedCategories, []);
+        assert.equal(record.provider, 'local');
+        assert.equal(record.conversationId, 'conv-1');
+        assert.equal(created.length, 1);
+        assert.deepEqual(quarantined, []);
+    });
+
+    it('quarantines a borderline image, keeps a private copy and refuses the upload', async () => {
+        await assert.rejects(
+            service.screenUpload(image('moderation:nsfw=0.7'), 'image/png', context),
+            (error: any) => error instanceof CustomGraphQLError && error.code === 422 && /held for review/.test(error.message)
+        );
+
+        assert.equal(created[0].verdict, 'quarantined');
+        assert.deepEqual([...created[0].flaggedCategories], ['nsfw']);
+        assert.deepEqual(quarantined, ['quarantine/user-1/dog.png']);
+        assert.equal(created[0].quarantineKey, 'quarantine/user-1/dog.png');
+    });
+
+    it('rejects an image over the reject threshold without storing it', async () => {
+        await assert.rejects(
+            service.screenUpload(image('moderation:violence=0.95'), 'image/png', context),
+            (error: any) => error instanceof CustomGraphQLError && error.code === 422 && /rejected/.test(error.message)
+        );
+
+        assert.equal(created[0].verdict, 'rejected');
+        assert.deepEqual(quarantined, []);
+    });
+
+    it('only checks the categories of the source', async () => {
+        const chatRecord = await service.screenUpload(image('moderation:not_a_pet=1'), 'image/png', context);
+        assert.equal(chatRecord.verdict, 'approved');
+
+        await assert.rejects(
+            service.screenUpload(image('moderation:not_a_pet=1'), 'image/png', { ...context, source: 'image_generation' }),
+            (error: any) => error instanceof CustomGraphQLError && error.code === 422
+        );
+        assert.equal(created[1].verdict, 'rejected');
+    });
+
+    it('refuses the upload when the classifier fails', async () => {
+        const failing = new ImageModerationService({
+            name: 'broken',
+            classify: async () => {
+                throw new Error('timeout');
+            },
+        });
+
+        await assert.rejects(
+            failing.screenUpload(image(), 'image/png', context),
+            (error: any) => error instanceof CustomGraphQLError && error.code === 503
+        );
+        assert.equal(created.length, 0);
+    });
+});
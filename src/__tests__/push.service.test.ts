@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { DeviceToken } from '../model/deviceTokenSchema';
+import { PushService } from '../service/push.service';
+import { MessageWithMetadata } from '../service/chat.service';
+import { FakeMessagingClient } from '../utils/fakeMessagingClient';
+import { ConversationRepository } from '../repository/ConversationRepository';
+import { ConversationParticipantRepository } from '../repository/ConversationParticipantRepository';
+import { ConversationType } from '../entities/Conversation';
+import { MessageType } from '../entities/MessageMetadata';
+import * as statusHandler from '../socket/handlers/statusHandler';
+
+describe('PushService', () => {
+    let messaging: FakeMessagingClient;
+    let service: PushService;
+    let tokensByUser: Record<string, string[]>;
+    let deleted: string[][];
+
+    beforeEach(() => {
+        messaging = new FakeMessagingClient();
+        service = new PushService(messaging);
+        tokensByUser = {};
+        deleted = [];
+
+        mock.method(DeviceToken, 'find', (filter: { userId: string }) => ({
+            select: () => ({
+                lean: async () => (tokensByUser[filter.userId] || []).map((token) => ({ token })),
+            }),
+        }));
+        mock.method(DeviceToken, 'deleteMany', async (filter: { token: { $in: string[] } }) => {
+            deleted.push(filter.token.$in);
+            return { deletedCount: filter.token.$in.length };
+        });
+        (service as any).userRepo = { findOne: async () => ({ id: 'alice', username: 'alice' }) };
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    describe('sendToUser', () => {
+        it('prunes tokens FCM reports as unregistered and keeps the rest', async () => {
+            tokensByUser.bob = ['phone-token', 'invalid-old-tablet', 'laptop-token'];
+            messaging.invalidTokens.add('laptop-token');
+
+            const delivered = await service.sendToUser('bob', { title: 'Pets', body: 'Hi' });
+
+            assert.equal(delivered, 1);
+            assert.deepEqual(messaging.sent[0].tokens, ['phone-token', 'invalid-old-tablet', 'laptop-token']);
+            assert.deepEqual(deleted, [['invalid-old-tablet', 'laptop-token']]);
+        });
+
+        it('does not prune anything when every token is accepted', async () => {
+            tokensByUser.bob = ['phone-token'];
+
+            assert.equal(await service.sendToUser('bob', { title: 'Pets', body: 'Hi' }), 1);
+            assert.deepEqual(deleted, []);
+        });
+
+        it('skips FCM for a user without devices', async () => {
+            assert.equal(await service.sendToUser('bob', { title: 'Pets', body: 'Hi' }), 0);
+            assert.equal(messaging.sent.length, 0);
+        });
+    });
+
+    describe('sendChatMessagePush', () => {
+        const message = {
+            id: 'msg-1',
+            conversationId: 'conv-1',
+            senderId: 'alice',
+            messageType: MessageType.TEXT,
+            content: 'Walk at 5?',
+            isEndToEndEncrypted: false,
+        } as MessageWithMetadata;
+
+        beforeEach(() => {
+            tokensByUser = { alice: ['alice-phone'], bob: ['bob-phone'], carol: ['carol-phone'], dave: ['dave-phone'] };
+
+            mock.method(ConversationRepository.prototype, 'getConversationById', async () => ({
+                id: 'conv-1',
+                type: ConversationType.GROUP,
+                title: 'Park Pack',
+            }));
+            mock.method(ConversationParticipantRepository.prototype, 'getParticipants', async () =>
+                ['alice', 'bob', 'carol', 'dave'].map((userId) => ({ conversationId: 'conv-1', userId }))
+            );
+            mock.method(statusHandler, 'getUserStatus', async (userId: string) =>
+                userId === 'carol' ? { online: true, lastSeen: Date.now(), connections: 1 } : null
+            );
+        });
+
+        it('pushes only to members without an active socket, never to the sender', async () => {
+            await service.sendChatMessagePush(message);
+
+            const recipients = messaging.sent.flatMap((m) => m.tokens).sort();
+            assert.deepEqual(recipients, ['bob-phone', 'dave-phone']);
+            assert.equal(messaging.sent[0].notification?.title, 'Park Pack');
+            assert.equal(messaging.sent[0].notification?.body, 'alice: Walk at 5?');
+            assert.equal(messaging.sent[0].data?.conversationId, 'conv-1');
+        });
+
+        it('sends nothing when every other member is online', async () => {
+            mock.method(statusHandler, 'getUserStatus', async () => ({ online: true, lastSeen: Date.now(), connections: 1 }));
+
+            await service.sendChatMessagePush(message);
+
+            assert.equal(messaging.sent.length, 0);
+        });
+
+        it('skips members who blocked the sender', async () => {
+            await service.sendChatMessagePush(message, ['dave']);
+
+            assert.deepEqual(messaging.sent.flatMap((m) => m.tokens), ['bob-phone']);
+        });
+
+        it('never puts end-to-end encrypted content in the push', async () => {
+            await service.sendChatMessagePush({ ...message, content: undefined, isEndToEndEncrypted: true });
+
+            assert.equal(messaging.sent[0].notification?.body, 'alice: 🔒 Encrypted message');
+        });
+    });
+});
@@ -5,6 +5,9 @@ import dotenv from "dotenv";
 import { MasterLoginType } from "../entities/MasterLoginType";
 import { Conversation } from "../entities/Conversation";
 import { MessageMetadata } from "../entities/MessageMetadata";
+import { Pet } from "../entities/Pet";
+import { ConversationParticipant } from "../entities/ConversationParticipant";
+import { HiddenMessage } from "../entities/HiddenMessage";
 
 dotenv.config();
 
@@ -17,15 +20,18 @@ export const AppDataSource = new DataSource({
   type: "postgres",
   url: process.env.DATABASE_URL,
   ssl: false, // <—— important
-  entities: [User, MasterLoginType, Conversation, MessageMetadata],
+  entities: [User, MasterLoginType, Conversation, ConversationParticipant, MessageMetadata, HiddenMessage, Pet],
   synchronize: true,
   logging: true,
 
 });
 
 
-// Initialize database connection with better error handling
+// Initialize database connection with better error handling.
+// Unit tests import services without a database, so they skip this.
 (async () => {
+  if (process.env.NODE_ENV === "test") return;
+
   try {
     logger.info(`⏳ Attempting to connect to PostgreSQL...`);
     await AppDataSource.initialize();
@@ -21,6 +21,7 @@ class RedisClient {
                     return delay;
                 },
                 maxRetriesPerRequest: 3,
+                lazyConnect: process.env.NODE_ENV === "test", // Unit tests run without Redis
             });
 
             RedisClient.instance.on("connect", () => {
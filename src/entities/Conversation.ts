@@ -7,19 +7,41 @@ import {
     Index,
 } from "typeorm";
 
+export enum ConversationType {
+    DIRECT = "direct",
+    GROUP = "group",
+}
+
 @Entity("conversations")
 @Index(["participant1Id", "participant2Id"], { unique: true })
 export class Conversation {
     @PrimaryGeneratedColumn("uuid")
     id!: string;
 
-    @Column({ type: "varchar" })
+    @Column({
+        type: "enum",
+        enum: ConversationType,
+        default: ConversationType.DIRECT,
+    })
+    type!: ConversationType;
+
+    // Direct conversations only; group members live in conversation_participants
+    @Column({ type: "varchar", nullable: true })
     @Index()
-    participant1Id!: string;
+    participant1Id?: string;
 
-    @Column({ type: "varchar" })
+    @Column({ type: "varchar", nullable: true })
     @Index()
-    participant2Id!: string;
+    participant2Id?: string;
+
+    @Column({ type: "varchar", length: 100, nullable: true })
+    title?: string;
+
+    @Column({ type: "varchar", nullable: true })
+    avatarUrl?: string;
+
+    @Column({ type: "varchar", nullable: true })
+    createdBy?: string;
 
     @Column({ type: "timestamp", nullable: true })
     lastMessageAt?: Date;
@@ -27,11 +49,15 @@ export class Conversation {
     @Column({ type: "varchar", length: 500, nullable: true })
     lastMessagePreview?: string;
 
+    // Set by the enableEndToEndEncryption mutation; plaintext text is refused afterwards
+    @Column({ type: "boolean", default: false })
+    isEndToEndEncrypted!: boolean;
+
     @Column({ type: "boolean", default: false })
     isBlocked!: boolean;
 
     @Column({ type: "varchar", nullable: true })
-    blockedBy?: string;
+    blockedBy?: string | null;
 
     @CreateDateColumn()
     createdAt!: Date;
@@ -0,0 +1,44 @@
+import {
+    Entity,
+    PrimaryGeneratedColumn,
+    Column,
+    CreateDateColumn,
+    Index,
+} from "typeorm";
+
+export enum ParticipantRole {
+    ADMIN = "admin",
+    MEMBER = "member",
+}
+
+@Entity("conversation_participants")
+@Index(["conversationId", "userId"], { unique: true })
+export class ConversationParticipant {
+    @PrimaryGeneratedColumn("uuid")
+    id!: string;
+
+    @Column({ type: "uuid" })
+    @Index()
+    conversationId!: string;
+
+    @Column({ type: "varchar" })
+    @Index()
+    userId!: string;
+
+    @Column({
+        type: "enum",
+        enum: ParticipantRole,
+        default: ParticipantRole.MEMBER,
+    })
+    role!: ParticipantRole;
+
+    // Read cursor: everything up to and including this message has been read
+    @Column({ type: "uuid", nullable: true })
+    lastReadMessageId?: string;
+
+    @Column({ type: "timestamp", nullable: true })
+    lastReadAt?: Date; // createdAt of lastReadMessageId
+
+    @CreateDateColumn()
+    joinedAt!: Date;
+}
@@ -0,0 +1,28 @@
+import {
+    Entity,
+    PrimaryGeneratedColumn,
+    Column,
+    CreateDateColumn,
+    Index,
+} from "typeorm";
+
+// A message a user deleted "for me": hidden from their history only
+@Entity("hidden_messages")
+@Index(["messageId", "userId"], { unique: true })
+@Index(["userId", "conversationId"])
+export class HiddenMessage {
+    @PrimaryGeneratedColumn("uuid")
+    id!: string;
+
+    @Column({ type: "uuid" })
+    messageId!: string;
+
+    @Column({ type: "uuid" })
+    conversationId!: string;
+
+    @Column({ type: "varchar" })
+    userId!: string;
+
+    @CreateDateColumn()
+    hiddenAt!: Date;
+}
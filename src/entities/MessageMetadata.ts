@@ -13,6 +13,11 @@ export enum MessageType {
     FILE = "file",
 }
 
+export enum MessageDeleteScope {
+    ME = "me", // Hide from the requesting user's history only
+    EVERYONE = "everyone", // Retract for all members and purge the content
+}
+
 @Entity("message_metadata")
 @Index(["conversationId", "createdAt"])
 @Index(["receiverId", "isRead"])
@@ -31,8 +36,8 @@ export class MessageMetadata {
     @Index()
     senderId!: string;
 
-    @Column({ type: "varchar" })
-    receiverId!: string;
+    @Column({ type: "varchar", nullable: true })
+    receiverId?: string; // Direct conversations only
 
     @Column({
         type: "enum",
@@ -53,7 +58,13 @@ export class MessageMetadata {
     readAt?: Date;
 
     @Column({ type: "boolean", default: false })
-    isDeleted!: boolean;
+    isDeleted!: boolean; // Deleted for everyone
+
+    @Column({ type: "timestamp", nullable: true })
+    deletedAt?: Date;
+
+    @Column({ type: "boolean", default: false })
+    isHidden!: boolean; // Hidden from everyone by moderation (reports)
 
     @CreateDateColumn()
     createdAt!: Date;
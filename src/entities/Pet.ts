@@ -0,0 +1,42 @@
+import {
+    Entity,
+    PrimaryGeneratedColumn,
+    Column,
+    CreateDateColumn,
+    UpdateDateColumn,
+    Index,
+} from "typeorm";
+
+@Entity("pets")
+export class Pet {
+    @PrimaryGeneratedColumn("uuid")
+    id!: string;
+
+    @Column({ type: "varchar" })
+    @Index()
+    userId!: string; // Owner (User.id)
+
+    @Column({ type: "varchar", length: 100 })
+    name!: string;
+
+    @Column({ type: "varchar", length: 50 })
+    species!: string; // e.g. "dog", "cat"
+
+    @Column({ type: "varchar", length: 100, nullable: true })
+    breed?: string;
+
+    @Column({ type: "varchar", nullable: true })
+    birthday?: string; // YYYY-MM-DD
+
+    @Column({ type: "varchar", nullable: true })
+    avatarUrl?: string;
+
+    @Column({ type: "varchar", length: 500, nullable: true })
+    bio?: string;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+}
@@ -44,6 +44,10 @@ export class User {
   @Column({ default: false })
   isVerified!: boolean;
 
+  @Field()
+  @Column({ default: "user" })
+  role!: string; // "user" | "admin"
+
   @ManyToOne(() => MasterLoginType)
   @JoinColumn({ name: "loginTypeId" })
   loginType?: MasterLoginType;
@@ -9,13 +9,20 @@ import { connectMongoDB } from "./config/mongodb";
 import { AppDataSource } from "./config/postgres";
 import { logger } from "./utils/logger";
 import { authContext } from "./middleware/authContext";
+import { authChecker } from "./middleware/authChecker";
 import dotenv from "dotenv";
 import { runAllSeeds } from "./seed";
 import { initializeSocketServer } from "./socket/server";
+import { assertEncryptionConfigured } from "./utils/encryption";
+import { KeyRotationService } from "./service/keyRotation.service";
 import { ChatResolver } from "./resolvers/ChatResolver";
 import { ChatMediaResolver } from "./resolvers/ChatMediaResolver";
+import { ChatKeyResolver } from "./resolvers/ChatKeyResolver";
 import { ImageResolver } from "./resolvers/ImageResolver";
 import { PostResolver } from "./resolvers/PostResolver";
+import { PetResolver } from "./resolvers/PetResolver";
+import { NotificationResolver } from "./resolvers/NotificationResolver";
+import { ModerationResolver } from "./resolvers/ModerationResolver";
 import chatRoutes from "./routes/chatRoutes";
 import chatMediaRoutes from "./routes/chatMediaRoutes";
 
@@ -23,6 +30,9 @@ dotenv.config();
 
 async function bootstrap() {
   try {
+    // ✅ Refuse to run in production with the default chat encryption key
+    assertEncryptionConfigured();
+
     // ✅ Connect to MongoDB
     await connectMongoDB();
 
@@ -36,7 +46,8 @@ async function bootstrap() {
 
     // ✅ Build GraphQL schema
     const schema = await buildSchema({
-      resolvers: [UserResolver, ChatResolver, ChatMediaResolver, ImageResolver, PostResolver],
+      resolvers: [UserResolver, ChatResolver, ChatMediaResolver, ChatKeyResolver, ImageResolver, PostResolver, PetResolver, NotificationResolver, ModerationResolver],
+      authChecker,
     });
 
     const app = express();
@@ -65,6 +76,9 @@ async function bootstrap() {
 
     await runAllSeeds();
 
+    // ✅ Move chat messages onto the active encryption key in the background
+    new KeyRotationService().start();
+
     // ✅ Create HTTP server for Socket.io
     const httpServer = createServer(app);
 
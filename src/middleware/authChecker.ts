@@ -0,0 +1,40 @@
+import { AuthChecker, AuthenticationError } from "type-graphql";
+import { GraphQLContext, UserContext } from "./authContext";
+import { AuthRole, UserRole } from "../utils/constant";
+
+/**
+ * Check whether a user satisfies a single `@Authorized()` role.
+ * Admins satisfy every role.
+ */
+export function hasAuthRole(user: UserContext, role: string): boolean {
+  if (user.role === UserRole.ADMIN) return true;
+
+  switch (role) {
+    case AuthRole.USER:
+      return true;
+    case AuthRole.VERIFIED:
+      return user.isVerified;
+    case AuthRole.ADMIN:
+      return false;
+    default:
+      return false;
+  }
+}
+
+/**
+ * type-graphql auth checker backing `@Authorized(...roles)`.
+ * - No roles: any authenticated user.
+ * - Roles: the user must satisfy at least one of them.
+ * Unauthenticated callers always get UNAUTHENTICATED, authenticated callers
+ * without a matching role get UNAUTHORIZED.
+ */
+export const authChecker: AuthChecker<GraphQLContext> = ({ context }, roles) => {
+  const currentUser = context.currentUser;
+  if (!currentUser) {
+    throw new AuthenticationError("Unauthorized");
+  }
+
+  if (roles.length === 0) return true;
+
+  return roles.some((role) => hasAuthRole(currentUser, role));
+};
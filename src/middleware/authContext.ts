@@ -2,6 +2,8 @@ import admin from "../config/firebase";
 import { getDBRepository } from "../db/repository";
 import { User } from "../entities/User";
 import { logger } from "../utils/logger";
+import { HttpStatusCodes, UserRole } from "../utils/constant";
+import { CustomGraphQLError } from "../utils/utils";
 
 type Req = any;
 export interface UserContext{
@@ -14,6 +16,13 @@ export interface UserContext{
   dob?: string;
   phoneNumber?: string;
   isVerified: boolean;
+  role: string;
+}
+
+export interface GraphQLContext {
+  req: Req;
+  res: any;
+  currentUser: UserContext | null;
 }
 
 /**
@@ -21,29 +30,13 @@ export interface UserContext{
  * - Accepts Bearer token in `Authorization` header, `idtoken` header, or `idToken` query param.
  * - Verifies with Firebase Admin SDK and looks up the user in PostgreSQL.
  * - Returns `{ req, res, currentUser }` where `currentUser` is null if verification fails.
+ * - Access control is declared per field with `@Authorized()` (see `authChecker.ts`),
+ *   so a missing or invalid token never fails the request here.
  */
-export async function authContext({ req, res }: { req: Req; res: any }) {
+export async function authContext({ req, res }: { req: Req; res: any }): Promise<GraphQLContext> {
   let currentUser:UserContext  | null = null;
 
   try {
-    // If this is a GraphQL request for a public operation (login/signup/OTP flows), skip verification
-    const publicOperations = new Set([
-      "login",
-      "createUser",
-      "verifyOtpForSignup",
-      "SendOtpForSignup",
-      "resendEmailVerificationOtp",
-      "sendPasswordResetEmail",
-      "signupWithGoogle",
-      "refreshToken",
-    ]);
-
-    const opName = req?.body?.operationName || req?.body?.operation || null;
-    if (opName && publicOperations.has(opName)) {
-      logger.debug(`Skipping authContext verification for public operation: ${opName}`);
-      return { req, res, currentUser: null };
-    }
-
     const headers = req?.headers || {};
     const authHeader = headers.authorization || headers.Authorization;
     let token: string | undefined;
@@ -67,7 +60,10 @@ export async function authContext({ req, res }: { req: Req; res: any }) {
 
     // Try to find user by firebaseId first, then by email
     const repo = getDBRepository(User);
-    const user = await repo.findOne({ where: [{ firebaseId: decoded.uid }, { email: decoded.email }] });
+    // (skip the email clause when the token has none: an undefined value would match any row)
+    const where: Array<Partial<User>> = [{ firebaseId: decoded.uid }];
+    if (decoded.email) where.push({ email: decoded.email });
+    const user = await repo.findOne({ where });
     if (user) {
       currentUser = {
         id: user.id,
@@ -79,6 +75,7 @@ export async function authContext({ req, res }: { req: Req; res: any }) {
         dob: user.dob,
         phoneNumber: user.phoneNumber,
         isVerified: user.isVerified,
+        role: user.role,
       };
       logger.info(`✅ Loaded user into context: ${user.email}`);
     } else {
@@ -91,3 +88,41 @@ export async function authContext({ req, res }: { req: Req; res: any }) {
 
   return { req, res, currentUser };
 }
+
+/**
+ * Resolve which user an operation acts as.
+ * - Returns the authenticated caller's ID by default.
+ * - `onBehalfOfUserId` may name a different user only when the caller is an admin.
+ * - Throws 401 for unauthenticated callers and 403 for non-admin overrides.
+ */
+export function resolveActingUserId(ctx: GraphQLContext, onBehalfOfUserId?: string): string {
+  const currentUser = ctx?.currentUser;
+  if (!currentUser) {
+    throw new CustomGraphQLError("Unauthorized", HttpStatusCodes.UNAUTHORIZED);
+  }
+
+  if (onBehalfOfUserId && onBehalfOfUserId !== currentUser.id) {
+    if (currentUser.role !== UserRole.ADMIN) {
+      throw new CustomGraphQLError("Only admins can act on behalf of another user", HttpStatusCodes.FORBIDDEN);
+    }
+    logger.info(`🛡️ Admin ${currentUser.id} acting on behalf of user ${onBehalfOfUserId}`);
+    return onBehalfOfUserId;
+  }
+
+  return currentUser.id;
+}
+
+/**
+ * Express middleware for REST routes: verifies the token the same way as the GraphQL
+ * context and exposes the user as `res.locals.currentUser`. Responds 401 without one.
+ */
+export async function authenticateRequest(req: Req, res: any, next: () => void): Promise<void> {
+  const { currentUser } = await authContext({ req, res });
+  if (!currentUser) {
+    res.status(HttpStatusCodes.UNAUTHORIZED).json({ error: "Unauthorized" });
+    return;
+  }
+
+  res.locals.currentUser = currentUser;
+  next();
+}
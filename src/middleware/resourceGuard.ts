@@ -0,0 +1,119 @@
+import { Types } from "mongoose";
+import { AuthenticationError, AuthorizationError, createMethodMiddlewareDecorator } from "type-graphql";
+import { RequestHandler } from "express";
+import { GraphQLContext, UserContext, resolveActingUserId } from "./authContext";
+import { ConversationRepository } from "../repository/ConversationRepository";
+import { MessageRepository } from "../repository/MessageRepository";
+import { Post } from "../model/postSchema";
+import { HttpStatusCodes, UserRole } from "../utils/constant";
+import { logger } from "../utils/logger";
+
+export type GuardedResource = "conversation" | "message" | "post";
+
+// Admins can moderate posts they do not own; conversations and messages stay private to members
+const ADMIN_BYPASS: GuardedResource[] = ["post"];
+
+const conversationRepo = new ConversationRepository();
+const messageRepo = new MessageRepository();
+
+/**
+ * Per-resource access checks: does `userId` own / take part in resource `id`?
+ */
+const accessChecks: Record<GuardedResource, (id: string, userId: string) => Promise<boolean>> = {
+  conversation: (id, userId) => conversationRepo.isParticipant(id, userId),
+
+  message: async (id, userId) => {
+    const metadata = await messageRepo.getMetadataById(id);
+    return !!metadata && (await conversationRepo.isParticipant(metadata.conversationId, userId));
+  },
+
+  post: async (id, userId) => {
+    if (!Types.ObjectId.isValid(id)) return false;
+    const post = await Post.findById(id).select("userId");
+    return !!post && post.userId === userId;
+  },
+};
+
+/**
+ * Check that a user owns / takes part in every resource listed. Shared by the GraphQL
+ * decorator below, the REST middleware and the socket handlers.
+ * @param resource - Kind of resource
+ * @param value - A single ID or an array of IDs
+ * @param userId - User asking for access
+ * @throws AuthorizationError when an ID is missing or not accessible
+ */
+export async function assertResourceAccess(resource: GuardedResource, value: unknown, userId: string): Promise<void> {
+  const ids = (Array.isArray(value) ? value : [value]) as string[];
+  if (ids.length === 0) {
+    throw new AuthorizationError(`You do not have access to this ${resource}`);
+  }
+
+  for (const id of ids) {
+    if (!id || typeof id !== "string" || !(await accessChecks[resource](id, userId))) {
+      logger.warn(`⚠️ User ${userId} denied access to ${resource} ${id}`);
+      throw new AuthorizationError(`You do not have access to this ${resource}`);
+    }
+  }
+}
+
+/**
+ * Read an argument by name, supporting dotted paths such as "input.conversationId"
+ */
+function getArgValue(args: Record<string, any>, argPath: string): unknown {
+  return argPath.split(".").reduce<any>((value, key) => (value == null ? undefined : value[key]), args);
+}
+
+/**
+ * Method decorator ensuring the caller owns (or participates in) the resource
+ * identified by a resolver argument. Accepts a single ID or an array of IDs.
+ * Admins bypass the check for posts only; an admin acting on behalf of a user (`userId`
+ * argument) is checked as that user.
+ *
+ * @example
+ *   @Authorized()
+ *   @OwnsResource("conversation", "conversationId")
+ *   @Query(() => PaginatedMessages)
+ *   getConversationMessages(@Arg("conversationId") conversationId: string) { ... }
+ */
+export function OwnsResource(resource: GuardedResource, argPath: string): MethodDecorator {
+  return createMethodMiddlewareDecorator<GraphQLContext>(async ({ args, context }, next) => {
+    const currentUser = context.currentUser;
+    if (!currentUser) {
+      throw new AuthenticationError("Unauthorized");
+    }
+
+    if (currentUser.role === UserRole.ADMIN && ADMIN_BYPASS.includes(resource)) {
+      return next();
+    }
+
+    await assertResourceAccess(resource, getArgValue(args, argPath), resolveActingUserId(context, args.userId));
+    return next();
+  });
+}
+
+/**
+ * Express counterpart of `OwnsResource` for REST routes behind `authenticateRequest`.
+ * The ID is read from the route params first, then from the body.
+ *
+ * @example
+ *   router.get("/conversations/:conversationId/messages", requireResourceAccess("conversation", "conversationId"), handler)
+ */
+export function requireResourceAccess(resource: GuardedResource, argPath: string): RequestHandler {
+  return async (req, res, next) => {
+    const currentUser: UserContext | undefined = res.locals.currentUser;
+    if (!currentUser) {
+      return res.status(HttpStatusCodes.UNAUTHORIZED).json({ error: "Unauthorized" });
+    }
+
+    if (currentUser.role === UserRole.ADMIN && ADMIN_BYPASS.includes(resource)) {
+      return next();
+    }
+
+    try {
+      await assertResourceAccess(resource, getArgValue({ ...req.body, ...req.params }, argPath), currentUser.id);
+      next();
+    } catch (error: any) {
+      res.status(HttpStatusCodes.FORBIDDEN).json({ error: error.message });
+    }
+  };
+}
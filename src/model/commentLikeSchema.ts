@@ -0,0 +1,20 @@
+import { Schema, Document, model } from 'mongoose';
+
+export interface ICommentLike extends Document {
+    userId: string;
+    commentId: string;
+    createdAt: Date;
+}
+
+const commentLikeSchema = new Schema<ICommentLike>(
+    {
+        userId: { type: String, required: true },
+        commentId: { type: String, required: true, ref: 'Comment', index: true }
+    },
+    { timestamps: true }
+);
+
+// Compound index to prevent multiple likes from same user on same comment
+commentLikeSchema.index({ userId: 1, commentId: 1 }, { unique: true });
+
+export const CommentLike = model<ICommentLike>('CommentLike', commentLikeSchema);
@@ -4,6 +4,10 @@ export interface IComment extends Document {
     userId: string;
     postId: string;
     text: string;
+    parentCommentId?: string | null;
+    replyCount: number;
+    likeCount: number;
+    isHidden: boolean; // Hidden by moderation (reports)
     createdAt: Date;
     updatedAt: Date;
 }
@@ -12,9 +16,16 @@ const commentSchema = new Schema<IComment>(
     {
         userId: { type: String, required: true },
         postId: { type: String, required: true, ref: 'Post', index: true },
-        text: { type: String, required: true }
+        text: { type: String, required: true },
+        parentCommentId: { type: String, ref: 'Comment', default: null },
+        replyCount: { type: Number, default: 0 },
+        likeCount: { type: Number, default: 0 },
+        isHidden: { type: Boolean, default: false }
     },
     { timestamps: true }
 );
 
+// Compound index for cursor pagination of a post's top-level comments and a comment's replies
+commentSchema.index({ postId: 1, parentCommentId: 1, createdAt: 1, _id: 1 });
+
 export const Comment = model<IComment>('Comment', commentSchema);
@@ -0,0 +1,35 @@
+import { Schema, Document, model } from 'mongoose';
+
+/**
+ * Public E2EE keys a user's device publishes so others can start encrypted
+ * sessions with it. The server never sees private keys.
+ */
+export interface IDeviceKeyBundle extends Document {
+    userId: string;
+    deviceId: string; // Client-chosen, unique per user
+    registrationId?: number;
+    identityKey: string; // base64 public identity key
+    signedPreKeyId: number;
+    signedPreKey: string; // base64 public key
+    signedPreKeySignature: string; // base64, signed with the identity key
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const deviceKeyBundleSchema = new Schema<IDeviceKeyBundle>(
+    {
+        userId: { type: String, required: true, index: true },
+        deviceId: { type: String, required: true },
+        registrationId: { type: Number },
+        identityKey: { type: String, required: true },
+        signedPreKeyId: { type: Number, required: true },
+        signedPreKey: { type: String, required: true },
+        signedPreKeySignature: { type: String, required: true }
+    },
+    { timestamps: true }
+);
+
+// One bundle per device
+deviceKeyBundleSchema.index({ userId: 1, deviceId: 1 }, { unique: true });
+
+export const DeviceKeyBundle = model<IDeviceKeyBundle>('DeviceKeyBundle', deviceKeyBundleSchema);
@@ -0,0 +1,26 @@
+import { Schema, Document, model } from 'mongoose';
+
+export enum DevicePlatform {
+    IOS = "ios",
+    ANDROID = "android",
+    WEB = "web",
+}
+
+export interface IDeviceToken extends Document {
+    userId: string;
+    token: string; // FCM registration token
+    platform: DevicePlatform;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const deviceTokenSchema = new Schema<IDeviceToken>(
+    {
+        userId: { type: String, required: true, index: true },
+        token: { type: String, required: true, unique: true },
+        platform: { type: String, enum: Object.values(DevicePlatform), required: true }
+    },
+    { timestamps: true }
+);
+
+export const DeviceToken = model<IDeviceToken>('DeviceToken', deviceTokenSchema);
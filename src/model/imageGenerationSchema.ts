@@ -3,6 +3,7 @@ import { Schema, Document, model } from 'mongoose';
 export interface IImageGeneration extends Document {
     userId: string;
     prompt: string;
+    petIds: string[];
     inputImageLink?: string;
     inputImageBuffer?: Buffer;
     inputImageMimeType?: string;
@@ -17,6 +18,7 @@ const imageGenerationSchema: Schema = new Schema<IImageGeneration>(
     {
         userId: { type: String, required: true },
         prompt: { type: String, required: true },
+        petIds: { type: [String], default: [], index: true },
         inputImageLink: { type: String },
         inputImageBuffer: { type: Buffer },
         inputImageMimeType: { type: String },
@@ -28,4 +30,7 @@ const imageGenerationSchema: Schema = new Schema<IImageGeneration>(
     { timestamps: true }
 );
 
+// Checking whether stored media is still in use before deleting it
+imageGenerationSchema.index({ inputImageLink: 1 }, { sparse: true });
+
 export const ImageGeneration = model<IImageGeneration>('ImageGeneration', imageGenerationSchema);
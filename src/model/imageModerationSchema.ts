@@ -0,0 +1,54 @@
+import { Schema, Document, model } from 'mongoose';
+
+export type ImageModerationCategory = 'nsfw' | 'violence' | 'not_a_pet';
+
+export type ImageModerationSource = 'chat' | 'image_generation' | 'post';
+
+export type ImageModerationVerdict = 'approved' | 'quarantined' | 'rejected';
+
+export type ImageModerationScores = Record<ImageModerationCategory, number>;
+
+export interface IImageModeration extends Document {
+    userId: string;
+    source: ImageModerationSource;
+    provider: string; // Classifier that produced the scores
+    contentHash: string; // SHA-256 of the uploaded bytes
+    mimeType: string;
+    size: number;
+    scores: ImageModerationScores; // 0..1 per category
+    flaggedCategories: ImageModerationCategory[];
+    verdict: ImageModerationVerdict;
+    conversationId?: string;
+    storageUrl?: string; // Public URL once an approved image is uploaded
+    quarantineKey?: string; // Private R2 key of a quarantined image
+    createdAt: Date;
+}
+
+const imageModerationSchema = new Schema<IImageModeration>(
+    {
+        userId: { type: String, required: true },
+        source: { type: String, enum: ['chat', 'image_generation', 'post'], required: true },
+        provider: { type: String, required: true },
+        contentHash: { type: String, required: true, index: true },
+        mimeType: { type: String, required: true },
+        size: { type: Number, required: true },
+        scores: {
+            nsfw: { type: Number, required: true },
+            violence: { type: Number, required: true },
+            not_a_pet: { type: Number, required: true },
+        },
+        flaggedCategories: { type: [String], enum: ['nsfw', 'violence', 'not_a_pet'], default: [] },
+        verdict: { type: String, enum: ['approved', 'quarantined', 'rejected'], required: true },
+        conversationId: { type: String },
+        storageUrl: { type: String, index: true, sparse: true },
+        quarantineKey: { type: String },
+    },
+    { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+// A user's upload history, newest first
+imageModerationSchema.index({ userId: 1, createdAt: -1 });
+// Flagged uploads awaiting review, newest first
+imageModerationSchema.index({ verdict: 1, createdAt: -1 });
+
+export const ImageModeration = model<IImageModeration>('ImageModeration', imageModerationSchema);
@@ -0,0 +1,30 @@
+import { Schema, Document, model } from 'mongoose';
+
+export type MediaUploadSource = 'chat' | 'image_generation';
+
+/**
+ * An object this server put in R2, and who uploaded it. Stored media is only ever
+ * deleted through this record, never from a URL a client sent.
+ */
+export interface IMediaUpload extends Document {
+    key: string; // R2 object key
+    url: string; // Public URL handed back to the uploader
+    ownerId: string;
+    source: MediaUploadSource;
+    createdAt: Date;
+}
+
+const mediaUploadSchema = new Schema<IMediaUpload>(
+    {
+        key: { type: String, required: true, unique: true },
+        url: { type: String, required: true },
+        ownerId: { type: String, required: true },
+        source: { type: String, enum: ['chat', 'image_generation'], required: true },
+    },
+    { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+// Cleanup looks up the owner's upload behind a post or message URL
+mediaUploadSchema.index({ url: 1, ownerId: 1 });
+
+export const MediaUpload = model<IMediaUpload>('MediaUpload', mediaUploadSchema);
@@ -0,0 +1,25 @@
+import { Schema, Document, model } from 'mongoose';
+
+export interface IMessageReaction extends Document {
+    messageId: string; // MessageMetadata ID
+    conversationId: string;
+    userId: string;
+    emoji: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const messageReactionSchema = new Schema<IMessageReaction>(
+    {
+        messageId: { type: String, required: true },
+        conversationId: { type: String, required: true, index: true },
+        userId: { type: String, required: true },
+        emoji: { type: String, required: true },
+    },
+    { timestamps: true }
+);
+
+// One reaction per user per message; reacting again replaces the emoji
+messageReactionSchema.index({ messageId: 1, userId: 1 }, { unique: true });
+
+export const MessageReaction = model<IMessageReaction>('MessageReaction', messageReactionSchema);
@@ -4,11 +4,24 @@ export interface IMessage extends Document {
     _id: string;
     conversationId: string;
     senderId: string;
-    receiverId: string;
+    receiverId?: string; // Direct conversations only
     messageType: "text" | "image" | "video" | "file";
 
-    // Content (encrypted for text messages)
+    // Content (AES-256-GCM encrypted for text messages)
     encryptedContent?: string;
+    encryptionKeyId?: string; // Key version; absent on legacy CryptoJS-encrypted messages
+    encryptionIv?: string;
+    encryptionAuthTag?: string;
+
+    // End-to-end encrypted messages: one opaque ciphertext per recipient device, never decrypted here
+    isEndToEndEncrypted: boolean;
+    senderDeviceId?: string;
+    envelopes?: Array<{
+        recipientId: string;
+        recipientDeviceId: string;
+        type: number;
+        ciphertext: string;
+    }>;
 
     // Media metadata
     mediaUrl?: string;
@@ -20,6 +33,20 @@ export interface IMessage extends Document {
     // Reply/Thread support
     replyToMessageId?: string;
 
+    // Editing: prior encrypted versions, oldest first
+    editHistory: Array<{
+        encryptedContent?: string;
+        encryptionKeyId?: string;
+        encryptionIv?: string;
+        encryptionAuthTag?: string;
+        editedAt: Date;
+    }>;
+    isEdited: boolean;
+    editedAt?: Date;
+
+    // Keyed blind-index tokens of the current text, for search (see generateSearchTokens)
+    searchTokens?: string[];
+
     createdAt: Date;
     updatedAt: Date;
 }
@@ -28,19 +55,52 @@ const MessageSchema = new Schema<IMessage>(
     {
         conversationId: { type: String, required: true, index: true },
         senderId: { type: String, required: true, index: true },
-        receiverId: { type: String, required: true },
+        receiverId: { type: String },
         messageType: {
             type: String,
             enum: ["text", "image", "video", "file"],
             required: true,
         },
         encryptedContent: { type: String },
+        encryptionKeyId: { type: String },
+        encryptionIv: { type: String },
+        encryptionAuthTag: { type: String },
+        isEndToEndEncrypted: { type: Boolean, default: false },
+        senderDeviceId: { type: String },
+        envelopes: {
+            type: [
+                {
+                    _id: false,
+                    recipientId: { type: String, required: true },
+                    recipientDeviceId: { type: String, required: true },
+                    type: { type: Number, required: true },
+                    ciphertext: { type: String, required: true },
+                },
+            ],
+            default: undefined,
+        },
         mediaUrl: { type: String },
         mediaType: { type: String },
         mediaSize: { type: Number },
         fileName: { type: String },
         thumbnailUrl: { type: String },
         replyToMessageId: { type: String },
+        editHistory: {
+            type: [
+                {
+                    _id: false,
+                    encryptedContent: { type: String },
+                    encryptionKeyId: { type: String },
+                    encryptionIv: { type: String },
+                    encryptionAuthTag: { type: String },
+                    editedAt: { type: Date, required: true },
+                },
+            ],
+            default: [],
+        },
+        isEdited: { type: Boolean, default: false },
+        editedAt: { type: Date },
+        searchTokens: { type: [String], default: undefined, select: false },
     },
     {
         timestamps: true,
@@ -51,5 +111,12 @@ const MessageSchema = new Schema<IMessage>(
 // Compound index for efficient querying
 MessageSchema.index({ conversationId: 1, createdAt: -1 });
 MessageSchema.index({ senderId: 1, createdAt: -1 });
+// Search within a user's conversations, newest first
+MessageSchema.index({ conversationId: 1, searchTokens: 1, createdAt: -1 });
+// Key rotation: find messages still encrypted with an older key
+MessageSchema.index({ encryptionKeyId: 1 });
+// Checking whether stored media is still in use before deleting it
+MessageSchema.index({ mediaUrl: 1 }, { sparse: true });
+MessageSchema.index({ thumbnailUrl: 1 }, { sparse: true });
 
 export const Message = model<IMessage>("Message", MessageSchema);
@@ -0,0 +1,35 @@
+import { Schema, Document, model } from 'mongoose';
+import { ReportTargetType } from './reportSchema';
+
+export type ModerationAction = 'auto_hidden' | 'auto_flagged' | 'resolved' | 'dismissed';
+
+export const SYSTEM_ACTOR = 'system';
+
+export interface IModerationAuditLog extends Document {
+    caseId: string;
+    action: ModerationAction;
+    actorId: string; // Admin user ID, or SYSTEM_ACTOR for automatic actions
+    targetType: ReportTargetType;
+    targetId: string;
+    reportCount: number; // Reports on the case when the action was taken
+    note?: string;
+    createdAt: Date;
+}
+
+const moderationAuditLogSchema = new Schema<IModerationAuditLog>(
+    {
+        caseId: { type: String, required: true, index: true },
+        action: { type: String, enum: ['auto_hidden', 'auto_flagged', 'resolved', 'dismissed'], required: true },
+        actorId: { type: String, required: true },
+        targetType: { type: String, enum: Object.values(ReportTargetType), required: true },
+        targetId: { type: String, required: true },
+        reportCount: { type: Number, required: true },
+        note: { type: String },
+    },
+    { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+// History of a piece of content, newest first
+moderationAuditLogSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+
+export const ModerationAuditLog = model<IModerationAuditLog>('ModerationAuditLog', moderationAuditLogSchema);
@@ -0,0 +1,53 @@
+import { Schema, Document, model } from 'mongoose';
+import { ReportReason, ReportTargetType } from './reportSchema';
+
+export enum ModerationCaseStatus {
+    OPEN = 'open',
+    RESOLVED = 'resolved', // Violation confirmed: content stays hidden
+    DISMISSED = 'dismissed', // No violation: content restored
+}
+
+export interface IModerationCase extends Document {
+    targetType: ReportTargetType;
+    targetId: string;
+    targetOwnerId: string;
+    status: ModerationCaseStatus;
+    reportCount: number;
+    reasons: ReportReason[];
+    isHidden: boolean; // Content currently hidden because of this case
+    autoHiddenAt?: Date;
+    resolvedBy?: string;
+    resolvedAt?: Date;
+    resolutionNote?: string;
+    lastReportedAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const moderationCaseSchema = new Schema<IModerationCase>(
+    {
+        targetType: { type: String, enum: Object.values(ReportTargetType), required: true },
+        targetId: { type: String, required: true },
+        targetOwnerId: { type: String, required: true },
+        status: { type: String, enum: Object.values(ModerationCaseStatus), default: ModerationCaseStatus.OPEN },
+        reportCount: { type: Number, default: 0 },
+        reasons: { type: [String], enum: Object.values(ReportReason), default: [] },
+        isHidden: { type: Boolean, default: false },
+        autoHiddenAt: { type: Date },
+        resolvedBy: { type: String },
+        resolvedAt: { type: Date },
+        resolutionNote: { type: String },
+        lastReportedAt: { type: Date, default: Date.now },
+    },
+    { timestamps: true }
+);
+
+// At most one open case per piece of content; later reports join it
+moderationCaseSchema.index(
+    { targetType: 1, targetId: 1 },
+    { unique: true, partialFilterExpression: { status: ModerationCaseStatus.OPEN } }
+);
+// Cursor pagination of the moderation queue per status
+moderationCaseSchema.index({ status: 1, createdAt: -1, _id: -1 });
+
+export const ModerationCase = model<IModerationCase>('ModerationCase', moderationCaseSchema);
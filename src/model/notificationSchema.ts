@@ -2,10 +2,13 @@ import { Schema, Document, model } from 'mongoose';
 
 export interface INotification extends Document {
     recipientId: string; // The user receiving the notification (e.g., post author)
-    actorId: string; // The user performing the action (liker/commenter)
-    type: 'LIKE' | 'COMMENT';
-    entityId: string; // The ID of the Post related to the notification
+    actorId: string; // The most recent user performing the action (liker/commenter)
+    actorIds: string[]; // Every actor in the group, most recent first
+    count: number; // Number of actors in the group
+    type: 'LIKE' | 'COMMENT' | 'REPLY' | 'COMMENT_LIKE' | 'FOLLOW';
+    entityId: string; // The ID of the Post related to the notification (the followed user for FOLLOW)
     isRead: boolean;
+    lastActivityAt: Date; // When the latest actor joined the group
     createdAt: Date;
 }
 
@@ -13,11 +16,19 @@ const notificationSchema = new Schema<INotification>(
     {
         recipientId: { type: String, required: true, index: true },
         actorId: { type: String, required: true },
-        type: { type: String, enum: ['LIKE', 'COMMENT'], required: true },
+        actorIds: { type: [String], default: [] },
+        count: { type: Number, default: 1 },
+        type: { type: String, enum: ['LIKE', 'COMMENT', 'REPLY', 'COMMENT_LIKE', 'FOLLOW'], required: true },
         entityId: { type: String, required: true },
-        isRead: { type: Boolean, default: false }
+        isRead: { type: Boolean, default: false },
+        lastActivityAt: { type: Date, default: Date.now }
     },
     { timestamps: true }
 );
 
+// Compound index for cursor pagination of a user's notifications by latest activity
+notificationSchema.index({ recipientId: 1, lastActivityAt: -1, _id: -1 });
+// Compound index for finding the open group of a (recipient, type, post)
+notificationSchema.index({ recipientId: 1, type: 1, entityId: 1, createdAt: -1 });
+
 export const Notification = model<INotification>('Notification', notificationSchema);
@@ -0,0 +1,28 @@
+import { Schema, Document, model } from 'mongoose';
+
+/**
+ * Single-use E2EE pre-key. Handed out (and deleted) once when another user
+ * claims the device's key bundle.
+ */
+export interface IOneTimePreKey extends Document {
+    userId: string;
+    deviceId: string;
+    keyId: number;
+    publicKey: string; // base64
+    createdAt: Date;
+}
+
+const oneTimePreKeySchema = new Schema<IOneTimePreKey>(
+    {
+        userId: { type: String, required: true },
+        deviceId: { type: String, required: true },
+        keyId: { type: Number, required: true },
+        publicKey: { type: String, required: true }
+    },
+    { timestamps: true }
+);
+
+// Key IDs are unique per device; also serves claiming the oldest key first
+oneTimePreKeySchema.index({ userId: 1, deviceId: 1, keyId: 1 }, { unique: true });
+
+export const OneTimePreKey = model<IOneTimePreKey>('OneTimePreKey', oneTimePreKeySchema);
@@ -5,11 +5,13 @@ export interface IPost extends Document {
     contentUrl: string; // URL of the video or image
     caption?: string;
     type: 'video' | 'image';
+    petIds: string[]; // Pets tagged in the post
     stats: {
         likeCount: number;
         commentCount: number;
         shareCount: number;
     };
+    isHidden: boolean; // Hidden by moderation (reports)
     createdAt: Date;
     updatedAt: Date;
 }
@@ -20,13 +22,21 @@ const postSchema = new Schema<IPost>(
         contentUrl: { type: String, required: true },
         caption: { type: String },
         type: { type: String, enum: ['video', 'image'], required: true },
+        petIds: { type: [String], default: [], index: true },
         stats: {
             likeCount: { type: Number, default: 0 },
             commentCount: { type: Number, default: 0 },
             shareCount: { type: Number, default: 0 }
-        }
+        },
+        isHidden: { type: Boolean, default: false }
     },
     { timestamps: true }
 );
 
+// Compound index for cursor pagination of feeds
+postSchema.index({ userId: 1, createdAt: -1, _id: -1 });
+
+// Checking whether stored media is still in use before deleting it
+postSchema.index({ contentUrl: 1 });
+
 export const Post = model<IPost>('Post', postSchema);
@@ -0,0 +1,50 @@
+import { Schema, Document, model } from 'mongoose';
+
+export enum ReportTargetType {
+    POST = 'post',
+    COMMENT = 'comment',
+    MESSAGE = 'message', // MessageMetadata ID
+    USER = 'user',
+}
+
+export enum ReportReason {
+    SPAM = 'spam',
+    HARASSMENT = 'harassment',
+    HATE_SPEECH = 'hate_speech',
+    NUDITY = 'nudity',
+    VIOLENCE = 'violence',
+    ANIMAL_ABUSE = 'animal_abuse',
+    SCAM = 'scam',
+    IMPERSONATION = 'impersonation',
+    OTHER = 'other',
+}
+
+export interface IReport extends Document {
+    reporterId: string;
+    targetType: ReportTargetType;
+    targetId: string;
+    targetOwnerId: string; // Author of the content, or the reported user
+    caseId: string; // ModerationCase the report was filed under
+    reason: ReportReason;
+    details?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const reportSchema = new Schema<IReport>(
+    {
+        reporterId: { type: String, required: true },
+        targetType: { type: String, enum: Object.values(ReportTargetType), required: true },
+        targetId: { type: String, required: true },
+        targetOwnerId: { type: String, required: true },
+        caseId: { type: String, required: true, index: true },
+        reason: { type: String, enum: Object.values(ReportReason), required: true },
+        details: { type: String, maxlength: 1000 },
+    },
+    { timestamps: true }
+);
+
+// One report per reporter per piece of content
+reportSchema.index({ reporterId: 1, targetType: 1, targetId: 1 }, { unique: true });
+
+export const Report = model<IReport>('Report', reportSchema);
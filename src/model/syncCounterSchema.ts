@@ -0,0 +1,19 @@
+import { Schema, Document, model } from 'mongoose';
+
+/**
+ * Last sync sequence number handed out per user (see syncEventSchema)
+ */
+export interface ISyncCounter extends Document<string> {
+    _id: string; // User ID
+    seq: number;
+}
+
+const syncCounterSchema = new Schema<ISyncCounter>(
+    {
+        _id: { type: String, required: true },
+        seq: { type: Number, required: true, default: 0 }
+    },
+    { versionKey: false }
+);
+
+export const SyncCounter = model<ISyncCounter>('SyncCounter', syncCounterSchema);
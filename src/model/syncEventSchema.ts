@@ -0,0 +1,44 @@
+import { Schema, Document, model } from 'mongoose';
+
+export type SyncEventType =
+    | 'message'
+    | 'message_edited'
+    | 'message_deleted'
+    | 'message_reaction'
+    | 'messages_read'
+    | 'message_delivered';
+
+const RETENTION_SECONDS = 30 * 24 * 60 * 60; // Clients offline longer than this resync from scratch
+
+/**
+ * Entry in a user's chat event log. `seq` increases monotonically per user, so a
+ * reconnecting client asks for everything after the last seq it processed.
+ */
+export interface ISyncEvent extends Document {
+    userId: string;
+    seq: number;
+    type: SyncEventType;
+    conversationId: string;
+    data: Record<string, any>; // Socket payload; message events only hold { id, senderId } and are filled in on read
+    createdAt: Date;
+}
+
+const syncEventSchema = new Schema<ISyncEvent>(
+    {
+        userId: { type: String, required: true },
+        seq: { type: Number, required: true },
+        type: { type: String, required: true },
+        conversationId: { type: String, required: true },
+        data: { type: Schema.Types.Mixed, required: true }
+    },
+    { timestamps: { createdAt: true, updatedAt: false }, minimize: false }
+);
+
+// One event per seq per user; also serves reading the log in order
+syncEventSchema.index({ userId: 1, seq: 1 }, { unique: true });
+// Tombstoning a retracted message's events
+syncEventSchema.index({ 'data.id': 1 }, { sparse: true });
+// Expire old events
+syncEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: RETENTION_SECONDS });
+
+export const SyncEvent = model<ISyncEvent>('SyncEvent', syncEventSchema);
@@ -0,0 +1,21 @@
+import { Schema, Document, model } from 'mongoose';
+
+export interface IUserBlock extends Document {
+    blockerId: string;
+    blockedId: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const userBlockSchema = new Schema<IUserBlock>(
+    {
+        blockerId: { type: String, required: true },
+        blockedId: { type: String, required: true, index: true },
+    },
+    { timestamps: true }
+);
+
+// A user blocks another user at most once; also serves "who did I block" lookups
+userBlockSchema.index({ blockerId: 1, blockedId: 1 }, { unique: true });
+
+export const UserBlock = model<IUserBlock>('UserBlock', userBlockSchema);
@@ -0,0 +1,239 @@
+import { In } from "typeorm";
+import { AppDataSource } from "../config/postgres";
+import { ConversationParticipant, ParticipantRole } from "../entities/ConversationParticipant";
+import { MessageMetadata } from "../entities/MessageMetadata";
+import { logger } from "../utils/logger";
+
+export class ConversationParticipantRepository {
+    private repository = AppDataSource.getRepository(ConversationParticipant);
+
+    /**
+     * Add users to a conversation; users already in it are left untouched
+     * @param conversationId - Conversation ID
+     * @param userIds - Users to add
+     * @param role - Role for the new participants (default: member)
+     */
+    async addParticipants(
+        conversationId: string,
+        userIds: string[],
+        role: ParticipantRole = ParticipantRole.MEMBER
+    ): Promise<void> {
+        try {
+            if (userIds.length === 0) return;
+
+            await this.repository
+                .createQueryBuilder()
+                .insert()
+                .values(userIds.map((userId) => ({ conversationId, userId, role })))
+                .orIgnore()
+                .execute();
+        } catch (error: any) {
+            logger.error(`❌ Error adding conversation participants: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Remove a user from a conversation
+     * @param conversationId - Conversation ID
+     * @param userId - User to remove
+     * @returns true if the user was a participant
+     */
+    async removeParticipant(conversationId: string, userId: string): Promise<boolean> {
+        try {
+            const result = await this.repository.delete({ conversationId, userId });
+            return (result.affected || 0) > 0;
+        } catch (error: any) {
+            logger.error(`❌ Error removing conversation participant: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Get a user's participation in a conversation
+     * @param conversationId - Conversation ID
+     * @param userId - User ID
+     * @returns Participant or null
+     */
+    async getParticipant(conversationId: string, userId: string): Promise<ConversationParticipant | null> {
+        try {
+            return await this.repository.findOne({ where: { conversationId, userId } });
+        } catch (error: any) {
+            logger.error(`❌ Error getting conversation participant: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Get all participants of a conversation, oldest member first
+     * @param conversationId - Conversation ID
+     * @returns Participants
+     */
+    async getParticipants(conversationId: string): Promise<ConversationParticipant[]> {
+        try {
+            return await this.repository.find({
+                where: { conversationId },
+                order: { joinedAt: "ASC" },
+            });
+        } catch (error: any) {
+            logger.error(`❌ Error getting conversation participants: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Get participants of several conversations at once
+     * @param conversationIds - Conversation IDs
+     * @returns Participants of all given conversations
+     */
+    async getParticipantsForConversations(conversationIds: string[]): Promise<ConversationParticipant[]> {
+        try {
+            if (conversationIds.length === 0) return [];
+            return await this.repository.find({
+                where: { conversationId: In(conversationIds) },
+                order: { joinedAt: "ASC" },
+            });
+        } catch (error: any) {
+            logger.error(`❌ Error getting conversation participants: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the IDs of every conversation a user takes part in
+     * @param userId - User ID
+     * @returns Conversation IDs
+     */
+    async getConversationIds(userId: string): Promise<string[]> {
+        try {
+            const rows = await this.repository.find({ where: { userId }, select: ["conversationId"] });
+            return rows.map((row) => row.conversationId);
+        } catch (error: any) {
+            logger.error(`❌ Error getting user conversation IDs: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Which of `otherUserIds` are in at least one conversation with a user
+     * @param userId - User ID
+     * @param otherUserIds - Users to check
+     * @returns The users sharing a conversation with `userId`
+     */
+    async getSharedParticipantIds(userId: string, otherUserIds: string[]): Promise<string[]> {
+        try {
+            if (otherUserIds.length === 0) return [];
+
+            const rows = await this.repository
+                .createQueryBuilder("other")
+                .innerJoin(
+                    ConversationParticipant,
+                    "me",
+                    `me."conversationId" = other."conversationId" AND me."userId" = :userId`,
+                    { userId }
+                )
+                .select(`DISTINCT other."userId"`, "userId")
+                .where(`other."userId" IN (:...otherUserIds)`, { otherUserIds })
+                .getRawMany<{ userId: string }>();
+            return rows.map((row) => row.userId);
+        } catch (error: any) {
+            logger.error(`❌ Error getting shared conversation participants: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Change a participant's role
+     * @param conversationId - Conversation ID
+     * @param userId - Participant user ID
+     * @param role - New role
+     */
+    async setRole(conversationId: string, userId: string, role: ParticipantRole): Promise<void> {
+        try {
+            await this.repository.update({ conversationId, userId }, { role });
+        } catch (error: any) {
+            logger.error(`❌ Error updating participant role: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Move a participant's read cursor forward to a message. Never moves it backwards.
+     * @param conversationId - Conversation ID
+     * @param userId - Participant user ID
+     * @param messageId - Newest message read
+     * @param messageCreatedAt - Creation time of that message
+     * @returns true if the cursor advanced
+     */
+    async advanceReadCursor(
+        conversationId: string,
+        userId: string,
+        messageId: string,
+        messageCreatedAt: Date
+    ): Promise<boolean> {
+        try {
+            const result = await this.repository
+                .createQueryBuilder()
+                .update()
+                .set({ lastReadMessageId: messageId, lastReadAt: messageCreatedAt })
+                .where(`"conversationId" = :conversationId AND "userId" = :userId`, { conversationId, userId })
+                .andWhere(`("lastReadAt" IS NULL OR "lastReadAt" < :messageCreatedAt)`, { messageCreatedAt })
+                .execute();
+            return (result.affected || 0) > 0;
+        } catch (error: any) {
+            logger.error(`❌ Error advancing read cursor: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Count unread messages per conversation for a user in a single query.
+     * A message is unread when it is newer than the user's read cursor (or join time)
+     * and was sent by someone else.
+     * @param userId - User ID
+     * @param conversationIds - Optional conversations to restrict to (default: all of the user's)
+     * @param blockedSenderIds - Users whose group messages are not counted (those the user blocked)
+     * @returns Unread count keyed by conversation ID (conversations without unread messages map to 0)
+     */
+    async getUnreadCounts(
+        userId: string,
+        conversationIds?: string[],
+        blockedSenderIds: string[] = []
+    ): Promise<Map<string, number>> {
+        try {
+            if (conversationIds && conversationIds.length === 0) return new Map();
+
+            const query = this.repository
+                .createQueryBuilder("participant")
+                .leftJoin(
+                    MessageMetadata,
+                    "message",
+                    `message."conversationId" = participant."conversationId"
+                     AND message."senderId" != participant."userId"
+                     AND message."isDeleted" = false
+                     AND message."isHidden" = false
+                     AND message."createdAt" > COALESCE(participant."lastReadAt", participant."joinedAt")
+                     AND NOT EXISTS (SELECT 1 FROM hidden_messages hidden
+                       WHERE hidden."messageId" = message.id AND hidden."userId" = participant."userId")
+                     ${blockedSenderIds.length > 0
+                        ? `AND NOT (message."receiverId" IS NULL AND message."senderId" IN (:...blockedSenderIds))`
+                        : ""}`,
+                    { blockedSenderIds }
+                )
+                .select(`participant."conversationId"`, "conversationId")
+                .addSelect("COUNT(message.id)", "unreadCount")
+                .where(`participant."userId" = :userId`, { userId })
+                .groupBy(`participant."conversationId"`);
+
+            if (conversationIds) {
+                query.andWhere(`participant."conversationId" IN (:...conversationIds)`, { conversationIds });
+            }
+
+            const rows: Array<{ conversationId: string; unreadCount: string }> = await query.getRawMany();
+            return new Map(rows.map((row) => [row.conversationId, Number(row.unreadCount)]));
+        } catch (error: any) {
+            logger.error(`❌ Error getting unread counts: ${error.message}`);
+            throw error;
+        }
+    }
+}
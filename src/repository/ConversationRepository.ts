@@ -1,9 +1,12 @@
 import { AppDataSource } from "../config/postgres";
-import { Conversation } from "../entities/Conversation";
+import { Conversation, ConversationType } from "../entities/Conversation";
+import { ConversationParticipant } from "../entities/ConversationParticipant";
+import { ConversationParticipantRepository } from "./ConversationParticipantRepository";
 import { logger } from "../utils/logger";
 
 export class ConversationRepository {
     private repository = AppDataSource.getRepository(Conversation);
+    private participantRepo = new ConversationParticipantRepository();
 
     /**
      * Find or create a conversation between two users
@@ -25,10 +28,12 @@ export class ConversationRepository {
 
             if (!conversation) {
                 conversation = this.repository.create({
+                    type: ConversationType.DIRECT,
                     participant1Id: participantA,
                     participant2Id: participantB,
                 });
                 await this.repository.save(conversation);
+                await this.participantRepo.addParticipants(conversation.id, [participantA, participantB]);
                 logger.info(`✅ Created new conversation: ${conversation.id}`);
             }
 
@@ -39,6 +44,80 @@ export class ConversationRepository {
         }
     }
 
+    /**
+     * Find the direct conversation between two users, if there is one
+     * @param user1Id - First user ID
+     * @param user2Id - Second user ID
+     * @returns Conversation entity or null
+     */
+    async findDirectConversation(user1Id: string, user2Id: string): Promise<Conversation | null> {
+        try {
+            return await this.repository.findOne({
+                where: [
+                    { type: ConversationType.DIRECT, participant1Id: user1Id, participant2Id: user2Id },
+                    { type: ConversationType.DIRECT, participant1Id: user2Id, participant2Id: user1Id },
+                ],
+            });
+        } catch (error: any) {
+            logger.error(`❌ Error finding direct conversation: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Create a group conversation (participants are added separately)
+     * @param creatorId - User creating the group
+     * @param title - Group title
+     * @param avatarUrl - Optional group avatar
+     * @returns Conversation entity
+     */
+    async createGroupConversation(creatorId: string, title: string, avatarUrl?: string): Promise<Conversation> {
+        try {
+            const conversation = this.repository.create({
+                type: ConversationType.GROUP,
+                title,
+                avatarUrl,
+                createdBy: creatorId,
+            });
+            await this.repository.save(conversation);
+            logger.info(`✅ Created new group conversation: ${conversation.id}`);
+            return conversation;
+        } catch (error: any) {
+            logger.error(`❌ Error creating group conversation: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Update a group's title and/or avatar
+     * @param conversationId - Conversation ID
+     * @param details - Fields to update
+     */
+    async updateGroupDetails(
+        conversationId: string,
+        details: { title?: string; avatarUrl?: string }
+    ): Promise<void> {
+        try {
+            await this.repository.update(conversationId, details);
+        } catch (error: any) {
+            logger.error(`❌ Error updating group details: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Switch a conversation to end-to-end encryption (one way)
+     * @param conversationId - Conversation ID
+     */
+    async enableEndToEndEncryption(conversationId: string): Promise<void> {
+        try {
+            await this.repository.update(conversationId, { isEndToEndEncrypted: true });
+        } catch (error: any) {
+            logger.error(`❌ Error enabling end-to-end encryption: ${error.message}`);
+            throw error;
+        }
+    }
+
     /**
      * Get conversation by ID
      * @param conversationId - Conversation ID
@@ -68,17 +147,18 @@ export class ConversationRepository {
         try {
             const skip = (page - 1) * limit;
 
-            const [conversations, total] = await this.repository.findAndCount({
-                where: [
-                    { participant1Id: userId },
-                    { participant2Id: userId },
-                ],
-                order: {
-                    lastMessageAt: "DESC",
-                },
-                skip,
-                take: limit,
-            });
+            const [conversations, total] = await this.repository
+                .createQueryBuilder("conversation")
+                .innerJoin(
+                    ConversationParticipant,
+                    "participant",
+                    "participant.conversationId = conversation.id AND participant.userId = :userId",
+                    { userId }
+                )
+                .orderBy("conversation.lastMessageAt", "DESC")
+                .skip(skip)
+                .take(limit)
+                .getManyAndCount();
 
             return { conversations, total };
         } catch (error: any) {
@@ -135,7 +215,7 @@ export class ConversationRepository {
         try {
             await this.repository.update(conversationId, {
                 isBlocked: false,
-                blockedBy: undefined,
+                blockedBy: null, // undefined would leave the column untouched
             });
             logger.info(`✅ Conversation ${conversationId} unblocked`);
         } catch (error: any) {
@@ -144,6 +224,22 @@ export class ConversationRepository {
         }
     }
 
+    /**
+     * Check if a user is a participant of a conversation
+     * @param conversationId - Conversation ID
+     * @param userId - User ID
+     * @returns true if the user takes part in the conversation
+     */
+    async isParticipant(conversationId: string, userId: string): Promise<boolean> {
+        try {
+            const participant = await this.participantRepo.getParticipant(conversationId, userId);
+            return !!participant;
+        } catch (error: any) {
+            logger.error(`❌ Error checking conversation participant: ${error.message}`);
+            return false;
+        }
+    }
+
     /**
      * Check if conversation is blocked
      * @param conversationId - Conversation ID
@@ -0,0 +1,96 @@
+import { MessageReaction } from "../model/messageReactionSchema";
+import { logger } from "../utils/logger";
+
+export interface ReactionSummary {
+    emoji: string;
+    count: number;
+    userIds: string[];
+}
+
+export class MessageReactionRepository {
+    /**
+     * Set a user's reaction on a message, replacing any previous emoji
+     * @param messageId - Message metadata ID
+     * @param conversationId - Conversation the message belongs to
+     * @param userId - Reacting user
+     * @param emoji - Reaction emoji
+     */
+    async setReaction(messageId: string, conversationId: string, userId: string, emoji: string): Promise<void> {
+        try {
+            await MessageReaction.findOneAndUpdate(
+                { messageId, userId },
+                { $set: { emoji }, $setOnInsert: { conversationId } },
+                { upsert: true }
+            );
+        } catch (error: any) {
+            logger.error(`❌ Error setting message reaction: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Remove a user's reaction from a message
+     * @param messageId - Message metadata ID
+     * @param userId - Reacting user
+     * @returns true if a reaction was removed
+     */
+    async removeReaction(messageId: string, userId: string): Promise<boolean> {
+        try {
+            const result = await MessageReaction.deleteOne({ messageId, userId });
+            return result.deletedCount > 0;
+        } catch (error: any) {
+            logger.error(`❌ Error removing message reaction: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Remove every reaction on a message
+     * @param messageId - Message metadata ID
+     */
+    async deleteForMessage(messageId: string): Promise<void> {
+        try {
+            await MessageReaction.deleteMany({ messageId });
+        } catch (error: any) {
+            logger.error(`❌ Error deleting message reactions: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Aggregate reactions for several messages in one query
+     * @param messageIds - Message metadata IDs
+     * @returns Map of message ID to its reactions, most used emoji first
+     */
+    async getReactionSummaries(messageIds: string[]): Promise<Map<string, ReactionSummary[]>> {
+        try {
+            const summaries = new Map<string, ReactionSummary[]>();
+            if (messageIds.length === 0) return summaries;
+
+            const rows = await MessageReaction.aggregate<{ _id: { messageId: string; emoji: string }; count: number; userIds: string[]; firstAt: Date }>([
+                { $match: { messageId: { $in: messageIds } } },
+                { $sort: { createdAt: 1 } },
+                {
+                    $group: {
+                        _id: { messageId: "$messageId", emoji: "$emoji" },
+                        count: { $sum: 1 },
+                        userIds: { $push: "$userId" },
+                        firstAt: { $first: "$createdAt" },
+                    },
+                },
+                { $sort: { count: -1, firstAt: 1 } },
+            ]);
+
+            for (const row of rows) {
+                const list = summaries.get(row._id.messageId) || [];
+                list.push({ emoji: row._id.emoji, count: row.count, userIds: row.userIds });
+                summaries.set(row._id.messageId, list);
+            }
+
+            return summaries;
+        } catch (error: any) {
+            logger.error(`❌ Error getting message reactions: ${error.message}`);
+            throw error;
+        }
+    }
+}
@@ -1,14 +1,21 @@
+import { In } from "typeorm";
 import { AppDataSource } from "../config/postgres";
 import { MessageMetadata, MessageType } from "../entities/MessageMetadata";
+import { HiddenMessage } from "../entities/HiddenMessage";
 import { Message, IMessage } from "../model/messageSchema";
 import { logger } from "../utils/logger";
+import { cursorFilter } from "../utils/cursor";
+import { StoredCiphertext } from "../utils/encryption";
 
-export interface CreateMessageData {
+export interface CreateMessageData extends StoredCiphertext {
     conversationId: string;
     senderId: string;
-    receiverId: string;
+    receiverId?: string;
     messageType: MessageType;
-    encryptedContent?: string;
+    searchTokens?: string[];
+    isEndToEndEncrypted?: boolean;
+    senderDeviceId?: string;
+    envelopes?: IMessage["envelopes"];
     mediaUrl?: string;
     mediaType?: string;
     mediaSize?: number;
@@ -19,6 +26,7 @@ export interface CreateMessageData {
 
 export class MessageRepository {
     private metadataRepository = AppDataSource.getRepository(MessageMetadata);
+    private hiddenRepository = AppDataSource.getRepository(HiddenMessage);
 
     /**
      * Create a new message (both MongoDB and PostgreSQL)
@@ -34,6 +42,13 @@ export class MessageRepository {
                 receiverId: data.receiverId,
                 messageType: data.messageType,
                 encryptedContent: data.encryptedContent,
+                encryptionKeyId: data.encryptionKeyId,
+                encryptionIv: data.encryptionIv,
+                encryptionAuthTag: data.encryptionAuthTag,
+                isEndToEndEncrypted: data.isEndToEndEncrypted || false,
+                senderDeviceId: data.senderDeviceId,
+                envelopes: data.envelopes,
+                searchTokens: data.searchTokens,
                 mediaUrl: data.mediaUrl,
                 mediaType: data.mediaType,
                 mediaSize: data.mediaSize,
@@ -69,23 +84,27 @@ export class MessageRepository {
      * @param conversationId - Conversation ID
      * @param page - Page number (default: 1)
      * @param limit - Items per page (default: 50)
+     * @param viewerId - When set, messages this user deleted for themselves are left out
+     * @param blockedSenderIds - Users whose group messages are left out (those the viewer blocked)
      * @returns Messages with metadata
      */
     async getMessagesByConversation(
         conversationId: string,
         page: number = 1,
-        limit: number = 50
+        limit: number = 50,
+        viewerId?: string,
+        blockedSenderIds: string[] = []
     ): Promise<{ messages: Array<{ message: IMessage; metadata: MessageMetadata }>; total: number }> {
         try {
             const skip = (page - 1) * limit;
 
             // Get metadata from PostgreSQL
-            const [metadataList, total] = await this.metadataRepository.findAndCount({
-                where: { conversationId, isDeleted: false },
-                order: { createdAt: "DESC" },
-                skip,
-                take: limit,
-            });
+            const [metadataList, total] = await this.visibleMessagesQuery(viewerId, blockedSenderIds)
+                .andWhere(`message."conversationId" = :conversationId`, { conversationId })
+                .orderBy(`message."createdAt"`, "DESC")
+                .skip(skip)
+                .take(limit)
+                .getManyAndCount();
 
             // Get corresponding messages from MongoDB
             const mongoMessageIds = metadataList.map((m) => m.mongoMessageId);
@@ -104,6 +123,158 @@ export class MessageRepository {
         }
     }
 
+    /**
+     * Metadata rows that are not deleted for everyone, nor hidden by the viewer
+     * @param viewerId - When set, messages this user deleted for themselves are left out
+     * @param blockedSenderIds - Users whose group messages are left out. Direct messages are
+     * unaffected: a block already stops new ones, and the earlier ones stay visible.
+     */
+    private visibleMessagesQuery(viewerId?: string, blockedSenderIds: string[] = []) {
+        const query = this.metadataRepository
+            .createQueryBuilder("message")
+            .where(`message."isDeleted" = false`)
+            .andWhere(`message."isHidden" = false`);
+
+        if (viewerId) {
+            query.andWhere(
+                `NOT EXISTS (SELECT 1 FROM hidden_messages hidden
+                  WHERE hidden."messageId" = message.id AND hidden."userId" = :viewerId)`,
+                { viewerId }
+            );
+        }
+        if (blockedSenderIds.length > 0) {
+            query.andWhere(
+                `NOT (message."receiverId" IS NULL AND message."senderId" IN (:...blockedSenderIds))`,
+                { blockedSenderIds }
+            );
+        }
+
+        return query;
+    }
+
+    /**
+     * Find text messages whose blind index contains every token, newest first
+     * @param conversationIds - Conversations to search
+     * @param tokens - Blind-index tokens that must all be present
+     * @param limit - Page size (fetches limit + 1 to detect a next page)
+     * @param after - Cursor from a previous page
+     * @returns MongoDB messages
+     */
+    async searchMessages(
+        conversationIds: string[],
+        tokens: string[],
+        limit: number,
+        after?: string
+    ): Promise<IMessage[]> {
+        try {
+            if (conversationIds.length === 0) return [];
+
+            const filter: Record<string, any> = {
+                conversationId: { $in: conversationIds },
+                searchTokens: { $all: tokens },
+            };
+            if (after) Object.assign(filter, cursorFilter(after, "desc"));
+
+            return await Message.find(filter)
+                .sort({ createdAt: -1, _id: -1 })
+                .limit(limit + 1);
+        } catch (error: any) {
+            logger.error(`❌ Error searching messages: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the visible metadata for MongoDB messages
+     * @param mongoMessageIds - MongoDB message IDs
+     * @param viewerId - Messages this user deleted for themselves are left out
+     * @param blockedSenderIds - Users whose group messages are left out
+     * @returns Metadata for messages the viewer can still see
+     */
+    async getVisibleMetadataByMongoIds(
+        mongoMessageIds: string[],
+        viewerId: string,
+        blockedSenderIds: string[] = []
+    ): Promise<MessageMetadata[]> {
+        try {
+            if (mongoMessageIds.length === 0) return [];
+
+            return await this.visibleMessagesQuery(viewerId, blockedSenderIds)
+                .andWhere(`message."mongoMessageId" IN (:...mongoMessageIds)`, { mongoMessageIds })
+                .getMany();
+        } catch (error: any) {
+            logger.error(`❌ Error getting message metadata: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Get messages by ID with their content, leaving out ones the viewer can no longer see
+     * @param messageIds - Message metadata IDs
+     * @param viewerId - Messages this user deleted for themselves are left out
+     * @param blockedSenderIds - Users whose group messages are left out
+     * @returns Visible messages with metadata
+     */
+    async getVisibleMessagesByIds(
+        messageIds: string[],
+        viewerId: string,
+        blockedSenderIds: string[] = []
+    ): Promise<Array<{ message: IMessage; metadata: MessageMetadata }>> {
+        try {
+            if (messageIds.length === 0) return [];
+
+            const metadataList = await this.visibleMessagesQuery(viewerId, blockedSenderIds)
+                .andWhere(`message.id IN (:...messageIds)`, { messageIds })
+                .getMany();
+            const mongoMessages = await Message.find({ _id: { $in: metadataList.map((m) => m.mongoMessageId) } });
+
+            return metadataList.map((metadata) => {
+                const message = mongoMessages.find((m) => m._id.toString() === metadata.mongoMessageId);
+                return { message: message!, metadata };
+            }).filter((item) => item.message);
+        } catch (error: any) {
+            logger.error(`❌ Error getting messages: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Count the messages a viewer sees above a message in its conversation's history
+     * @param metadata - Message metadata
+     * @param viewerId - User viewing the history
+     * @param blockedSenderIds - Users whose group messages the viewer does not see
+     * @returns Number of newer visible messages
+     */
+    async countNewerVisibleMessages(
+        metadata: MessageMetadata,
+        viewerId: string,
+        blockedSenderIds: string[] = []
+    ): Promise<number> {
+        try {
+            return await this.visibleMessagesQuery(viewerId, blockedSenderIds)
+                .andWhere(`message."conversationId" = :conversationId`, { conversationId: metadata.conversationId })
+                .andWhere(`message."createdAt" > :createdAt`, { createdAt: metadata.createdAt })
+                .getCount();
+        } catch (error: any) {
+            logger.error(`❌ Error counting newer messages: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Get message metadata by ID
+     * @param messageId - Message metadata ID
+     * @returns Metadata or null
+     */
+    async getMetadataById(messageId: string): Promise<MessageMetadata | null> {
+        try {
+            return await this.metadataRepository.findOne({ where: { id: messageId } });
+        } catch (error: any) {
+            logger.error(`❌ Error getting message metadata: ${error.message}`);
+            throw error;
+        }
+    }
+
     /**
      * Mark message as delivered
      * @param messageId - Message metadata ID
@@ -121,98 +292,142 @@ export class MessageRepository {
     }
 
     /**
-     * Mark messages as read
-     * @param messageIds - Array of message metadata IDs
+     * Get message metadata for several messages
+     * @param messageIds - Message metadata IDs
+     * @returns Metadata rows found
      */
-    async markAsRead(messageIds: string[]): Promise<void> {
+    async getMetadataByIds(messageIds: string[]): Promise<MessageMetadata[]> {
         try {
-            await this.metadataRepository.update(messageIds, {
-                isRead: true,
-                readAt: new Date(),
-            });
-            logger.info(`✅ Marked ${messageIds.length} messages as read`);
+            if (messageIds.length === 0) return [];
+            return await this.metadataRepository.find({ where: { id: In(messageIds) } });
         } catch (error: any) {
-            logger.error(`❌ Error marking messages as read: ${error.message}`);
+            logger.error(`❌ Error getting message metadata: ${error.message}`);
             throw error;
         }
     }
 
     /**
-     * Delete a message (soft delete)
+     * Hide a message from every member, or show it again (moderation)
      * @param messageId - Message metadata ID
-     * @param userId - User requesting deletion
+     * @param hidden - Hide (true) or restore (false)
+     * @returns false if the message does not exist
      */
-    async deleteMessage(messageId: string, userId: string): Promise<void> {
+    async setMessageHidden(messageId: string, hidden: boolean): Promise<boolean> {
         try {
-            const metadata = await this.metadataRepository.findOne({ where: { id: messageId } });
+            const result = await this.metadataRepository.update(messageId, { isHidden: hidden });
+            return !!result.affected;
+        } catch (error: any) {
+            logger.error(`❌ Error updating message visibility: ${error.message}`);
+            throw error;
+        }
+    }
 
-            if (!metadata) {
-                throw new Error("Message not found");
-            }
+    /**
+     * Get the newest message in a conversation
+     * @param conversationId - Conversation ID
+     * @returns Metadata or null when the conversation is empty
+     */
+    async getLatestMetadata(conversationId: string): Promise<MessageMetadata | null> {
+        try {
+            return await this.metadataRepository.findOne({
+                where: { conversationId, isDeleted: false },
+                order: { createdAt: "DESC" },
+            });
+        } catch (error: any) {
+            logger.error(`❌ Error getting latest message: ${error.message}`);
+            throw error;
+        }
+    }
 
-            // Only sender can delete their message
-            if (metadata.senderId !== userId) {
-                throw new Error("Unauthorized to delete this message");
-            }
+    /**
+     * Replace a message's encrypted content, keeping the previous version in its edit history
+     * @param mongoMessageId - MongoDB message ID
+     * @param ciphertext - New encrypted content
+     * @param searchTokens - Blind-index tokens of the new content
+     * @returns Updated message or null if not found
+     */
+    async updateMessageContent(
+        mongoMessageId: string,
+        ciphertext: StoredCiphertext,
+        searchTokens: string[]
+    ): Promise<IMessage | null> {
+        try {
+            const message = await Message.findById(mongoMessageId);
+            if (!message) return null;
 
-            await this.metadataRepository.update(messageId, {
-                isDeleted: true,
+            const editedAt = new Date();
+            message.editHistory.push({
+                encryptedContent: message.encryptedContent,
+                encryptionKeyId: message.encryptionKeyId,
+                encryptionIv: message.encryptionIv,
+                encryptionAuthTag: message.encryptionAuthTag,
+                editedAt,
             });
+            Object.assign(message, ciphertext);
+            message.searchTokens = searchTokens;
+            message.isEdited = true;
+            message.editedAt = editedAt;
 
-            logger.info(`✅ Message ${messageId} deleted by ${userId}`);
+            return await message.save();
         } catch (error: any) {
-            logger.error(`❌ Error deleting message: ${error.message}`);
+            logger.error(`❌ Error updating message content: ${error.message}`);
             throw error;
         }
     }
 
     /**
-     * Get unread message count for a user
-     * @param userId - User ID
-     * @param conversationId - Optional conversation ID to filter by
-     * @returns Unread count
+     * Hide a message from one user's history ("delete for me")
+     * @param metadata - Message metadata
+     * @param userId - User hiding the message
      */
-    async getUnreadCount(userId: string, conversationId?: string): Promise<number> {
+    async hideMessageForUser(metadata: MessageMetadata, userId: string): Promise<void> {
         try {
-            const where: any = {
-                receiverId: userId,
-                isRead: false,
-                isDeleted: false,
-            };
-
-            if (conversationId) {
-                where.conversationId = conversationId;
-            }
-
-            return await this.metadataRepository.count({ where });
+            await this.hiddenRepository
+                .createQueryBuilder()
+                .insert()
+                .values({ messageId: metadata.id, conversationId: metadata.conversationId, userId })
+                .orIgnore()
+                .execute();
         } catch (error: any) {
-            logger.error(`❌ Error getting unread count: ${error.message}`);
-            return 0;
+            logger.error(`❌ Error hiding message: ${error.message}`);
+            throw error;
         }
     }
 
     /**
-     * Get unread messages for a user in a conversation
-     * @param userId - User ID
-     * @param conversationId - Conversation ID
-     * @returns Array of unread message IDs
+     * Retract a message for everyone: mark the metadata deleted and purge the encrypted
+     * content, search tokens, edit history and media references from MongoDB
+     * @param metadata - Message metadata
+     * @returns Media URLs the message referenced, for storage cleanup
      */
-    async getUnreadMessages(userId: string, conversationId: string): Promise<string[]> {
+    async retractMessage(metadata: MessageMetadata): Promise<string[]> {
         try {
-            const unreadMetadata = await this.metadataRepository.find({
-                where: {
-                    receiverId: userId,
-                    conversationId,
-                    isRead: false,
-                    isDeleted: false,
+            await this.metadataRepository.update(metadata.id, {
+                isDeleted: true,
+                deletedAt: new Date(),
+            });
+
+            const message = await Message.findByIdAndUpdate(metadata.mongoMessageId, {
+                $unset: {
+                    encryptedContent: 1,
+                    encryptionKeyId: 1,
+                    encryptionIv: 1,
+                    encryptionAuthTag: 1,
+                    envelopes: 1,
+                    searchTokens: 1,
+                    mediaUrl: 1,
+                    mediaType: 1,
+                    mediaSize: 1,
+                    fileName: 1,
+                    thumbnailUrl: 1,
                 },
-                select: ["id"],
+                $set: { editHistory: [] },
             });
 
-            return unreadMetadata.map((m) => m.id);
+            return [message?.mediaUrl, message?.thumbnailUrl].filter((url): url is string => !!url);
         } catch (error: any) {
-            logger.error(`❌ Error getting unread messages: ${error.message}`);
-            return [];
+            logger.error(`❌ Error retracting message: ${error.message}`);
+            throw error;
         }
     }
 }
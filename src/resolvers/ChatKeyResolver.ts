@@ -0,0 +1,76 @@
+import { Resolver, Query, Mutation, Arg, Int, Ctx, Authorized } from "type-graphql";
+import { ChatKeyService } from "../service/chatKey.service";
+import { KeyBundle, PreKeyInput, PublishDeviceKeysInput } from "./dto/chatKeyDto";
+import { logger } from "../utils/logger";
+import { GraphQLContext } from "../middleware/authContext";
+
+@Resolver()
+export class ChatKeyResolver {
+    private chatKeyService = new ChatKeyService();
+
+    @Authorized()
+    @Mutation(() => Int, { description: "Publish a device's E2EE public keys; returns its remaining one-time pre-keys" })
+    async publishDeviceKeys(
+        @Arg("input") input: PublishDeviceKeysInput,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<number> {
+        try {
+            return await this.chatKeyService.publishDeviceKeys(ctx.currentUser!.id, input);
+        } catch (error: any) {
+            logger.error(`Error publishing device keys: ${error.message}`);
+            throw new Error(error.message);
+        }
+    }
+
+    @Authorized()
+    @Mutation(() => Int, { description: "Top up one-time pre-keys; returns the device's remaining count" })
+    async uploadPreKeys(
+        @Arg("deviceId") deviceId: string,
+        @Arg("preKeys", () => [PreKeyInput]) preKeys: PreKeyInput[],
+        @Ctx() ctx: GraphQLContext
+    ): Promise<number> {
+        try {
+            return await this.chatKeyService.uploadPreKeys(ctx.currentUser!.id, deviceId, preKeys);
+        } catch (error: any) {
+            logger.error(`Error uploading pre-keys: ${error.message}`);
+            throw new Error(error.message);
+        }
+    }
+
+    @Authorized()
+    @Query(() => Int)
+    async getPreKeyCount(
+        @Arg("deviceId") deviceId: string,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<number> {
+        return this.chatKeyService.getPreKeyCount(ctx.currentUser!.id, deviceId);
+    }
+
+    @Authorized()
+    @Mutation(() => Boolean)
+    async removeDeviceKeys(
+        @Arg("deviceId") deviceId: string,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<boolean> {
+        try {
+            return await this.chatKeyService.removeDeviceKeys(ctx.currentUser!.id, deviceId);
+        } catch (error: any) {
+            logger.error(`Error removing device keys: ${error.message}`);
+            return false;
+        }
+    }
+
+    @Authorized()
+    @Mutation(() => [KeyBundle], { description: "Fetch one key bundle per device of each user, consuming a one-time pre-key each" })
+    async claimKeyBundles(
+        @Arg("userIds", () => [String]) userIds: string[],
+        @Ctx() ctx: GraphQLContext
+    ): Promise<KeyBundle[]> {
+        try {
+            return await this.chatKeyService.claimKeyBundles(ctx.currentUser!.id, userIds);
+        } catch (error: any) {
+            logger.error(`Error claiming key bundles: ${error.message}`);
+            throw new Error(error.message);
+        }
+    }
+}
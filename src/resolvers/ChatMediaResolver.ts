@@ -1,4 +1,4 @@
-import { Resolver, Mutation, Arg } from "type-graphql";
+import { Resolver, Mutation, Arg, Ctx, Authorized } from "type-graphql";
 import { GraphQLUpload, FileUpload } from "./types/UploadScalar";
 import {
     compressImage,
@@ -13,10 +13,14 @@ import {
     uploadFile,
 } from "../utils/chatMediaStorage";
 import { ChatMediaUploadResult } from "./dto/chatDto";
+import { ImageModerationService } from "../service/imageModeration.service";
 import { logger } from "../utils/logger";
+import { GraphQLContext } from "../middleware/authContext";
+import { OwnsResource } from "../middleware/resourceGuard";
 
 @Resolver()
 export class ChatMediaResolver {
+    private imageModerationService = new ImageModerationService();
 
     private async streamToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
         const chunks: Buffer[] = [];
@@ -27,18 +31,29 @@ export class ChatMediaResolver {
         });
     }
 
+    @Authorized()
+    @OwnsResource("conversation", "conversationId")
     @Mutation(() => ChatMediaUploadResult)
     async uploadChatImage(
         @Arg("file", () => GraphQLUpload) { createReadStream, filename, mimetype }: FileUpload,
-        @Arg("userId") userId: string,
-        @Arg("conversationId") conversationId: string
+        @Arg("conversationId") conversationId: string,
+        @Ctx() ctx: GraphQLContext
     ): Promise<ChatMediaUploadResult> {
         try {
+            const userId = ctx.currentUser!.id;
             const buffer = await this.streamToBuffer(createReadStream());
 
             // Validate image (5MB max)
             await validateImage(buffer, 5 * 1024 * 1024);
 
+            // Screen the original before anything is stored
+            const verdict = await this.imageModerationService.screenUpload(buffer, mimetype, {
+                userId,
+                source: "chat",
+                fileName: filename,
+                conversationId,
+            });
+
             // Compress image
             const compressed = await compressImage(buffer);
 
@@ -54,6 +69,7 @@ export class ChatMediaResolver {
                 userId,
                 conversationId
             );
+            await this.imageModerationService.attachStorageUrl(verdict, result.imageUrl);
 
             logger.info(`✅ Image uploaded successfully for user ${userId}`);
 
@@ -72,13 +88,16 @@ export class ChatMediaResolver {
         }
     }
 
+    @Authorized()
+    @OwnsResource("conversation", "conversationId")
     @Mutation(() => ChatMediaUploadResult)
     async uploadChatVideo(
         @Arg("file", () => GraphQLUpload) { createReadStream, filename, mimetype }: FileUpload,
-        @Arg("userId") userId: string,
-        @Arg("conversationId") conversationId: string
+        @Arg("conversationId") conversationId: string,
+        @Ctx() ctx: GraphQLContext
     ): Promise<ChatMediaUploadResult> {
         try {
+            const userId = ctx.currentUser!.id;
             const buffer = await this.streamToBuffer(createReadStream());
 
             // Validate video (50MB max)
@@ -107,13 +126,16 @@ export class ChatMediaResolver {
         }
     }
 
+    @Authorized()
+    @OwnsResource("conversation", "conversationId")
     @Mutation(() => ChatMediaUploadResult)
     async uploadChatFile(
         @Arg("file", () => GraphQLUpload) { createReadStream, filename, mimetype }: FileUpload,
-        @Arg("userId") userId: string,
-        @Arg("conversationId") conversationId: string
+        @Arg("conversationId") conversationId: string,
+        @Ctx() ctx: GraphQLContext
     ): Promise<ChatMediaUploadResult> {
         try {
+            const userId = ctx.currentUser!.id;
             const buffer = await this.streamToBuffer(createReadStream());
 
             // Validate file (10MB max)
@@ -1,35 +1,55 @@
-import { Resolver, Query, Mutation, Arg, Int } from "type-graphql";
-import { ChatService } from "../service/chat.service";
+import { Resolver, Query, Mutation, Arg, Int, Ctx, Authorized } from "type-graphql";
+import { ChatService, ReadCursorUpdate } from "../service/chat.service";
+import { PushService } from "../service/push.service";
+import { BlockService } from "../service/block.service";
 import {
     PaginatedConversations,
     PaginatedMessages,
     UnreadCountResponse,
     ChatConversation,
     SendMessageInput,
-    ChatMessage
+    ChatMessage,
+    ConversationMember,
+    ReadCursor,
+    MessageReactionUpdate,
+    MessageSearchResults,
+    SyncPage,
+    CreateGroupInput,
+    UpdateGroupInput
 } from "./dto/chatDto";
 import { logger } from "../utils/logger";
-import { emitToUser } from "../socket/server";
-import { MessageType } from "../entities/MessageMetadata";
+import { emitToConversation, emitToUser } from "../socket/server";
+import { MessageDeleteScope, MessageType } from "../entities/MessageMetadata";
+import { ParticipantRole } from "../entities/ConversationParticipant";
+import { GraphQLContext, resolveActingUserId } from "../middleware/authContext";
+import { OwnsResource } from "../middleware/resourceGuard";
 
 @Resolver()
 export class ChatResolver {
     private chatService = new ChatService();
+    private pushService = new PushService();
+    private blockService = new BlockService();
 
+    @Authorized()
     @Mutation(() => ChatMessage)
     async sendMessage(
         @Arg("input") input: SendMessageInput,
-        @Arg("userId") userId: string
+        @Ctx() ctx: GraphQLContext,
+        @Arg("userId", { nullable: true, description: "Admin only: act on behalf of this user" }) userId?: string
     ): Promise<ChatMessage> {
         try {
+            const senderId = resolveActingUserId(ctx, userId);
             const message = await this.chatService.sendMessage({
                 ...input,
-                senderId: userId,
+                senderId,
                 messageType: input.messageType as MessageType,
             });
 
-            // Real-time: Emit to receiver
-            emitToUser(input.receiverId, "new_message", message);
+            // Real-time: Emit to conversation members, push to those without an active socket.
+            // Group members who blocked the sender get neither.
+            const blockerIds = await this.blockService.getBlockersOf(senderId);
+            emitToConversation(message.conversationId, "new_message", message, blockerIds);
+            await this.pushService.sendChatMessagePush(message, blockerIds);
 
             return message as unknown as ChatMessage;
         } catch (error: any) {
@@ -38,37 +58,91 @@ export class ChatResolver {
         }
     }
 
+    @Authorized()
     @Query(() => PaginatedConversations)
     async getUserConversations(
-        @Arg("userId") userId: string,
+        @Ctx() ctx: GraphQLContext,
         @Arg("page", () => Int, { defaultValue: 1 }) page: number,
-        @Arg("limit", () => Int, { defaultValue: 20 }) limit: number
+        @Arg("limit", () => Int, { defaultValue: 20 }) limit: number,
+        @Arg("userId", { nullable: true, description: "Admin only: act on behalf of this user" }) userId?: string
     ): Promise<PaginatedConversations> {
-        return this.chatService.getUserConversations(userId, page, limit);
+        return this.chatService.getUserConversations(resolveActingUserId(ctx, userId), page, limit);
     }
 
+    @Authorized()
+    @OwnsResource("conversation", "conversationId")
     @Query(() => PaginatedMessages)
     async getConversationMessages(
         @Arg("conversationId") conversationId: string,
         @Arg("page", () => Int, { defaultValue: 1 }) page: number,
-        @Arg("limit", () => Int, { defaultValue: 50 }) limit: number
+        @Arg("limit", () => Int, { defaultValue: 50 }) limit: number,
+        @Ctx() ctx: GraphQLContext
     ): Promise<PaginatedMessages> {
-        return this.chatService.getConversationHistory(conversationId, page, limit);
+        return this.chatService.getConversationHistory(conversationId, ctx.currentUser!.id, page, limit);
     }
 
+    @Authorized()
+    @Query(() => MessageSearchResults)
+    async searchMessages(
+        @Arg("query") query: string,
+        @Ctx() ctx: GraphQLContext,
+        @Arg("conversationId", { nullable: true, description: "Search one conversation only" }) conversationId?: string,
+        @Arg("limit", () => Int, { defaultValue: 20 }) limit?: number,
+        @Arg("after", { nullable: true }) after?: string,
+        @Arg("historyPageSize", () => Int, { defaultValue: 50 }) historyPageSize?: number
+    ): Promise<MessageSearchResults> {
+        try {
+            return await this.chatService.searchMessages(
+                ctx.currentUser!.id,
+                query,
+                conversationId,
+                limit,
+                after,
+                historyPageSize
+            );
+        } catch (error: any) {
+            logger.error(`Error searching messages: ${error.message}`);
+            throw new Error(error.message);
+        }
+    }
+
+    @Authorized()
+    @Query(() => SyncPage, { description: "Chat events since a sequence number, across all conversations" })
+    async syncEvents(
+        @Arg("since", () => Int) since: number,
+        @Ctx() ctx: GraphQLContext,
+        @Arg("limit", () => Int, { defaultValue: 100 }) limit?: number
+    ): Promise<SyncPage> {
+        try {
+            return await this.chatService.sync(ctx.currentUser!.id, since, limit);
+        } catch (error: any) {
+            logger.error(`Error syncing events: ${error.message}`);
+            throw new Error(error.message);
+        }
+    }
+
+    @Authorized()
     @Query(() => UnreadCountResponse)
-    async getUnreadCount(@Arg("userId") userId: string): Promise<UnreadCountResponse> {
-        const count = await this.chatService.getUnreadCount(userId);
+    async getUnreadCount(
+        @Ctx() ctx: GraphQLContext,
+        @Arg("userId", { nullable: true, description: "Admin only: act on behalf of this user" }) userId?: string
+    ): Promise<UnreadCountResponse> {
+        const count = await this.chatService.getUnreadCount(resolveActingUserId(ctx, userId));
         return { unreadCount: count };
     }
 
+    @Authorized()
+    @OwnsResource("message", "messageIds")
     @Mutation(() => Boolean)
     async markMessagesAsRead(
         @Arg("messageIds", () => [String]) messageIds: string[],
-        @Arg("userId") userId: string
+        @Ctx() ctx: GraphQLContext,
+        @Arg("userId", { nullable: true, description: "Admin only: act on behalf of this user" }) userId?: string
     ): Promise<boolean> {
         try {
-            await this.chatService.markMessagesAsRead(messageIds, userId);
+            const actingUserId = resolveActingUserId(ctx, userId);
+            const updates = await this.chatService.markMessagesAsRead(messageIds, actingUserId);
+            updates.filter((u) => u.advanced).forEach((u) => this.emitReadReceipt(u, actingUserId));
             return true;
         } catch (error: any) {
             logger.error(`Error marking messages as read: ${error.message}`);
@@ -76,13 +150,95 @@ export class ChatResolver {
         }
     }
 
+    @Authorized()
+    @OwnsResource("conversation", "conversationId")
+    @Mutation(() => ReadCursor)
+    async markConversationRead(
+        @Arg("conversationId") conversationId: string,
+        @Ctx() ctx: GraphQLContext,
+        @Arg("messageId", { nullable: true, description: "Newest message read (default: latest)" }) messageId?: string
+    ): Promise<ReadCursor> {
+        try {
+            const actingUserId = ctx.currentUser!.id;
+            const update = await this.chatService.markConversationRead(actingUserId, conversationId, messageId);
+            if (update.advanced) this.emitReadReceipt(update, actingUserId);
+            return update;
+        } catch (error: any) {
+            logger.error(`Error marking conversation as read: ${error.message}`);
+            throw new Error(error.message);
+        }
+    }
+
+    @Authorized()
+    @OwnsResource("message", "messageId")
+    @Mutation(() => ChatMessage)
+    async editMessage(
+        @Arg("messageId") messageId: string,
+        @Arg("content") content: string,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<ChatMessage> {
+        try {
+            const message = await this.chatService.editMessage(ctx.currentUser!.id, messageId, content);
+            emitToConversation(message.conversationId, "message_edited", message);
+            return message as unknown as ChatMessage;
+        } catch (error: any) {
+            logger.error(`Error editing message: ${error.message}`);
+            throw new Error(error.message);
+        }
+    }
+
+    @Authorized()
+    @OwnsResource("message", "messageId")
+    @Mutation(() => MessageReactionUpdate)
+    async addReaction(
+        @Arg("messageId") messageId: string,
+        @Arg("emoji") emoji: string,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<MessageReactionUpdate> {
+        try {
+            const update = await this.chatService.addReaction(ctx.currentUser!.id, messageId, emoji);
+            emitToConversation(update.conversationId, "message_reaction", update);
+            return update;
+        } catch (error: any) {
+            logger.error(`Error adding reaction: ${error.message}`);
+            throw new Error(error.message);
+        }
+    }
+
+    @Authorized()
+    @OwnsResource("message", "messageId")
+    @Mutation(() => MessageReactionUpdate)
+    async removeReaction(
+        @Arg("messageId") messageId: string,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<MessageReactionUpdate> {
+        try {
+            const update = await this.chatService.removeReaction(ctx.currentUser!.id, messageId);
+            emitToConversation(update.conversationId, "message_reaction", update);
+            return update;
+        } catch (error: any) {
+            logger.error(`Error removing reaction: ${error.message}`);
+            throw new Error(error.message);
+        }
+    }
+
+    @Authorized()
+    @OwnsResource("message", "messageId")
     @Mutation(() => Boolean)
     async deleteMessage(
         @Arg("messageId") messageId: string,
-        @Arg("userId") userId: string
+        @Ctx() ctx: GraphQLContext,
+        @Arg("scope", () => MessageDeleteScope, { defaultValue: MessageDeleteScope.EVERYONE }) scope: MessageDeleteScope,
+        @Arg("userId", { nullable: true, description: "Admin only: act on behalf of this user" }) userId?: string
     ): Promise<boolean> {
         try {
-            await this.chatService.deleteMessage(messageId, userId);
+            const deletion = await this.chatService.deleteMessage(messageId, resolveActingUserId(ctx, userId), scope);
+            if (scope === MessageDeleteScope.EVERYONE) {
+                emitToConversation(deletion.conversationId, "message_deleted", deletion);
+            } else {
+                // Only the user's own devices need to drop the message
+                emitToUser(deletion.deletedBy, "message_deleted", deletion);
+            }
             return true;
         } catch (error: any) {
             logger.error(`Error deleting message: ${error.message}`);
@@ -90,13 +246,16 @@ export class ChatResolver {
         }
     }
 
+    @Authorized()
+    @OwnsResource("conversation", "conversationId")
     @Mutation(() => Boolean)
     async blockConversation(
         @Arg("conversationId") conversationId: string,
-        @Arg("userId") userId: string
+        @Ctx() ctx: GraphQLContext,
+        @Arg("userId", { nullable: true, description: "Admin only: act on behalf of this user" }) userId?: string
     ): Promise<boolean> {
         try {
-            await this.chatService.blockConversation(conversationId, userId);
+            await this.chatService.blockConversation(conversationId, resolveActingUserId(ctx, userId));
             return true;
         } catch (error: any) {
             logger.error(`Error blocking conversation: ${error.message}`);
@@ -104,16 +263,165 @@ export class ChatResolver {
         }
     }
 
+    @Authorized()
+    @OwnsResource("conversation", "conversationId")
     @Mutation(() => Boolean)
     async unblockConversation(
-        @Arg("conversationId") conversationId: string
+        @Arg("conversationId") conversationId: string,
+        @Ctx() ctx: GraphQLContext,
+        @Arg("userId", { nullable: true, description: "Admin only: act on behalf of this user" }) userId?: string
     ): Promise<boolean> {
         try {
-            await this.chatService.unblockConversation(conversationId);
+            await this.chatService.unblockConversation(conversationId, resolveActingUserId(ctx, userId));
             return true;
         } catch (error: any) {
             logger.error(`Error unblocking conversation: ${error.message}`);
             return false;
         }
     }
+
+    @Authorized()
+    @Mutation(() => ChatConversation, { description: "Opt a conversation into end-to-end encryption (cannot be undone)" })
+    async enableEndToEndEncryption(
+        @Ctx() ctx: GraphQLContext,
+        @Arg("conversationId", { nullable: true }) conversationId?: string,
+        @Arg("receiverId", { nullable: true, description: "Direct conversation with this user; created if needed" }) receiverId?: string
+    ): Promise<ChatConversation> {
+        try {
+            return await this.chatService.enableEndToEndEncryption(ctx.currentUser!.id, { conversationId, receiverId });
+        } catch (error: any) {
+            logger.error(`Error enabling end-to-end encryption: ${error.message}`);
+            throw new Error(error.message);
+        }
+    }
+
+    @Authorized()
+    @OwnsResource("conversation", "conversationId")
+    @Query(() => ChatConversation)
+    async getConversation(
+        @Arg("conversationId") conversationId: string,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<ChatConversation> {
+        return this.chatService.getConversation(conversationId, ctx.currentUser!.id);
+    }
+
+    @Authorized()
+    @OwnsResource("conversation", "conversationId")
+    @Query(() => [ConversationMember])
+    async getConversationMembers(
+        @Arg("conversationId") conversationId: string
+    ): Promise<ConversationMember[]> {
+        return this.chatService.getConversationMembers(conversationId);
+    }
+
+    @Authorized()
+    @Mutation(() => ChatConversation)
+    async createGroupConversation(
+        @Arg("input") input: CreateGroupInput,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<ChatConversation> {
+        try {
+            return await this.chatService.createGroupConversation(
+                ctx.currentUser!.id,
+                input.title,
+                input.memberIds,
+                input.avatarUrl
+            );
+        } catch (error: any) {
+            logger.error(`Error creating group conversation: ${error.message}`);
+            throw new Error(error.message);
+        }
+    }
+
+    @Authorized()
+    @OwnsResource("conversation", "conversationId")
+    @Mutation(() => ChatConversation)
+    async updateGroupConversation(
+        @Arg("conversationId") conversationId: string,
+        @Arg("input") input: UpdateGroupInput,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<ChatConversation> {
+        try {
+            return await this.chatService.updateGroupConversation(ctx.currentUser!.id, conversationId, input);
+        } catch (error: any) {
+            logger.error(`Error updating group conversation: ${error.message}`);
+            throw new Error(error.message);
+        }
+    }
+
+    @Authorized()
+    @OwnsResource("conversation", "conversationId")
+    @Mutation(() => [ConversationMember])
+    async addGroupMembers(
+        @Arg("conversationId") conversationId: string,
+        @Arg("memberIds", () => [String]) memberIds: string[],
+        @Ctx() ctx: GraphQLContext
+    ): Promise<ConversationMember[]> {
+        try {
+            return await this.chatService.addGroupMembers(ctx.currentUser!.id, conversationId, memberIds);
+        } catch (error: any) {
+            logger.error(`Error adding group members: ${error.message}`);
+            throw new Error(error.message);
+        }
+    }
+
+    @Authorized()
+    @OwnsResource("conversation", "conversationId")
+    @Mutation(() => Boolean)
+    async removeGroupMember(
+        @Arg("conversationId") conversationId: string,
+        @Arg("memberId") memberId: string,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<boolean> {
+        try {
+            await this.chatService.removeGroupMember(ctx.currentUser!.id, conversationId, memberId);
+            return true;
+        } catch (error: any) {
+            logger.error(`Error removing group member: ${error.message}`);
+            throw new Error(error.message);
+        }
+    }
+
+    @Authorized()
+    @OwnsResource("conversation", "conversationId")
+    @Mutation(() => Boolean)
+    async leaveGroup(
+        @Arg("conversationId") conversationId: string,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<boolean> {
+        try {
+            await this.chatService.leaveGroup(ctx.currentUser!.id, conversationId);
+            return true;
+        } catch (error: any) {
+            logger.error(`Error leaving group: ${error.message}`);
+            throw new Error(error.message);
+        }
+    }
+
+    @Authorized()
+    @OwnsResource("conversation", "conversationId")
+    @Mutation(() => Boolean)
+    async setGroupMemberRole(
+        @Arg("conversationId") conversationId: string,
+        @Arg("memberId") memberId: string,
+        @Arg("role", () => ParticipantRole) role: ParticipantRole,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<boolean> {
+        try {
+            await this.chatService.setGroupMemberRole(ctx.currentUser!.id, conversationId, memberId, role);
+            return true;
+        } catch (error: any) {
+            logger.error(`Error changing group member role: ${error.message}`);
+            throw new Error(error.message);
+        }
+    }
+
+    private emitReadReceipt(update: ReadCursorUpdate, readBy: string): void {
+        emitToConversation(update.conversationId, "messages_read", {
+            conversationId: update.conversationId,
+            lastReadMessageId: update.lastReadMessageId,
+            readAt: update.lastReadAt,
+            readBy,
+        });
+    }
 }
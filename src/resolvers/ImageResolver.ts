@@ -1,23 +1,29 @@
-import { Resolver, Mutation, Query, Arg } from "type-graphql";
+import { Resolver, Mutation, Query, Arg, Ctx, Authorized } from "type-graphql";
 import { GraphQLUpload, FileUpload } from "./types/UploadScalar";
 import { ImageGenerationService } from "../service/imageGeneration.service";
 import { ImageGenerationResponse } from "./dto/imageResolverDto";
 import ApiResponse from "../utils/response";
 import { logger } from "../utils/logger";
+import { getErrorCode } from "../utils/utils";
+import { GraphQLContext, resolveActingUserId } from "../middleware/authContext";
 
 @Resolver()
 export class ImageResolver {
     private imageService = new ImageGenerationService();
 
+    @Authorized()
     @Mutation(() => ImageGenerationResponse)
     async generateImage(
-        @Arg("userId") userId: string,
         @Arg("prompt") prompt: string,
-        @Arg("image", () => GraphQLUpload) { createReadStream, filename, mimetype }: FileUpload
+        @Arg("image", () => GraphQLUpload) { createReadStream, filename, mimetype }: FileUpload,
+        @Ctx() ctx: GraphQLContext,
+        @Arg("petIds", () => [String], { nullable: true }) petIds?: string[],
+        @Arg("userId", { nullable: true, description: "Admin only: act on behalf of this user" }) onBehalfOfUserId?: string
     ): Promise<ImageGenerationResponse> {
-        logger.info(`📸 GraphQL Mutation: generateImage for userId: ${userId}`);
-
         try {
+            const userId = resolveActingUserId(ctx, onBehalfOfUserId);
+            logger.info(`📸 GraphQL Mutation: generateImage for userId: ${userId}`);
+
             // 1. Convert stream to Buffer
             const chunks: Buffer[] = [];
             const stream = createReadStream();
@@ -34,7 +40,8 @@ export class ImageResolver {
                 prompt,
                 buffer,
                 filename,
-                mimetype
+                mimetype,
+                petIds
             );
 
             return ApiResponse.success({
@@ -45,10 +52,11 @@ export class ImageResolver {
 
         } catch (error: any) {
             logger.error(`❌ GraphQL generateImage error: ${error.message}`);
-            return ApiResponse.error(error.message || "Internal Server Error", 500);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
         }
     }
 
+    @Authorized()
     @Query(() => ImageGenerationResponse)
     async checkVideoStatus(@Arg("jobId") jobId: string): Promise<ImageGenerationResponse> {
         try {
@@ -0,0 +1,97 @@
+import { Resolver, Mutation, Query, Arg, Int, Ctx, Authorized } from "type-graphql";
+import { ModerationService } from "../service/moderation.service";
+import { ModerationCaseStatus } from "../model/moderationCaseSchema";
+import {
+    ReportContentInput,
+    ReportPayload,
+    ReportListPayload,
+    ModerationCasePayload,
+    ModerationQueuePayload
+} from "./dto/moderationDto";
+import ApiResponse from "../utils/response";
+import { logger } from "../utils/logger";
+import { getErrorCode } from "../utils/utils";
+import { AuthRole } from "../utils/constant";
+import { GraphQLContext } from "../middleware/authContext";
+
+@Resolver()
+export class ModerationResolver {
+    private moderationService = new ModerationService();
+
+    @Authorized()
+    @Mutation(() => ReportPayload)
+    async reportContent(
+        @Arg("input") input: ReportContentInput,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<ReportPayload> {
+        try {
+            const { report, alreadyReported } = await this.moderationService.reportContent(ctx.currentUser!.id, input);
+            return ApiResponse.success(report, alreadyReported ? "Already reported" : "Report submitted");
+        } catch (error: any) {
+            logger.error(`❌ reportContent error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
+        }
+    }
+
+    @Authorized(AuthRole.ADMIN)
+    @Query(() => ModerationQueuePayload)
+    async getModerationQueue(
+        @Arg("status", () => ModerationCaseStatus, { defaultValue: ModerationCaseStatus.OPEN }) status: ModerationCaseStatus,
+        @Arg("limit", () => Int, { defaultValue: 20 }) limit: number,
+        @Arg("after", { nullable: true }) after?: string
+    ): Promise<ModerationQueuePayload> {
+        try {
+            const cases = await this.moderationService.getModerationQueue(status, limit, after);
+            return ApiResponse.paginated(cases, "Moderation queue fetched successfully");
+        } catch (error: any) {
+            logger.error(`❌ getModerationQueue error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
+        }
+    }
+
+    @Authorized(AuthRole.ADMIN)
+    @Query(() => ReportListPayload)
+    async getCaseReports(
+        @Arg("caseId") caseId: string
+    ): Promise<ReportListPayload> {
+        try {
+            const reports = await this.moderationService.getCaseReports(caseId);
+            return ApiResponse.success(reports, "Reports fetched successfully");
+        } catch (error: any) {
+            logger.error(`❌ getCaseReports error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
+        }
+    }
+
+    @Authorized(AuthRole.ADMIN)
+    @Mutation(() => ModerationCasePayload, { description: "Confirm the violation; the content stays hidden" })
+    async resolveModerationCase(
+        @Arg("caseId") caseId: string,
+        @Ctx() ctx: GraphQLContext,
+        @Arg("note", { nullable: true }) note?: string
+    ): Promise<ModerationCasePayload> {
+        try {
+            const moderationCase = await this.moderationService.resolveCase(ctx.currentUser!.id, caseId, note);
+            return ApiResponse.success(moderationCase, "Case resolved");
+        } catch (error: any) {
+            logger.error(`❌ resolveModerationCase error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
+        }
+    }
+
+    @Authorized(AuthRole.ADMIN)
+    @Mutation(() => ModerationCasePayload, { description: "Reject the reports; hidden content is restored" })
+    async dismissModerationCase(
+        @Arg("caseId") caseId: string,
+        @Ctx() ctx: GraphQLContext,
+        @Arg("note", { nullable: true }) note?: string
+    ): Promise<ModerationCasePayload> {
+        try {
+            const moderationCase = await this.moderationService.dismissCase(ctx.currentUser!.id, caseId, note);
+            return ApiResponse.success(moderationCase, "Case dismissed");
+        } catch (error: any) {
+            logger.error(`❌ dismissModerationCase error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
+        }
+    }
+}
@@ -0,0 +1,114 @@
+import { Resolver, Mutation, Query, Arg, Int, Ctx, Authorized } from "type-graphql";
+import { NotificationService } from "../service/notification.service";
+import { PushService } from "../service/push.service";
+import { DevicePlatform } from "../model/deviceTokenSchema";
+import {
+    NotificationListPayload,
+    NotificationCountPayload,
+    DeviceTokenPayload
+} from "./dto/notificationResolverDto";
+import ApiResponse from "../utils/response";
+import { logger } from "../utils/logger";
+import { getErrorCode } from "../utils/utils";
+import { GraphQLContext, resolveActingUserId } from "../middleware/authContext";
+
+@Resolver()
+export class NotificationResolver {
+    private notificationService = new NotificationService();
+    private pushService = new PushService();
+
+    @Authorized()
+    @Query(() => NotificationListPayload)
+    async getNotifications(
+        @Ctx() ctx: GraphQLContext,
+        @Arg("limit", () => Int, { nullable: true }) limit?: number,
+        @Arg("offset", () => Int, { nullable: true }) offset?: number,
+        @Arg("after", { nullable: true }) after?: string,
+        @Arg("userId", { nullable: true, description: "Admin only: act on behalf of this user" }) userId?: string
+    ): Promise<NotificationListPayload> {
+        try {
+            const actingUserId = resolveActingUserId(ctx, userId);
+            const notifications = await this.notificationService.getNotifications(actingUserId, limit, offset, after);
+            return ApiResponse.paginated(notifications, "Notifications fetched successfully");
+        } catch (error: any) {
+            logger.error(`❌ getNotifications error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
+        }
+    }
+
+    @Authorized()
+    @Query(() => NotificationCountPayload)
+    async getUnreadNotificationCount(
+        @Ctx() ctx: GraphQLContext
+    ): Promise<NotificationCountPayload> {
+        try {
+            const count = await this.notificationService.getUnreadCount(ctx.currentUser!.id);
+            return ApiResponse.success(count, "Unread count fetched successfully");
+        } catch (error: any) {
+            logger.error(`❌ getUnreadNotificationCount error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
+        }
+    }
+
+    @Authorized()
+    @Mutation(() => NotificationCountPayload)
+    async markNotificationsRead(
+        @Arg("notificationIds", () => [String]) notificationIds: string[],
+        @Ctx() ctx: GraphQLContext
+    ): Promise<NotificationCountPayload> {
+        try {
+            const count = await this.notificationService.markNotificationsRead(ctx.currentUser!.id, notificationIds);
+            return ApiResponse.success(count, "Notifications marked as read");
+        } catch (error: any) {
+            logger.error(`❌ markNotificationsRead error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
+        }
+    }
+
+    @Authorized()
+    @Mutation(() => NotificationCountPayload)
+    async markAllNotificationsRead(
+        @Ctx() ctx: GraphQLContext
+    ): Promise<NotificationCountPayload> {
+        try {
+            const count = await this.notificationService.markAllNotificationsRead(ctx.currentUser!.id);
+            return ApiResponse.success(count, "All notifications marked as read");
+        } catch (error: any) {
+            logger.error(`❌ markAllNotificationsRead error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
+        }
+    }
+
+    @Authorized()
+    @Mutation(() => DeviceTokenPayload)
+    async registerDeviceToken(
+        @Arg("token") token: string,
+        @Arg("platform", () => DevicePlatform) platform: DevicePlatform,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<DeviceTokenPayload> {
+        try {
+            await this.pushService.registerDeviceToken(ctx.currentUser!.id, token, platform);
+            return ApiResponse.success(undefined, "Device registered for push notifications");
+        } catch (error: any) {
+            logger.error(`❌ registerDeviceToken error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
+        }
+    }
+
+    @Authorized()
+    @Mutation(() => DeviceTokenPayload)
+    async unregisterDeviceToken(
+        @Arg("token") token: string,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<DeviceTokenPayload> {
+        try {
+            const removed = await this.pushService.unregisterDeviceToken(ctx.currentUser!.id, token);
+            return removed
+                ? ApiResponse.success(undefined, "Device unregistered from push notifications")
+                : ApiResponse.error("Device token not found", 404);
+        } catch (error: any) {
+            logger.error(`❌ unregisterDeviceToken error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
+        }
+    }
+}
@@ -0,0 +1,108 @@
+import { Resolver, Mutation, Query, Arg, Ctx, Authorized } from "type-graphql";
+import { PetService } from "../service/pet.service";
+import {
+    CreatePetInput,
+    UpdatePetInput,
+    PetPayload,
+    PetListPayload
+} from "./dto/petResolverDto";
+import ApiResponse from "../utils/response";
+import { logger } from "../utils/logger";
+import { GraphQLContext } from "../middleware/authContext";
+
+@Resolver()
+export class PetResolver {
+    private petService = new PetService();
+
+    @Authorized()
+    @Mutation(() => PetPayload)
+    async createPet(
+        @Arg("input") input: CreatePetInput,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<PetPayload> {
+        try {
+            const currentUser = ctx.currentUser!;
+            const pet = await this.petService.createPet(currentUser.id, input);
+            return ApiResponse.success(pet, "Pet created successfully");
+        } catch (error: any) {
+            logger.error(`❌ createPet error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", 500);
+        }
+    }
+
+    @Authorized()
+    @Mutation(() => PetPayload)
+    async updatePet(
+        @Arg("petId") petId: string,
+        @Arg("input") input: UpdatePetInput,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<PetPayload> {
+        try {
+            const currentUser = ctx.currentUser!;
+            const pet = await this.petService.updatePet(currentUser.id, petId, input);
+            return ApiResponse.success(pet, "Pet updated successfully");
+        } catch (error: any) {
+            logger.error(`❌ updatePet error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", 500);
+        }
+    }
+
+    @Authorized()
+    @Mutation(() => PetPayload)
+    async deletePet(
+        @Arg("petId") petId: string,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<PetPayload> {
+        try {
+            const currentUser = ctx.currentUser!;
+            await this.petService.deletePet(currentUser.id, petId);
+            return ApiResponse.success(undefined, "Pet deleted successfully");
+        } catch (error: any) {
+            logger.error(`❌ deletePet error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", 500);
+        }
+    }
+
+    @Authorized()
+    @Query(() => PetPayload)
+    async getPet(
+        @Arg("petId") petId: string
+    ): Promise<PetPayload> {
+        try {
+            const pet = await this.petService.getPetById(petId);
+            return ApiResponse.success(pet, "Pet fetched successfully");
+        } catch (error: any) {
+            logger.error(`❌ getPet error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", 500);
+        }
+    }
+
+    @Authorized()
+    @Query(() => PetListPayload)
+    async getMyPets(
+        @Ctx() ctx: GraphQLContext
+    ): Promise<PetListPayload> {
+        try {
+            const currentUser = ctx.currentUser!;
+            const pets = await this.petService.getUserPets(currentUser.id);
+            return ApiResponse.success(pets, "Pets fetched successfully");
+        } catch (error: any) {
+            logger.error(`❌ getMyPets error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", 500);
+        }
+    }
+
+    @Authorized()
+    @Query(() => PetListPayload)
+    async getUserPets(
+        @Arg("userId") userId: string
+    ): Promise<PetListPayload> {
+        try {
+            const pets = await this.petService.getUserPets(userId);
+            return ApiResponse.success(pets, "Pets fetched successfully");
+        } catch (error: any) {
+            logger.error(`❌ getUserPets error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", 500);
+        }
+    }
+}
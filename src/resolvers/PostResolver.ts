@@ -1,100 +1,260 @@
-import { Resolver, Mutation, Query, Arg, Int } from "type-graphql";
+import { Resolver, Mutation, Query, Arg, Int, Ctx, Authorized } from "type-graphql";
 import { PostService } from "../service/post.service";
 import {
     PostResponse,
     CreatePostInput,
+    UpdatePostInput,
     FeedPayload,
     SinglePostPayload,
     LikePayload,
     CommentPayload,
+    CommentLikePayload,
     CommentsListPayload,
-    NotificationListPayload,
-    SharePayload
+    SharePayload,
+    FeedMode
 } from "./dto/postResolverDto";
 import ApiResponse from "../utils/response";
 import { logger } from "../utils/logger";
+import { getErrorCode } from "../utils/utils";
+import { UserRole } from "../utils/constant";
+import { GraphQLContext, resolveActingUserId } from "../middleware/authContext";
+import { OwnsResource } from "../middleware/resourceGuard";
 
 @Resolver()
 export class PostResolver {
     private postService = new PostService();
 
+    @Authorized()
     @Mutation(() => SinglePostPayload)
     async createPost(
-        @Arg("input") input: CreatePostInput
+        @Arg("input") input: CreatePostInput,
+        @Ctx() ctx: GraphQLContext
     ): Promise<SinglePostPayload> {
         try {
+            const actingUserId = resolveActingUserId(ctx, input.userId);
             const post = await this.postService.createPost(
-                input.userId,
+                actingUserId,
                 input.contentUrl,
                 input.type,
-                input.caption
+                input.caption,
+                input.petIds
             );
             return ApiResponse.success(post, "Post created successfully");
         } catch (error: any) {
             logger.error(`❌ createPost error: ${error.message}`);
-            return ApiResponse.error(error.message || "Internal Server Error", 500);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
         }
     }
 
+    @Authorized()
+    @OwnsResource("post", "postId")
+    @Mutation(() => SinglePostPayload)
+    async updatePost(
+        @Arg("postId") postId: string,
+        @Arg("input") input: UpdatePostInput,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<SinglePostPayload> {
+        try {
+            const post = await this.postService.updatePost(
+                ctx.currentUser!.id,
+                postId,
+                input,
+                ctx.currentUser!.role === UserRole.ADMIN
+            );
+            return ApiResponse.success(post, "Post updated successfully");
+        } catch (error: any) {
+            logger.error(`❌ updatePost error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
+        }
+    }
+
+    @Authorized()
+    @OwnsResource("post", "postId")
+    @Mutation(() => SinglePostPayload)
+    async deletePost(
+        @Arg("postId") postId: string,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<SinglePostPayload> {
+        try {
+            await this.postService.deletePost(ctx.currentUser!.id, postId, ctx.currentUser!.role === UserRole.ADMIN);
+            return ApiResponse.success(undefined, "Post deleted successfully");
+        } catch (error: any) {
+            logger.error(`❌ deletePost error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
+        }
+    }
+
+    @Authorized()
     @Query(() => FeedPayload)
     async getFeed(
-        @Arg("userId") userId: string,
+        @Ctx() ctx: GraphQLContext,
         @Arg("limit", () => Int, { nullable: true }) limit?: number,
-        @Arg("offset", () => Int, { nullable: true }) offset?: number
+        @Arg("offset", () => Int, { nullable: true }) offset?: number,
+        @Arg("petId", { nullable: true }) petId?: string,
+        @Arg("after", { nullable: true }) after?: string,
+        @Arg("mode", () => FeedMode, { nullable: true, defaultValue: FeedMode.FOLLOWING }) mode?: FeedMode,
+        @Arg("userId", { nullable: true, description: "Admin only: act on behalf of this user" }) userId?: string
     ): Promise<FeedPayload> {
         try {
-            const posts = await this.postService.getFeed(userId, limit, offset);
-            return ApiResponse.success(posts, "Feed fetched successfully");
+            const actingUserId = resolveActingUserId(ctx, userId);
+            const feed = mode === FeedMode.FOR_YOU
+                ? await this.postService.getForYouFeed(actingUserId, limit, offset, petId, after)
+                : await this.postService.getFeed(actingUserId, limit, offset, petId, after);
+            return ApiResponse.paginated(feed, "Feed fetched successfully");
         } catch (error: any) {
             logger.error(`❌ getFeed error: ${error.message}`);
-            return ApiResponse.error(error.message || "Internal Server Error", 500);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
         }
     }
 
+    @Authorized()
+    @Query(() => FeedPayload)
+    async getPetPosts(
+        @Ctx() ctx: GraphQLContext,
+        @Arg("petId") petId: string,
+        @Arg("limit", () => Int, { nullable: true }) limit?: number,
+        @Arg("offset", () => Int, { nullable: true }) offset?: number,
+        @Arg("after", { nullable: true }) after?: string,
+        @Arg("userId", { nullable: true, description: "Admin only: act on behalf of this user" }) userId?: string
+    ): Promise<FeedPayload> {
+        try {
+            const actingUserId = resolveActingUserId(ctx, userId);
+            const posts = await this.postService.getPetPosts(actingUserId, petId, limit, offset, after);
+            return ApiResponse.paginated(posts, "Pet posts fetched successfully");
+        } catch (error: any) {
+            logger.error(`❌ getPetPosts error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
+        }
+    }
+
+    @Authorized()
     @Mutation(() => LikePayload)
     async toggleLike(
-        @Arg("userId") userId: string,
-        @Arg("postId") postId: string
+        @Ctx() ctx: GraphQLContext,
+        @Arg("postId") postId: string,
+        @Arg("userId", { nullable: true, description: "Admin only: act on behalf of this user" }) userId?: string
     ): Promise<LikePayload> {
         try {
-            const result = await this.postService.toggleLike(userId, postId);
+            const actingUserId = resolveActingUserId(ctx, userId);
+            const result = await this.postService.toggleLike(actingUserId, postId);
             return ApiResponse.success(result, result.isLiked ? "Post liked" : "Post unliked");
         } catch (error: any) {
             logger.error(`❌ toggleLike error: ${error.message}`);
-            return ApiResponse.error(error.message || "Internal Server Error", 500);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
         }
     }
 
+    @Authorized()
     @Mutation(() => CommentPayload)
     async addComment(
-        @Arg("userId") userId: string,
+        @Ctx() ctx: GraphQLContext,
         @Arg("postId") postId: string,
-        @Arg("text") text: string
+        @Arg("text") text: string,
+        @Arg("parentCommentId", { nullable: true, description: "Reply to this comment" }) parentCommentId?: string,
+        @Arg("userId", { nullable: true, description: "Admin only: act on behalf of this user" }) userId?: string
     ): Promise<CommentPayload> {
         try {
-            const comment = await this.postService.addComment(userId, postId, text);
+            const actingUserId = resolveActingUserId(ctx, userId);
+            const comment = await this.postService.addComment(actingUserId, postId, text, parentCommentId);
             return ApiResponse.success(comment, "Comment added successfully");
         } catch (error: any) {
             logger.error(`❌ addComment error: ${error.message}`);
-            return ApiResponse.error(error.message || "Internal Server Error", 500);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
         }
     }
 
+    @Authorized()
+    @Mutation(() => CommentPayload)
+    async updateComment(
+        @Arg("commentId") commentId: string,
+        @Arg("text") text: string,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<CommentPayload> {
+        try {
+            const comment = await this.postService.updateComment(ctx.currentUser!.id, commentId, text);
+            return ApiResponse.success(comment, "Comment updated successfully");
+        } catch (error: any) {
+            logger.error(`❌ updateComment error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
+        }
+    }
+
+    @Authorized()
+    @Mutation(() => SharePayload)
+    async deleteComment(
+        @Arg("commentId") commentId: string,
+        @Ctx() ctx: GraphQLContext
+    ): Promise<SharePayload> {
+        try {
+            const stats = await this.postService.deleteComment(ctx.currentUser!.id, commentId);
+            return ApiResponse.success(stats, "Comment deleted successfully");
+        } catch (error: any) {
+            logger.error(`❌ deleteComment error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
+        }
+    }
+
+    @Authorized()
+    @Mutation(() => CommentLikePayload)
+    async toggleCommentLike(
+        @Ctx() ctx: GraphQLContext,
+        @Arg("commentId") commentId: string,
+        @Arg("userId", { nullable: true, description: "Admin only: act on behalf of this user" }) userId?: string
+    ): Promise<CommentLikePayload> {
+        try {
+            const actingUserId = resolveActingUserId(ctx, userId);
+            const result = await this.postService.toggleCommentLike(actingUserId, commentId);
+            return ApiResponse.success(result, result.isLiked ? "Comment liked" : "Comment unliked");
+        } catch (error: any) {
+            logger.error(`❌ toggleCommentLike error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
+        }
+    }
+
+    @Authorized()
     @Query(() => CommentsListPayload)
     async getComments(
+        @Ctx() ctx: GraphQLContext,
         @Arg("postId") postId: string,
         @Arg("limit", () => Int, { nullable: true }) limit?: number,
-        @Arg("offset", () => Int, { nullable: true }) offset?: number
+        @Arg("offset", () => Int, { nullable: true }) offset?: number,
+        @Arg("after", { nullable: true }) after?: string,
+        @Arg("replyLimit", () => Int, { nullable: true, description: "Replies to include per comment (default 3)" }) replyLimit?: number
     ): Promise<CommentsListPayload> {
         try {
-            const comments = await this.postService.getComments(postId, limit, offset);
-            return ApiResponse.success(comments, "Comments fetched successfully");
+            const comments = await this.postService.getComments(
+                ctx.currentUser!.id,
+                postId,
+                limit,
+                offset,
+                after,
+                replyLimit
+            );
+            return ApiResponse.paginated(comments, "Comments fetched successfully");
         } catch (error: any) {
             logger.error(`❌ getComments error: ${error.message}`);
-            return ApiResponse.error(error.message || "Internal Server Error", 500);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
         }
     }
 
+    @Authorized()
+    @Query(() => CommentsListPayload)
+    async getCommentReplies(
+        @Ctx() ctx: GraphQLContext,
+        @Arg("commentId") commentId: string,
+        @Arg("limit", () => Int, { nullable: true }) limit?: number,
+        @Arg("after", { nullable: true }) after?: string
+    ): Promise<CommentsListPayload> {
+        try {
+            const replies = await this.postService.getCommentReplies(ctx.currentUser!.id, commentId, limit, after);
+            return ApiResponse.paginated(replies, "Replies fetched successfully");
+        } catch (error: any) {
+            logger.error(`❌ getCommentReplies error: ${error.message}`);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
+        }
+    }
+
+    @Authorized()
     @Mutation(() => SharePayload)
     async trackShare(
         @Arg("postId") postId: string
@@ -104,22 +264,7 @@ export class PostResolver {
             return ApiResponse.success(stats, "Share tracked successfully");
         } catch (error: any) {
             logger.error(`❌ trackShare error: ${error.message}`);
-            return ApiResponse.error(error.message || "Internal Server Error", 500);
-        }
-    }
-
-    @Query(() => NotificationListPayload)
-    async getNotifications(
-        @Arg("userId") userId: string,
-        @Arg("limit", () => Int, { nullable: true }) limit?: number,
-        @Arg("offset", () => Int, { nullable: true }) offset?: number
-    ): Promise<NotificationListPayload> {
-        try {
-            const notifications = await this.postService.getNotifications(userId, limit, offset);
-            return ApiResponse.success(notifications, "Notifications fetched successfully");
-        } catch (error: any) {
-            logger.error(`❌ getNotifications error: ${error.message}`);
-            return ApiResponse.error(error.message || "Internal Server Error", 500);
+            return ApiResponse.error(error.message || "Internal Server Error", getErrorCode(error));
         }
     }
 }
@@ -1,5 +1,5 @@
 // src/resolvers/UserResolver.ts
-import { Resolver, Query, Mutation, Args, Ctx } from "type-graphql";
+import { Resolver, Query, Mutation, Args, Ctx, Authorized } from "type-graphql";
 import { UserService } from "../service/user.service";
 import {
   SignupArgs,
@@ -21,25 +21,30 @@ import {
   UpdateProfileInput,
   loginOrSignupWithGoogleResponse,
   FollowUserArgs,
+  BlockUserArgs,
+  BlockedUsersResponse,
 } from "./dto/userResolverDto";
 import { FollowService } from "../service/follow.service";
+import { BlockService } from "../service/block.service";
 import { UserOTP } from "../model/userOtpSchema";
 import { VerifyOtpArgs, VerifyOtpResponse } from "./dto/otpResolverDto";
 import { getDBRepository } from "../db/repository";
 import { User } from "../entities/User";
 import { logger } from "../utils/logger";
 import ApiResponse from "../utils/response";
-import { ErrorResponse, HttpStatusCodes, responseMessage } from "../utils/constant";
+import { AuthRole, ErrorResponse, HttpStatusCodes, responseMessage } from "../utils/constant";
 import { STATUS_CODES } from "http";
 import { CustomGraphQLError } from "../utils/utils";
-import { UserContext } from "../middleware/authContext";
+import { GraphQLContext, UserContext } from "../middleware/authContext";
 
 @Resolver()
 export class UserResolver {
   private userService = new UserService();
   private followService = new FollowService();
+  private blockService = new BlockService();
   private userRepo = getDBRepository(User);
 
+  @Authorized(AuthRole.ADMIN)
   @Query(() => [UserResponseDto])
   async getUsers(): Promise<UserResponseDto[]> {
     logger.info(`📊 Query: getUsers`);
@@ -51,12 +56,12 @@ export class UserResolver {
     }
   }
 
+  @Authorized()
   @Query(() => UserDetailsResponse) // single object
   async getUsersDetails(@Ctx() ctx: any): Promise<UserDetailsResponse> {
     logger.info(`📊 Query: getUsersDetails`);
     try {
-      const currentUser = ctx?.currentUser;
-      if (!currentUser) throw new Error("Unauthorized");
+      const currentUser = ctx.currentUser;
 
       const userDto: UserResponseDto = {
         id: currentUser.id!,
@@ -220,6 +225,7 @@ export class UserResolver {
     }
   }
 
+  @Authorized()
   @Query(() => UserDetailsResponse)
   async getProfile(
     @Ctx() ctx: { currentUser: UserContext | null }
@@ -240,6 +246,7 @@ export class UserResolver {
   }
 
 
+  @Authorized()
   @Query(() => UserDetailsResponse)
   async deleteProfile(
     @Ctx() ctx: { currentUser: UserContext | null }
@@ -279,16 +286,14 @@ export class UserResolver {
     }
   }
 
+  @Authorized(AuthRole.VERIFIED)
   @Mutation(() => UserDetailsResponse)
   async updateProfile(
     @Args() args: UpdateProfileInput,
     @Ctx() ctx: { currentUser: UserContext | null }
   ): Promise<UserDetailsResponse> {
     try {
-      const loginUser = ctx.currentUser;
-      if (!loginUser || !loginUser.isVerified) {
-        throw new CustomGraphQLError("Unauthorized", HttpStatusCodes.UNAUTHORIZED);
-      }
+      const loginUser = ctx.currentUser!;
 
       const updateUser: UserResponseDto = await this.userService.updateProfile(loginUser.id, args);
 
@@ -312,6 +317,7 @@ export class UserResolver {
     }
   }
 
+  @Authorized()
   @Mutation(() => BaseResponse)
   async followUser(
     @Args() { targetUserId }: FollowUserArgs,
@@ -319,7 +325,6 @@ export class UserResolver {
   ): Promise<BaseResponse> {
     try {
       const currentUser = ctx.currentUser;
-      if (!currentUser) throw new Error("Unauthorized");
 
       const result = await this.followService.followUser(currentUser.id, targetUserId);
       return ApiResponse.success(undefined, result.message);
@@ -329,6 +334,7 @@ export class UserResolver {
     }
   }
 
+  @Authorized()
   @Mutation(() => BaseResponse)
   async unfollowUser(
     @Args() { targetUserId }: FollowUserArgs,
@@ -336,7 +342,6 @@ export class UserResolver {
   ): Promise<BaseResponse> {
     try {
       const currentUser = ctx.currentUser;
-      if (!currentUser) throw new Error("Unauthorized");
 
       const result = await this.followService.unfollowUser(currentUser.id, targetUserId);
       return ApiResponse.success(undefined, result.message);
@@ -345,7 +350,46 @@ export class UserResolver {
       return ApiResponse.error(error.message || "Internal Server Error", 500);
     }
   }
-}
 
+  @Authorized()
+  @Mutation(() => BaseResponse)
+  async blockUser(
+    @Args() { targetUserId }: BlockUserArgs,
+    @Ctx() ctx: GraphQLContext
+  ): Promise<BaseResponse> {
+    try {
+      const result = await this.blockService.blockUser(ctx.currentUser!.id, targetUserId);
+      return ApiResponse.success(undefined, result.message);
+    } catch (error: any) {
+      logger.error(`❌ blockUser error: ${error.message}`);
+      return ApiResponse.error(error.message || "Internal Server Error", 500);
+    }
+  }
 
+  @Authorized()
+  @Mutation(() => BaseResponse)
+  async unblockUser(
+    @Args() { targetUserId }: BlockUserArgs,
+    @Ctx() ctx: GraphQLContext
+  ): Promise<BaseResponse> {
+    try {
+      const result = await this.blockService.unblockUser(ctx.currentUser!.id, targetUserId);
+      return ApiResponse.success(undefined, result.message);
+    } catch (error: any) {
+      logger.error(`❌ unblockUser error: ${error.message}`);
+      return ApiResponse.error(error.message || "Internal Server Error", 500);
+    }
+  }
 
+  @Authorized()
+  @Query(() => BlockedUsersResponse)
+  async getBlockedUsers(@Ctx() ctx: GraphQLContext): Promise<BlockedUsersResponse> {
+    try {
+      const blockedIds = await this.blockService.getBlockedByMe(ctx.currentUser!.id);
+      return ApiResponse.success(blockedIds, "Blocked users fetched successfully");
+    } catch (error: any) {
+      logger.error(`❌ getBlockedUsers error: ${error.message}`);
+      return ApiResponse.error(error.message || "Internal Server Error", 500);
+    }
+  }
+}
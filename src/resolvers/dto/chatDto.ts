@@ -1,15 +1,41 @@
-import { ObjectType, Field, ID, Int, InputType } from "type-graphql";
+import { ObjectType, Field, ID, Int, InputType, registerEnumType } from "type-graphql";
+import { ParticipantRole } from "../../entities/ConversationParticipant";
+import { MessageDeleteScope } from "../../entities/MessageMetadata";
+import { GraphQLJSONObject } from "graphql-scalars";
+import { PageInfo } from "./postResolverDto";
+
+registerEnumType(ParticipantRole, {
+    name: "ParticipantRole",
+    description: "Role of a member in a group conversation",
+});
+
+registerEnumType(MessageDeleteScope, {
+    name: "MessageDeleteScope",
+    description: "ME hides a message from your own history; EVERYONE retracts it for all members",
+});
 
 @ObjectType()
 export class ChatConversation {
     @Field(() => ID)
     id!: string;
 
-    @Field(() => ID)
-    participant1Id!: string;
+    @Field({ description: "\"direct\" or \"group\"" })
+    type!: string;
 
-    @Field(() => ID)
-    participant2Id!: string;
+    @Field({ nullable: true })
+    title?: string;
+
+    @Field({ nullable: true })
+    avatarUrl?: string;
+
+    @Field(() => ID, { nullable: true, description: "Direct conversations only" })
+    participant1Id?: string;
+
+    @Field(() => ID, { nullable: true, description: "Direct conversations only" })
+    participant2Id?: string;
+
+    @Field(() => [ID])
+    participantIds!: string[];
 
     @Field({ nullable: true })
     lastMessageAt?: Date;
@@ -17,6 +43,9 @@ export class ChatConversation {
     @Field({ nullable: true })
     lastMessagePreview?: string;
 
+    @Field({ description: "Text must be sent as ciphertext envelopes" })
+    isEndToEndEncrypted!: boolean;
+
     @Field()
     isBlocked!: boolean;
 
@@ -24,6 +53,33 @@ export class ChatConversation {
     unreadCount!: number;
 }
 
+@ObjectType()
+export class ConversationMember {
+    @Field(() => ID)
+    userId!: string;
+
+    @Field(() => ParticipantRole)
+    role!: ParticipantRole;
+
+    @Field()
+    joinedAt!: Date;
+}
+
+@ObjectType()
+export class ReadCursor {
+    @Field(() => ID)
+    conversationId!: string;
+
+    @Field(() => ID, { nullable: true })
+    lastReadMessageId?: string;
+
+    @Field({ nullable: true })
+    lastReadAt?: Date;
+
+    @Field({ description: "false when the cursor was already at or past the message" })
+    advanced!: boolean;
+}
+
 @ObjectType()
 export class PaginatedConversations {
     @Field(() => [ChatConversation])
@@ -33,6 +89,54 @@ export class PaginatedConversations {
     total!: number;
 }
 
+@ObjectType()
+export class CiphertextEnvelope {
+    @Field(() => ID)
+    recipientId!: string;
+
+    @Field()
+    recipientDeviceId!: string;
+
+    @Field(() => Int, { description: "Defined by the client protocol" })
+    type!: number;
+
+    @Field({ description: "base64, opaque to the server" })
+    ciphertext!: string;
+}
+
+@ObjectType()
+export class MessageReactionCount {
+    @Field()
+    emoji!: string;
+
+    @Field(() => Int)
+    count!: number;
+
+    @Field(() => [ID])
+    userIds!: string[];
+}
+
+@ObjectType()
+export class MessageReactionUpdate {
+    @Field(() => ID)
+    conversationId!: string;
+
+    @Field(() => ID)
+    messageId!: string;
+
+    @Field(() => ID)
+    userId!: string;
+
+    @Field({ nullable: true, description: "Absent when the reaction was removed" })
+    emoji?: string;
+
+    @Field({ description: "\"added\" or \"removed\"" })
+    action!: string;
+
+    @Field(() => [MessageReactionCount])
+    reactions!: MessageReactionCount[];
+}
+
 @ObjectType()
 export class ChatMessage {
     @Field(() => ID)
@@ -44,8 +148,8 @@ export class ChatMessage {
     @Field(() => ID)
     senderId!: string;
 
-    @Field(() => ID)
-    receiverId!: string;
+    @Field(() => ID, { nullable: true, description: "Direct conversations only" })
+    receiverId?: string;
 
     @Field()
     messageType!: string;
@@ -71,6 +175,24 @@ export class ChatMessage {
     @Field({ nullable: true })
     replyToMessageId?: string;
 
+    @Field()
+    isEndToEndEncrypted!: boolean;
+
+    @Field({ nullable: true })
+    senderDeviceId?: string;
+
+    @Field(() => [CiphertextEnvelope], { nullable: true, description: "End-to-end encrypted messages only; content is null" })
+    envelopes?: CiphertextEnvelope[];
+
+    @Field()
+    isEdited!: boolean;
+
+    @Field({ nullable: true })
+    editedAt?: Date;
+
+    @Field(() => [MessageReactionCount])
+    reactions!: MessageReactionCount[];
+
     @Field()
     isDelivered!: boolean;
 
@@ -96,6 +218,84 @@ export class PaginatedMessages {
     total!: number;
 }
 
+@ObjectType()
+export class SearchHighlight {
+    @Field(() => Int, { description: "Offset into the snippet" })
+    start!: number;
+
+    @Field(() => Int)
+    length!: number;
+}
+
+@ObjectType()
+export class MessageSearchResult {
+    @Field(() => ID)
+    messageId!: string;
+
+    @Field(() => ID)
+    conversationId!: string;
+
+    @Field(() => ID)
+    senderId!: string;
+
+    @Field()
+    createdAt!: Date;
+
+    @Field()
+    snippet!: string;
+
+    @Field(() => [SearchHighlight])
+    highlights!: SearchHighlight[];
+
+    @Field(() => Int, { description: "Page of getConversationMessages (at historyPageSize) that holds the message" })
+    historyPage!: number;
+
+    @Field(() => Int)
+    historyPageSize!: number;
+}
+
+@ObjectType()
+export class MessageSearchResults {
+    @Field(() => [MessageSearchResult])
+    results!: MessageSearchResult[];
+
+    @Field(() => PageInfo)
+    pageInfo!: PageInfo;
+}
+
+@ObjectType()
+export class SyncEvent {
+    @Field(() => Int)
+    seq!: number;
+
+    @Field({ description: "message, message_edited, message_deleted, message_reaction, messages_read or message_delivered" })
+    type!: string;
+
+    @Field()
+    conversationId!: string;
+
+    @Field(() => GraphQLJSONObject, { description: "Same payload as the matching socket event; { id, removed: true } for a message deleted or hidden since" })
+    data!: Record<string, any>;
+
+    @Field()
+    createdAt!: Date;
+}
+
+@ObjectType()
+export class SyncPage {
+    @Field(() => [SyncEvent])
+    events!: SyncEvent[];
+
+    @Field(() => Int)
+    latestSeq!: number;
+
+    @Field({ description: "More events are available: call again with since = last event's seq" })
+    hasMore!: boolean;
+
+    @Field({ description: "Events since the given seq have expired: refetch conversations and restart from latestSeq" })
+    resetRequired!: boolean;
+}
+
 @ObjectType()
 export class UnreadCountResponse {
     @Field(() => Int)
@@ -127,9 +327,27 @@ export class ChatMediaUploadResult {
 }
 
 @InputType()
-export class SendMessageInput {
+export class CiphertextEnvelopeInput {
     @Field(() => ID)
-    receiverId!: string;
+    recipientId!: string;
+
+    @Field()
+    recipientDeviceId!: string;
+
+    @Field(() => Int)
+    type!: number;
+
+    @Field()
+    ciphertext!: string;
+}
+
+@InputType()
+export class SendMessageInput {
+    @Field(() => ID, { nullable: true, description: "Existing direct or group conversation" })
+    conversationId?: string;
+
+    @Field(() => ID, { nullable: true, description: "Direct message to a user (creates the conversation if needed)" })
+    receiverId?: string;
 
     @Field()
     messageType!: string;
@@ -154,4 +372,34 @@ export class SendMessageInput {
 
     @Field({ nullable: true })
     replyToMessageId?: string;
+
+    @Field({ nullable: true, description: "Sending device; required with envelopes" })
+    senderDeviceId?: string;
+
+    @Field(() => [CiphertextEnvelopeInput], {
+        nullable: true,
+        description: "End-to-end encrypted payload, one per recipient device (instead of content)",
+    })
+    envelopes?: CiphertextEnvelopeInput[];
+}
+
+@InputType()
+export class CreateGroupInput {
+    @Field()
+    title!: string;
+
+    @Field(() => [ID])
+    memberIds!: string[];
+
+    @Field({ nullable: true })
+    avatarUrl?: string;
+}
+
+@InputType()
+export class UpdateGroupInput {
+    @Field({ nullable: true })
+    title?: string;
+
+    @Field({ nullable: true })
+    avatarUrl?: string;
 }
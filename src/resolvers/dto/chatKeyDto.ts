@@ -0,0 +1,70 @@
+import { ObjectType, Field, ID, Int, InputType } from "type-graphql";
+
+@InputType()
+export class PreKeyInput {
+    @Field(() => Int)
+    keyId!: number;
+
+    @Field({ description: "base64 public key" })
+    publicKey!: string;
+}
+
+@InputType()
+export class PublishDeviceKeysInput {
+    @Field({ description: "Client-chosen device ID, unique per user" })
+    deviceId!: string;
+
+    @Field(() => Int, { nullable: true })
+    registrationId?: number;
+
+    @Field({ description: "base64 public identity key" })
+    identityKey!: string;
+
+    @Field(() => Int)
+    signedPreKeyId!: number;
+
+    @Field({ description: "base64 public key" })
+    signedPreKey!: string;
+
+    @Field({ description: "base64 signature of signedPreKey by the identity key" })
+    signedPreKeySignature!: string;
+
+    @Field(() => [PreKeyInput], { nullable: true })
+    preKeys?: PreKeyInput[];
+}
+
+@ObjectType()
+export class PreKey {
+    @Field(() => Int)
+    keyId!: number;
+
+    @Field()
+    publicKey!: string;
+}
+
+@ObjectType()
+export class KeyBundle {
+    @Field(() => ID)
+    userId!: string;
+
+    @Field()
+    deviceId!: string;
+
+    @Field(() => Int, { nullable: true })
+    registrationId?: number;
+
+    @Field()
+    identityKey!: string;
+
+    @Field(() => Int)
+    signedPreKeyId!: number;
+
+    @Field()
+    signedPreKey!: string;
+
+    @Field()
+    signedPreKeySignature!: string;
+
+    @Field(() => PreKey, { nullable: true, description: "One-time pre-key; null when the device has run out" })
+    preKey?: PreKey;
+}
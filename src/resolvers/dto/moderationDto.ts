@@ -0,0 +1,186 @@
+import { ObjectType, Field, ID, Int, InputType, registerEnumType } from "type-graphql";
+import { PageInfo } from "./postResolverDto";
+import { ReportReason, ReportTargetType } from "../../model/reportSchema";
+import { ModerationCaseStatus } from "../../model/moderationCaseSchema";
+
+// --- Enums ---
+registerEnumType(ReportTargetType, {
+    name: "ReportTargetType",
+    description: "Kind of content a report is about",
+});
+
+registerEnumType(ReportReason, {
+    name: "ReportReason",
+    description: "Why content was reported",
+});
+
+registerEnumType(ModerationCaseStatus, {
+    name: "ModerationCaseStatus",
+    description: "State of a moderation case",
+});
+
+// --- Types ---
+@ObjectType()
+export class ReportObject {
+    @Field(() => ID)
+    _id!: string;
+
+    @Field()
+    reporterId!: string;
+
+    @Field(() => ReportTargetType)
+    targetType!: ReportTargetType;
+
+    @Field()
+    targetId!: string;
+
+    @Field()
+    caseId!: string;
+
+    @Field(() => ReportReason)
+    reason!: ReportReason;
+
+    @Field({ nullable: true })
+    details?: string;
+
+    @Field()
+    createdAt!: Date;
+}
+
+@ObjectType()
+export class ModerationCaseObject {
+    @Field(() => ID)
+    _id!: string;
+
+    @Field(() => ReportTargetType)
+    targetType!: ReportTargetType;
+
+    @Field()
+    targetId!: string;
+
+    @Field({ description: "Author of the content, or the reported user" })
+    targetOwnerId!: string;
+
+    @Field(() => ModerationCaseStatus)
+    status!: ModerationCaseStatus;
+
+    @Field(() => Int, { description: "Distinct reporters" })
+    reportCount!: number;
+
+    @Field(() => [ReportReason])
+    reasons!: ReportReason[];
+
+    @Field({ description: "Content is currently hidden from users" })
+    isHidden!: boolean;
+
+    @Field({ nullable: true })
+    autoHiddenAt?: Date;
+
+    @Field({ nullable: true })
+    resolvedBy?: string;
+
+    @Field({ nullable: true })
+    resolvedAt?: Date;
+
+    @Field({ nullable: true })
+    resolutionNote?: string;
+
+    @Field()
+    lastReportedAt!: Date;
+
+    @Field()
+    createdAt!: Date;
+}
+
+@ObjectType()
+export class ModerationCaseEdge {
+    @Field()
+    cursor!: string;
+
+    @Field(() => ModerationCaseObject)
+    node!: ModerationCaseObject;
+}
+
+// --- Inputs ---
+@InputType()
+export class ReportContentInput {
+    @Field(() => ReportTargetType)
+    targetType!: ReportTargetType;
+
+    @Field({ description: "Post, comment, message or user ID" })
+    targetId!: string;
+
+    @Field(() => ReportReason)
+    reason!: ReportReason;
+
+    @Field({ nullable: true, description: "Free-text context, up to 1000 characters" })
+    details?: string;
+}
+
+// --- Payload Wrappers (for standardized responses) ---
+
+@ObjectType()
+export class ReportPayload {
+    @Field()
+    status!: boolean;
+
+    @Field()
+    code!: number;
+
+    @Field()
+    message!: string;
+
+    @Field(() => ReportObject, { nullable: true })
+    data?: ReportObject;
+}
+
+@ObjectType()
+export class ReportListPayload {
+    @Field()
+    status!: boolean;
+
+    @Field()
+    code!: number;
+
+    @Field()
+    message!: string;
+
+    @Field(() => [ReportObject], { nullable: true })
+    data?: ReportObject[];
+}
+
+@ObjectType()
+export class ModerationCasePayload {
+    @Field()
+    status!: boolean;
+
+    @Field()
+    code!: number;
+
+    @Field()
+    message!: string;
+
+    @Field(() => ModerationCaseObject, { nullable: true })
+    data?: ModerationCaseObject;
+}
+
+@ObjectType()
+export class ModerationQueuePayload {
+    @Field()
+    status!: boolean;
+
+    @Field()
+    code!: number;
+
+    @Field()
+    message!: string;
+
+    @Field(() => [ModerationCaseObject], { nullable: true })
+    data?: ModerationCaseObject[];
+
+    @Field(() => [ModerationCaseEdge], { nullable: true })
+    edges?: ModerationCaseEdge[];
+
+    @Field(() => PageInfo, { nullable: true })
+    pageInfo?: PageInfo;
+}
@@ -0,0 +1,102 @@
+import { ObjectType, Field, ID, Int, registerEnumType } from "type-graphql";
+import { PageInfo } from "./postResolverDto";
+import { DevicePlatform } from "../../model/deviceTokenSchema";
+
+// --- Enums ---
+registerEnumType(DevicePlatform, {
+    name: "DevicePlatform",
+    description: "Platform of a device registered for push notifications",
+});
+
+// --- Types ---
+@ObjectType()
+export class NotificationObject {
+    @Field(() => ID)
+    _id!: string;
+
+    @Field()
+    recipientId!: string;
+
+    @Field({ description: "Most recent actor" })
+    actorId!: string;
+
+    @Field(() => [String], { description: "Latest few actors, most recent first" })
+    latestActorIds!: string[];
+
+    @Field(() => Int, { description: "Total actors in this group" })
+    count!: number;
+
+    @Field()
+    type!: string;
+
+    @Field()
+    entityId!: string;
+
+    @Field()
+    isRead!: boolean;
+
+    @Field()
+    lastActivityAt!: Date;
+
+    @Field()
+    createdAt!: Date;
+}
+
+@ObjectType()
+export class NotificationEdge {
+    @Field()
+    cursor!: string;
+
+    @Field(() => NotificationObject)
+    node!: NotificationObject;
+}
+
+// --- Payload Wrappers (for standardized responses) ---
+
+@ObjectType()
+export class NotificationListPayload {
+    @Field()
+    status!: boolean;
+
+    @Field()
+    code!: number;
+
+    @Field()
+    message!: string;
+
+    @Field(() => [NotificationObject], { nullable: true })
+    data?: NotificationObject[];
+
+    @Field(() => [NotificationEdge], { nullable: true })
+    edges?: NotificationEdge[];
+
+    @Field(() => PageInfo, { nullable: true })
+    pageInfo?: PageInfo;
+}
+
+@ObjectType()
+export class NotificationCountPayload {
+    @Field()
+    status!: boolean;
+
+    @Field()
+    code!: number;
+
+    @Field()
+    message!: string;
+
+    @Field(() => Int, { nullable: true, description: "Unread notifications remaining" })
+    data?: number;
+}
+
+@ObjectType()
+export class DeviceTokenPayload {
+    @Field()
+    status!: boolean;
+
+    @Field()
+    code!: number;
+
+    @Field()
+    message!: string;
+}
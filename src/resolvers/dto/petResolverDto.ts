@@ -0,0 +1,108 @@
+import { ObjectType, Field, ID, InputType } from "type-graphql";
+
+// --- Types ---
+@ObjectType()
+export class PetObject {
+    @Field(() => ID)
+    id!: string;
+
+    @Field()
+    userId!: string;
+
+    @Field()
+    name!: string;
+
+    @Field()
+    species!: string;
+
+    @Field({ nullable: true })
+    breed?: string;
+
+    @Field({ nullable: true })
+    birthday?: string; // YYYY-MM-DD
+
+    @Field({ nullable: true })
+    avatarUrl?: string;
+
+    @Field({ nullable: true })
+    bio?: string;
+
+    @Field()
+    createdAt!: Date;
+}
+
+// --- Inputs ---
+
+@InputType()
+export class CreatePetInput {
+    @Field()
+    name!: string;
+
+    @Field()
+    species!: string;
+
+    @Field({ nullable: true })
+    breed?: string;
+
+    @Field({ nullable: true })
+    birthday?: string;
+
+    @Field({ nullable: true })
+    avatarUrl?: string;
+
+    @Field({ nullable: true })
+    bio?: string;
+}
+
+@InputType()
+export class UpdatePetInput {
+    @Field({ nullable: true })
+    name?: string;
+
+    @Field({ nullable: true })
+    species?: string;
+
+    @Field({ nullable: true })
+    breed?: string;
+
+    @Field({ nullable: true })
+    birthday?: string;
+
+    @Field({ nullable: true })
+    avatarUrl?: string;
+
+    @Field({ nullable: true })
+    bio?: string;
+}
+
+// --- Payload Wrappers (for standardized responses) ---
+
+@ObjectType()
+export class PetPayload {
+    @Field()
+    status!: boolean;
+
+    @Field()
+    code!: number;
+
+    @Field()
+    message!: string;
+
+    @Field(() => PetObject, { nullable: true })
+    data?: PetObject;
+}
+
+@ObjectType()
+export class PetListPayload {
+    @Field()
+    status!: boolean;
+
+    @Field()
+    code!: number;
+
+    @Field()
+    message!: string;
+
+    @Field(() => [PetObject], { nullable: true })
+    data?: PetObject[];
+}
@@ -1,4 +1,15 @@
-import { ObjectType, Field, ID, InputType, Int } from "type-graphql";
+import { ObjectType, Field, ID, InputType, Int, registerEnumType } from "type-graphql";
+
+// --- Enums ---
+export enum FeedMode {
+    FOLLOWING = "FOLLOWING", // Chronological posts from followed users and self
+    FOR_YOU = "FOR_YOU", // Ranked posts including discovery content
+}
+
+registerEnumType(FeedMode, {
+    name: "FeedMode",
+    description: "Which feed getFeed returns",
+});
 
 // --- Types ---
 @ObjectType()
@@ -30,6 +41,9 @@ export class PostResponse {
     @Field()
     type!: string;
 
+    @Field(() => [String], { nullable: true })
+    petIds?: string[];
+
     @Field(() => PostStats)
     stats!: PostStats;
 
@@ -40,12 +54,30 @@ export class PostResponse {
     isLikedByMe?: boolean;
 }
 
+@ObjectType()
+export class PageInfo {
+    @Field({ nullable: true })
+    endCursor?: string;
+
+    @Field()
+    hasNextPage!: boolean;
+}
+
+@ObjectType()
+export class PostEdge {
+    @Field()
+    cursor!: string;
+
+    @Field(() => PostResponse)
+    node!: PostResponse;
+}
+
 // --- Inputs ---
 
 @InputType()
 export class CreatePostInput {
-    @Field()
-    userId!: string;
+    @Field({ nullable: true, description: "Admin only: create the post on behalf of this user" })
+    userId?: string;
 
     @Field()
     contentUrl!: string;
@@ -55,6 +87,18 @@ export class CreatePostInput {
 
     @Field({ nullable: true })
     caption?: string;
+
+    @Field(() => [String], { nullable: true })
+    petIds?: string[];
+}
+
+@InputType()
+export class UpdatePostInput {
+    @Field({ nullable: true })
+    caption?: string;
+
+    @Field(() => [String], { nullable: true })
+    petIds?: string[];
 }
 
 // --- Payload Wrappers (for standardized responses) ---
@@ -87,6 +131,12 @@ export class FeedPayload {
 
     @Field(() => [PostResponse], { nullable: true })
     data?: PostResponse[];
+
+    @Field(() => [PostEdge], { nullable: true })
+    edges?: PostEdge[];
+
+    @Field(() => PageInfo, { nullable: true })
+    pageInfo?: PageInfo;
 }
 
 @ObjectType()
@@ -127,27 +177,39 @@ export class CommentObject {
     @Field()
     text!: string;
 
+    @Field({ nullable: true })
+    parentCommentId?: string;
+
+    @Field(() => Int)
+    replyCount!: number;
+
+    @Field(() => Int)
+    likeCount!: number;
+
+    @Field({ nullable: true })
+    isLikedByMe?: boolean;
+
+    @Field(() => [CommentObject], { nullable: true, description: "First few replies (top-level comments only)" })
+    replies?: CommentObject[];
+
     @Field()
     createdAt!: Date;
+
+    @Field({ nullable: true })
+    updatedAt?: Date;
 }
 
 @ObjectType()
-export class CommentPayload {
-    @Field()
-    status!: boolean;
-
+export class CommentLikeData { // Payload data for comment like toggle
     @Field()
-    code!: number;
-
-    @Field()
-    message!: string;
+    isLiked!: boolean;
 
-    @Field(() => CommentObject, { nullable: true })
-    data?: CommentObject;
+    @Field(() => Int)
+    likeCount!: number;
 }
 
 @ObjectType()
-export class CommentsListPayload {
+export class CommentLikePayload {
     @Field()
     status!: boolean;
 
@@ -157,36 +219,36 @@ export class CommentsListPayload {
     @Field()
     message!: string;
 
-    @Field(() => [CommentObject], { nullable: true })
-    data?: CommentObject[];
+    @Field(() => CommentLikeData, { nullable: true })
+    data?: CommentLikeData;
 }
 
 @ObjectType()
-export class NotificationObject {
-    @Field(() => ID)
-    _id!: string;
-
+export class CommentEdge {
     @Field()
-    recipientId!: string;
+    cursor!: string;
 
-    @Field()
-    actorId!: string;
+    @Field(() => CommentObject)
+    node!: CommentObject;
+}
 
+@ObjectType()
+export class CommentPayload {
     @Field()
-    type!: string;
+    status!: boolean;
 
     @Field()
-    entityId!: string;
+    code!: number;
 
     @Field()
-    isRead!: boolean;
+    message!: string;
 
-    @Field()
-    createdAt!: Date;
+    @Field(() => CommentObject, { nullable: true })
+    data?: CommentObject;
 }
 
 @ObjectType()
-export class NotificationListPayload {
+export class CommentsListPayload {
     @Field()
     status!: boolean;
 
@@ -196,8 +258,14 @@ export class NotificationListPayload {
     @Field()
     message!: string;
 
-    @Field(() => [NotificationObject], { nullable: true })
-    data?: NotificationObject[];
+    @Field(() => [CommentObject], { nullable: true })
+    data?: CommentObject[];
+
+    @Field(() => [CommentEdge], { nullable: true })
+    edges?: CommentEdge[];
+
+    @Field(() => PageInfo, { nullable: true })
+    pageInfo?: PageInfo;
 }
 
 @ObjectType()
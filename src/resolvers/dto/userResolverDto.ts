@@ -221,4 +221,15 @@ export class UpdateProfileInput {
 export class FollowUserArgs {
   @Field()
   targetUserId!: string;
-}
\ No newline at end of file
+}
+@ArgsType()
+export class BlockUserArgs {
+  @Field()
+  targetUserId!: string;
+}
+
+@ObjectType()
+export class BlockedUsersResponse extends BaseResponse {
+  @Field(() => [String], { nullable: true })
+  data?: string[]; // IDs of users the caller has blocked, newest first
+}
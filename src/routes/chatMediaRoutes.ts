@@ -12,9 +12,17 @@ import {
     uploadVideo,
     uploadFile,
 } from "../utils/chatMediaStorage";
+import { authenticateRequest } from "../middleware/authContext";
+import { requireResourceAccess } from "../middleware/resourceGuard";
+import { ImageModerationService } from "../service/imageModeration.service";
 import { logger } from "../utils/logger";
+import { getErrorCode } from "../utils/utils";
 
 const router = Router();
+const imageModerationService = new ImageModerationService();
+
+// Uploads are stored under the authenticated user, in a conversation they belong to
+router.use(authenticateRequest);
 
 // Configure multer for memory storage
 const upload = multer({
@@ -28,21 +36,26 @@ const upload = multer({
  * POST /api/chat/upload/image
  * Upload an image for chat
  */
-router.post("/upload/image", upload.single("image"), async (req: Request, res: Response) => {
+router.post("/upload/image", upload.single("image"), requireResourceAccess("conversation", "conversationId"), async (req: Request, res: Response) => {
     try {
         if (!req.file) {
             return res.status(400).json({ error: "No image file provided" });
         }
 
-        const { userId, conversationId } = req.body;
-
-        if (!userId || !conversationId) {
-            return res.status(400).json({ error: "userId and conversationId are required" });
-        }
+        const { conversationId } = req.body;
+        const userId = res.locals.currentUser.id;
 
         // Validate image
         await validateImage(req.file.buffer, 5 * 1024 * 1024); // 5MB max for images
 
+        // Screen the original before anything is stored
+        const verdict = await imageModerationService.screenUpload(req.file.buffer, req.file.mimetype, {
+            userId,
+            source: "chat",
+            fileName: req.file.originalname,
+            conversationId,
+        });
+
         // Compress image
         const compressed = await compressImage(req.file.buffer);
 
@@ -58,6 +71,7 @@ router.post("/upload/image", upload.single("image"), async (req: Request, res: R
             userId,
             conversationId
         );
+        await imageModerationService.attachStorageUrl(verdict, result.imageUrl);
 
         logger.info(`✅ Image uploaded successfully for user ${userId}`);
 
@@ -73,7 +87,7 @@ router.post("/upload/image", upload.single("image"), async (req: Request, res: R
         });
     } catch (error: any) {
         logger.error(`❌ Image upload error: ${error.message}`);
-        res.status(500).json({ error: error.message || "Failed to upload image" });
+        res.status(getErrorCode(error)).json({ error: error.message || "Failed to upload image" });
     }
 });
 
@@ -81,17 +95,14 @@ router.post("/upload/image", upload.single("image"), async (req: Request, res: R
  * POST /api/chat/upload/video
  * Upload a video for chat
  */
-router.post("/upload/video", upload.single("video"), async (req: Request, res: Response) => {
+router.post("/upload/video", upload.single("video"), requireResourceAccess("conversation", "conversationId"), async (req: Request, res: Response) => {
     try {
         if (!req.file) {
             return res.status(400).json({ error: "No video file provided" });
         }
 
-        const { userId, conversationId } = req.body;
-
-        if (!userId || !conversationId) {
-            return res.status(400).json({ error: "userId and conversationId are required" });
-        }
+        const { conversationId } = req.body;
+        const userId = res.locals.currentUser.id;
 
         // Validate video
         validateVideo(req.file.mimetype, req.file.size, 50 * 1024 * 1024); // 50MB max
@@ -124,17 +135,14 @@ router.post("/upload/video", upload.single("video"), async (req: Request, res: R
  * POST /api/chat/upload/file
  * Upload a general file for chat
  */
-router.post("/upload/file", upload.single("file"), async (req: Request, res: Response) => {
+router.post("/upload/file", upload.single("file"), requireResourceAccess("conversation", "conversationId"), async (req: Request, res: Response) => {
     try {
         if (!req.file) {
             return res.status(400).json({ error: "No file provided" });
         }
 
-        const { userId, conversationId } = req.body;
-
-        if (!userId || !conversationId) {
-            return res.status(400).json({ error: "userId and conversationId are required" });
-        }
+        const { conversationId } = req.body;
+        const userId = res.locals.currentUser.id;
 
         // Validate file
         validateFile(req.file.mimetype, req.file.size, 10 * 1024 * 1024); // 10MB max
@@ -1,24 +1,29 @@
 import { Router, Request, Response } from "express";
 import { ChatService } from "../service/chat.service";
+import { authenticateRequest } from "../middleware/authContext";
+import { requireResourceAccess } from "../middleware/resourceGuard";
+import { emitToConversation, emitToUser } from "../socket/server";
+import { MessageDeleteScope } from "../entities/MessageMetadata";
+import { getErrorCode } from "../utils/utils";
+import { HttpStatusCodes } from "../utils/constant";
 import { logger } from "../utils/logger";
 
 const router = Router();
 const chatService = new ChatService();
 
+// Every route acts as the authenticated user (res.locals.currentUser)
+router.use(authenticateRequest);
+
 /**
  * GET /api/chat/conversations
  * Get user's conversations
  */
 router.get("/conversations", async (req: Request, res: Response) => {
     try {
-        const userId = req.query.userId as string;
+        const userId = res.locals.currentUser.id;
         const page = parseInt(req.query.page as string) || 1;
         const limit = parseInt(req.query.limit as string) || 20;
 
-        if (!userId) {
-            return res.status(400).json({ error: "userId is required" });
-        }
-
         const result = await chatService.getUserConversations(userId, page, limit);
 
         res.json({
@@ -35,13 +40,13 @@ router.get("/conversations", async (req: Request, res: Response) => {
  * GET /api/chat/conversations/:conversationId/messages
  * Get conversation messages
  */
-router.get("/conversations/:conversationId/messages", async (req: Request, res: Response) => {
+router.get("/conversations/:conversationId/messages", requireResourceAccess("conversation", "conversationId"), async (req: Request, res: Response) => {
     try {
         const { conversationId } = req.params;
         const page = parseInt(req.query.page as string) || 1;
         const limit = parseInt(req.query.limit as string) || 50;
 
-        const result = await chatService.getConversationHistory(conversationId, page, limit);
+        const result = await chatService.getConversationHistory(conversationId, res.locals.currentUser.id, page, limit);
 
         res.json({
             success: true,
@@ -57,19 +62,15 @@ router.get("/conversations/:conversationId/messages", async (req: Request, res:
  * POST /api/chat/messages/:messageId/read
  * Mark messages as read
  */
-router.post("/messages/read", async (req: Request, res: Response) => {
+router.post("/messages/read", requireResourceAccess("message", "messageIds"), async (req: Request, res: Response) => {
     try {
-        const { messageIds, userId } = req.body;
+        const { messageIds } = req.body;
 
         if (!messageIds || !Array.isArray(messageIds) || messageIds.length === 0) {
             return res.status(400).json({ error: "messageIds array is required" });
         }
 
-        if (!userId) {
-            return res.status(400).json({ error: "userId is required" });
-        }
-
-        await chatService.markMessagesAsRead(messageIds, userId);
+        await chatService.markMessagesAsRead(messageIds, res.locals.currentUser.id);
 
         res.json({
             success: true,
@@ -83,26 +84,33 @@ router.post("/messages/read", async (req: Request, res: Response) => {
 
 /**
  * DELETE /api/chat/messages/:messageId
- * Delete a message
+ * Delete a message for everyone (default) or only for the caller.
+ * Body or query: scope ("me" | "everyone")
  */
-router.delete("/messages/:messageId", async (req: Request, res: Response) => {
+router.delete("/messages/:messageId", requireResourceAccess("message", "messageId"), async (req: Request, res: Response) => {
     try {
         const { messageId } = req.params;
-        const userId = req.query.userId as string;
-
-        if (!userId) {
-            return res.status(400).json({ error: "userId is required" });
+        const scope = (req.body?.scope ?? req.query.scope ?? MessageDeleteScope.EVERYONE) as MessageDeleteScope;
+        if (!Object.values(MessageDeleteScope).includes(scope)) {
+            return res.status(HttpStatusCodes.BAD_REQUEST).json({ error: 'scope must be "me" or "everyone"' });
         }
 
-        await chatService.deleteMessage(messageId, userId);
+        const deletion = await chatService.deleteMessage(messageId, res.locals.currentUser.id, scope);
+        if (scope === MessageDeleteScope.EVERYONE) {
+            emitToConversation(deletion.conversationId, "message_deleted", deletion);
+        } else {
+            // Only the user's own devices need to drop the message
+            emitToUser(deletion.deletedBy, "message_deleted", deletion);
+        }
 
         res.json({
             success: true,
             message: "Message deleted",
+            data: deletion,
         });
     } catch (error: any) {
         logger.error(`❌ Delete message error: ${error.message}`);
-        res.status(500).json({ error: error.message || "Failed to delete message" });
+        res.status(getErrorCode(error)).json({ error: error.message || "Failed to delete message" });
     }
 });
 
@@ -112,13 +120,7 @@ router.delete("/messages/:messageId", async (req: Request, res: Response) => {
  */
 router.get("/unread-count", async (req: Request, res: Response) => {
     try {
-        const userId = req.query.userId as string;
-
-        if (!userId) {
-            return res.status(400).json({ error: "userId is required" });
-        }
-
-        const count = await chatService.getUnreadCount(userId);
+        const count = await chatService.getUnreadCount(res.locals.currentUser.id);
 
         res.json({
             success: true,
@@ -134,16 +136,11 @@ router.get("/unread-count", async (req: Request, res: Response) => {
  * POST /api/chat/conversations/:conversationId/block
  * Block a conversation
  */
-router.post("/conversations/:conversationId/block", async (req: Request, res: Response) => {
+router.post("/conversations/:conversationId/block", requireResourceAccess("conversation", "conversationId"), async (req: Request, res: Response) => {
     try {
         const { conversationId } = req.params;
-        const { userId } = req.body;
-
-        if (!userId) {
-            return res.status(400).json({ error: "userId is required" });
-        }
 
-        await chatService.blockConversation(conversationId, userId);
+        await chatService.blockConversation(conversationId, res.locals.currentUser.id);
 
         res.json({
             success: true,
@@ -159,11 +156,11 @@ router.post("/conversations/:conversationId/block", async (req: Request, res: Re
  * POST /api/chat/conversations/:conversationId/unblock
  * Unblock a conversation
  */
-router.post("/conversations/:conversationId/unblock", async (req: Request, res: Response) => {
+router.post("/conversations/:conversationId/unblock", requireResourceAccess("conversation", "conversationId"), async (req: Request, res: Response) => {
     try {
         const { conversationId } = req.params;
 
-        await chatService.unblockConversation(conversationId);
+        await chatService.unblockConversation(conversationId, res.locals.currentUser.id);
 
         res.json({
             success: true,
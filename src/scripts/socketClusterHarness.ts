@@ -0,0 +1,140 @@
+/**
+ * Local harness for running Socket.io on several instances.
+ *
+ * Starts two Socket.io servers in this process, each with its own Redis adapter
+ * connections, against the Redis configured by REDIS_HOST / REDIS_PORT, and checks:
+ *   1. io.to(userId) on one instance reaches the user's socket on the other
+ *   2. presence counts a user's sockets across both instances, and the user only
+ *      goes offline (with a single user_offline) when the last one disconnects
+ *
+ * Firebase auth and the database are skipped: clients pass their user ID in the
+ * handshake. Run with `npm run harness:socket-cluster`.
+ */
+import "dotenv/config";
+import { createServer, Server as HttpServer } from "http";
+import { AddressInfo } from "net";
+import { Server } from "socket.io";
+import { io as connect, Socket as ClientSocket } from "socket.io-client";
+import RedisClient from "../config/redis";
+import { attachRedisAdapter } from "../socket/redisAdapter";
+import { AuthenticatedSocket } from "../socket/middleware/authMiddleware";
+import { getUserStatus, registerStatusHandlers } from "../socket/handlers/statusHandler";
+
+interface Node {
+    name: string;
+    http: HttpServer;
+    io: Server;
+    url: string;
+    closeAdapter: () => Promise<void>;
+}
+
+const RUN_ID = Date.now().toString(36);
+const ALICE = `harness-alice-${RUN_ID}`;
+const BOB = `harness-bob-${RUN_ID}`;
+
+async function startNode(name: string): Promise<Node> {
+    const http = createServer();
+    const io = new Server(http);
+    const closeAdapter = attachRedisAdapter(io);
+
+    io.use((socket, next) => {
+        (socket as AuthenticatedSocket).userId = socket.handshake.auth.userId;
+        next();
+    });
+    io.on("connection", (socket) => {
+        const authSocket = socket as AuthenticatedSocket;
+        socket.join(authSocket.userId!);
+        registerStatusHandlers(io, authSocket);
+    });
+
+    await new Promise<void>((resolve) => http.listen(0, resolve));
+    const { port } = http.address() as AddressInfo;
+    return { name, http, io, url: `http://localhost:${port}`, closeAdapter };
+}
+
+async function connectAs(node: Node, userId: string): Promise<ClientSocket> {
+    const client = connect(node.url, { auth: { userId }, transports: ["websocket"], forceNew: true });
+    await new Promise<void>((resolve, reject) => {
+        client.once("connect", () => resolve());
+        client.once("connect_error", reject);
+    });
+    return client;
+}
+
+function waitFor<T>(client: ClientSocket, event: string, timeoutMs = 3000): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`Timed out waiting for ${event}`)), timeoutMs);
+        client.once(event, (data: T) => {
+            clearTimeout(timer);
+            resolve(data);
+        });
+    });
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function check(condition: boolean, description: string): void {
+    if (!condition) {
+        throw new Error(`FAILED: ${description}`);
+    }
+    console.log(`  ok - ${description}`);
+}
+
+async function run(): Promise<void> {
+    const nodeA = await startNode("A");
+    const nodeB = await startNode("B");
+    const clients: ClientSocket[] = [];
+
+    try {
+        const bob = await connectAs(nodeA, BOB);
+        const aliceOnB = await connectAs(nodeB, ALICE);
+        clients.push(bob, aliceOnB);
+        await sleep(300); // Let the adapters' subscriptions settle
+
+        console.log("Cross-instance rooms");
+        const received = waitFor<{ from: string }>(aliceOnB, "harness_ping");
+        nodeA.io.to(ALICE).emit("harness_ping", { from: nodeA.name });
+        check((await received).from === "A", "emit on A reaches a user connected to B");
+
+        const sockets = await nodeA.io.in(ALICE).fetchSockets();
+        check(sockets.length === 1, "A sees the user's socket on B via fetchSockets");
+
+        console.log("Presence across instances");
+        const aliceOnA = await connectAs(nodeA, ALICE);
+        clients.push(aliceOnA);
+        await sleep(300);
+        check((await getUserStatus(ALICE))?.connections === 2, "two sockets on two instances are counted");
+
+        let offlineEvents = 0;
+        bob.on("user_offline", ({ userId }: { userId: string }) => {
+            if (userId === ALICE) offlineEvents++;
+        });
+
+        aliceOnB.disconnect();
+        await sleep(500);
+        const afterFirst = await getUserStatus(ALICE);
+        check(afterFirst?.online === true && afterFirst.connections === 1, "still online after one socket disconnects");
+        check(offlineEvents === 0, "no user_offline while a socket remains");
+
+        aliceOnA.disconnect();
+        await sleep(500);
+        check((await getUserStatus(ALICE))?.online === false, "offline after the last socket disconnects");
+        check(offlineEvents === 1, "exactly one user_offline reaches a user on the other instance");
+
+        console.log("All checks passed");
+    } finally {
+        clients.forEach((client) => client.disconnect());
+        for (const node of [nodeA, nodeB]) {
+            await new Promise<void>((resolve) => node.io.close(() => resolve()));
+            await node.closeAdapter();
+        }
+        await RedisClient.disconnect();
+    }
+}
+
+run()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error.message);
+        process.exit(1);
+    });
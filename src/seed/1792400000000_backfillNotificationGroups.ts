@@ -0,0 +1,27 @@
+import { Notification } from "../model/notificationSchema";
+import { logger } from "../utils/logger";
+
+/**
+ * Notifications created before grouping have no actor list or activity time.
+ * Turn each of them into a group of one so they sort and retract like new ones.
+ */
+export async function backfillNotificationGroups() {
+  try {
+    const result = await Notification.updateMany(
+      { lastActivityAt: { $exists: false } },
+      [
+        {
+          $set: {
+            actorIds: ["$actorId"],
+            count: 1,
+            lastActivityAt: "$createdAt",
+          },
+        },
+      ]
+    );
+
+    logger.info(`🎉 Backfilled ${result.modifiedCount} notifications into groups`);
+  } catch (error) {
+    logger.error("❌ Error backfilling notification groups:", error);
+  }
+}
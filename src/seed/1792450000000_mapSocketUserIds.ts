@@ -0,0 +1,98 @@
+import { AppDataSource } from "../config/postgres";
+import { User } from "../entities/User";
+import { Message } from "../model/messageSchema";
+import { logger } from "../utils/logger";
+
+/**
+ * Sockets used to identify users by their Firebase uid, so chats started over a socket
+ * stored the uid where everything else stores User.id. Rewrite those IDs in conversations,
+ * their participants and message senders/receivers. A direct conversation that turns out to
+ * duplicate one the pair already had over GraphQL is merged into it.
+ *
+ * Runs before the conversation_participants backfill so that copies the mapped IDs.
+ */
+export async function mapSocketUserIds() {
+  try {
+    const usersTable = AppDataSource.getMetadata(User).tableName;
+
+    const merged: Array<{ oldId: string; keepId: string }> = await AppDataSource.transaction(async (manager) => {
+      await manager.query(
+        `CREATE TEMP TABLE uid_map ON COMMIT DROP AS
+         SELECT u."firebaseId" AS uid, u."id"::text AS user_id
+         FROM "${usersTable}" u
+         WHERE u."firebaseId" IS NOT NULL AND u."firebaseId" <> u."id"::text`
+      );
+
+      // Direct conversations whose mapped pair already has a conversation keyed by User.id
+      await manager.query(
+        `CREATE TEMP TABLE conversation_merge ON COMMIT DROP AS
+         SELECT c."id" AS old_id, keep."id" AS keep_id
+         FROM "conversations" c
+         LEFT JOIN uid_map m1 ON m1.uid = c."participant1Id"
+         LEFT JOIN uid_map m2 ON m2.uid = c."participant2Id"
+         JOIN "conversations" keep
+           ON keep."id" <> c."id" AND keep."type" = 'direct'
+          AND LEAST(keep."participant1Id", keep."participant2Id")
+              = LEAST(COALESCE(m1.user_id, c."participant1Id"), COALESCE(m2.user_id, c."participant2Id"))
+          AND GREATEST(keep."participant1Id", keep."participant2Id")
+              = GREATEST(COALESCE(m1.user_id, c."participant1Id"), COALESCE(m2.user_id, c."participant2Id"))
+          AND NOT EXISTS (SELECT 1 FROM uid_map m WHERE m.uid IN (keep."participant1Id", keep."participant2Id"))
+         WHERE c."type" = 'direct' AND (m1.uid IS NOT NULL OR m2.uid IS NOT NULL)`
+      );
+      await manager.query(
+        `UPDATE "message_metadata" mm SET "conversationId" = cm.keep_id
+         FROM conversation_merge cm WHERE mm."conversationId" = cm.old_id`
+      );
+      await manager.query(
+        `UPDATE "hidden_messages" h SET "conversationId" = cm.keep_id
+         FROM conversation_merge cm WHERE h."conversationId" = cm.old_id`
+      );
+      await manager.query(
+        `UPDATE "conversations" keep
+         SET "lastMessageAt" = c."lastMessageAt", "lastMessagePreview" = c."lastMessagePreview"
+         FROM conversation_merge cm JOIN "conversations" c ON c."id" = cm.old_id
+         WHERE keep."id" = cm.keep_id
+           AND c."lastMessageAt" IS NOT NULL
+           AND (keep."lastMessageAt" IS NULL OR keep."lastMessageAt" < c."lastMessageAt")`
+      );
+      await manager.query(
+        `DELETE FROM "conversation_participants" p USING conversation_merge cm WHERE p."conversationId" = cm.old_id`
+      );
+      await manager.query(`DELETE FROM "conversations" c USING conversation_merge cm WHERE c."id" = cm.old_id`);
+
+      for (const column of ["participant1Id", "participant2Id", "createdBy", "blockedBy"]) {
+        await manager.query(
+          `UPDATE "conversations" c SET "${column}" = m.user_id FROM uid_map m WHERE c."${column}" = m.uid`
+        );
+      }
+
+      // A member listed under both IDs keeps the User.id row
+      await manager.query(
+        `DELETE FROM "conversation_participants" p USING uid_map m
+         WHERE p."userId" = m.uid
+           AND EXISTS (SELECT 1 FROM "conversation_participants" q
+                       WHERE q."conversationId" = p."conversationId" AND q."userId" = m.user_id)`
+      );
+      await manager.query(
+        `UPDATE "conversation_participants" p SET "userId" = m.user_id FROM uid_map m WHERE p."userId" = m.uid`
+      );
+
+      for (const column of ["senderId", "receiverId"]) {
+        await manager.query(
+          `UPDATE "message_metadata" mm SET "${column}" = m.user_id FROM uid_map m WHERE mm."${column}" = m.uid`
+        );
+      }
+
+      return manager.query(`SELECT old_id AS "oldId", keep_id AS "keepId" FROM conversation_merge`);
+    });
+
+    for (const { oldId, keepId } of merged) {
+      await Message.updateMany({ conversationId: oldId }, { $set: { conversationId: keepId } });
+    }
+
+    logger.info(`🎉 Socket user ID mapping complete (${merged.length} duplicate conversations merged)`);
+  } catch (error) {
+    logger.error("❌ Error mapping socket user IDs:", error);
+    throw error; // Leave the seed unrecorded so it is retried on next start
+  }
+}
@@ -0,0 +1,25 @@
+import { AppDataSource } from "../config/postgres";
+import { logger } from "../utils/logger";
+
+/**
+ * Direct conversations created before the participants table existed only record
+ * their members in participant1Id/participant2Id. Copy them into conversation_participants.
+ */
+export async function backfillConversationParticipants() {
+  try {
+    for (const column of ["participant1Id", "participant2Id"]) {
+      await AppDataSource.query(
+        `INSERT INTO "conversation_participants" ("conversationId", "userId", "role", "joinedAt")
+         SELECT c."id", c."${column}", 'member', c."createdAt"
+         FROM "conversations" c
+         WHERE c."${column}" IS NOT NULL
+         ON CONFLICT ("conversationId", "userId") DO NOTHING`
+      );
+    }
+
+    logger.info("🎉 conversation_participants backfill complete!");
+  } catch (error) {
+    logger.error("❌ Error backfilling conversation participants:", error);
+    throw error; // Leave the seed unrecorded so it is retried on next start
+  }
+}
@@ -0,0 +1,29 @@
+import { AppDataSource } from "../config/postgres";
+import { logger } from "../utils/logger";
+
+/**
+ * Read state used to live on each message_metadata row (isRead). Start every
+ * participant's read cursor at the newest message they had already read.
+ */
+export async function backfillReadCursors() {
+  try {
+    await AppDataSource.query(
+      `UPDATE "conversation_participants" p
+       SET "lastReadAt" = r."readUpTo"
+       FROM (
+         SELECT m."conversationId", m."receiverId" AS "userId", MAX(m."createdAt") AS "readUpTo"
+         FROM "message_metadata" m
+         WHERE m."isRead" = true AND m."receiverId" IS NOT NULL
+         GROUP BY m."conversationId", m."receiverId"
+       ) r
+       WHERE p."conversationId" = r."conversationId"
+         AND p."userId" = r."userId"
+         AND p."lastReadAt" IS NULL`
+    );
+
+    logger.info("🎉 Read cursor backfill complete!");
+  } catch (error) {
+    logger.error("❌ Error backfilling read cursors:", error);
+    throw error; // Leave the seed unrecorded so it is retried on next start
+  }
+}
@@ -0,0 +1,32 @@
+import { AppDataSource } from "../config/postgres";
+import { UserBlock } from "../model/userBlockSchema";
+import { logger } from "../utils/logger";
+
+/**
+ * Blocks used to be a flag on the direct conversation only. Turn each blocked
+ * conversation into a user-level block from blockedBy against the other member.
+ */
+export async function backfillUserBlocks() {
+  try {
+    const rows: Array<{ blockerId: string; blockedId: string }> = await AppDataSource.query(
+      `SELECT c."blockedBy" AS "blockerId",
+              CASE WHEN c."participant1Id" = c."blockedBy" THEN c."participant2Id" ELSE c."participant1Id" END AS "blockedId"
+       FROM "conversations" c
+       WHERE c."isBlocked" = true AND c."blockedBy" IS NOT NULL AND c."type" = 'direct'`
+    );
+
+    for (const { blockerId, blockedId } of rows) {
+      if (!blockedId || blockerId === blockedId) continue;
+      await UserBlock.updateOne(
+        { blockerId, blockedId },
+        { $setOnInsert: { blockerId, blockedId } },
+        { upsert: true }
+      );
+    }
+
+    logger.info(`🎉 User block backfill complete (${rows.length} conversations)`);
+  } catch (error) {
+    logger.error("❌ Error backfilling user blocks:", error);
+    throw error; // Leave the seed unrecorded so it is retried on next start
+  }
+}
@@ -0,0 +1,21 @@
+import { SyncEvent } from "../model/syncEventSchema";
+import { logger } from "../utils/logger";
+
+/**
+ * `message` and `message_edited` sync events used to store the whole decrypted message.
+ * Reduce them to the { id, senderId } reference the log keeps now; the content is
+ * read from the (encrypted) message store when a client syncs.
+ */
+export async function stripSyncEventContent() {
+  try {
+    const result = await SyncEvent.updateMany(
+      { type: { $in: ["message", "message_edited"] }, "data.removed": { $exists: false } },
+      [{ $set: { data: { id: "$data.id", senderId: "$data.senderId" } } }]
+    );
+
+    logger.info(`🎉 Sync event content stripped (${result.modifiedCount} events)`);
+  } catch (error) {
+    logger.error("❌ Error stripping sync event content:", error);
+    throw error; // Leave the seed unrecorded so it is retried on next start
+  }
+}
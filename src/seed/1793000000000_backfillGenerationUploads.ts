@@ -0,0 +1,34 @@
+import { ImageGeneration } from "../model/imageGenerationSchema";
+import { MediaUpload } from "../model/mediaUploadSchema";
+import { getR2KeyFromUrl } from "../utils/s3Config";
+import { logger } from "../utils/logger";
+
+/**
+ * Uploads are now recorded with their owner, and only recorded uploads are ever
+ * deleted. Record the roast input images uploaded before that.
+ */
+export async function backfillGenerationUploads() {
+  try {
+    const generations = await ImageGeneration.find({ inputImageLink: { $exists: true, $ne: null } })
+      .select("userId inputImageLink")
+      .lean();
+
+    let recorded = 0;
+    for (const { userId, inputImageLink } of generations) {
+      const key = getR2KeyFromUrl(inputImageLink!);
+      if (!key?.startsWith("uploads/")) continue;
+
+      await MediaUpload.updateOne(
+        { key },
+        { $setOnInsert: { key, url: inputImageLink, ownerId: userId, source: "image_generation" } },
+        { upsert: true }
+      );
+      recorded++;
+    }
+
+    logger.info(`🎉 Roast upload backfill complete (${recorded} uploads)`);
+  } catch (error) {
+    logger.error("❌ Error backfilling roast uploads:", error);
+    throw error; // Leave the seed unrecorded so it is retried on next start
+  }
+}
@@ -0,0 +1,38 @@
+import { Message } from "../model/messageSchema";
+import { MediaUpload } from "../model/mediaUploadSchema";
+import { getR2KeyFromUrl } from "../utils/s3Config";
+import { logger } from "../utils/logger";
+
+/**
+ * Uploads are now recorded with their owner, and only recorded uploads are ever
+ * deleted. Record chat media uploaded before that: the upload path carries the
+ * uploader (chat-media/{userId}/...), so only media under the sender's own prefix counts.
+ */
+export async function backfillChatUploads() {
+  try {
+    const cursor = Message.find({ $or: [{ mediaUrl: { $exists: true } }, { thumbnailUrl: { $exists: true } }] })
+      .select("senderId mediaUrl thumbnailUrl")
+      .lean()
+      .cursor();
+
+    let recorded = 0;
+    for await (const message of cursor) {
+      for (const url of [message.mediaUrl, message.thumbnailUrl]) {
+        const key = url ? getR2KeyFromUrl(url) : null;
+        if (!key?.startsWith(`chat-media/${message.senderId}/`)) continue;
+
+        await MediaUpload.updateOne(
+          { key },
+          { $setOnInsert: { key, url, ownerId: message.senderId, source: "chat" } },
+          { upsert: true }
+        );
+        recorded++;
+      }
+    }
+
+    logger.info(`🎉 Chat upload backfill complete (${recorded} uploads)`);
+  } catch (error) {
+    logger.error("❌ Error backfilling chat uploads:", error);
+    throw error; // Leave the seed unrecorded so it is retried on next start
+  }
+}
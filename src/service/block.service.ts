@@ -0,0 +1,159 @@
+import { UserBlock } from '../model/userBlockSchema';
+import { Follow } from '../model/followSchema';
+import { ConversationRepository } from '../repository/ConversationRepository';
+import { NotificationService } from './notification.service';
+import { logger } from '../utils/logger';
+
+export class BlockService {
+    private conversationRepo = new ConversationRepository();
+    private notificationService = new NotificationService();
+
+    /**
+     * Block a user: removes follows in both directions and blocks the direct conversation.
+     * While the block exists neither user can message or follow the other, and the blocked
+     * user cannot like or comment on the blocker's posts.
+     * @param blockerId - User blocking
+     * @param blockedId - User being blocked
+     */
+    async blockUser(blockerId: string, blockedId: string) {
+        try {
+            if (blockerId === blockedId) {
+                throw new Error("You cannot block yourself");
+            }
+
+            const existing = await UserBlock.findOne({ blockerId, blockedId });
+            if (existing) {
+                return { isBlocked: true, message: "Already blocked" };
+            }
+
+            await UserBlock.create({ blockerId, blockedId });
+
+            const follows = await Follow.find({
+                $or: [
+                    { followerId: blockerId, followingId: blockedId },
+                    { followerId: blockedId, followingId: blockerId },
+                ],
+            });
+            for (const follow of follows) {
+                await follow.deleteOne();
+                await this.notificationService.retract({
+                    recipientId: follow.followingId,
+                    actorId: follow.followerId,
+                    type: 'FOLLOW',
+                    entityId: follow.followingId
+                });
+            }
+
+            await this.syncConversationBlock(blockerId, blockedId);
+
+            logger.info(`🚫 User ${blockerId} blocked ${blockedId}`);
+            return { isBlocked: true, message: "Blocked successfully" };
+        } catch (error: any) {
+            logger.error(`❌ Error blocking user: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Lift a block. Only the blocker's own block is removed; a block the other user
+     * placed stays in force.
+     * @param blockerId - User who placed the block
+     * @param blockedId - Blocked user
+     */
+    async unblockUser(blockerId: string, blockedId: string) {
+        try {
+            const result = await UserBlock.findOneAndDelete({ blockerId, blockedId });
+            if (!result) {
+                return { isBlocked: false, message: "Not blocked" };
+            }
+
+            await this.syncConversationBlock(blockerId, blockedId);
+
+            logger.info(`User ${blockerId} unblocked ${blockedId}`);
+            return { isBlocked: false, message: "Unblocked successfully" };
+        } catch (error: any) {
+            logger.error(`❌ Error unblocking user: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * @returns true if `blockerId` has blocked `blockedId`
+     */
+    async hasBlocked(blockerId: string, blockedId: string): Promise<boolean> {
+        return !!(await UserBlock.exists({ blockerId, blockedId }));
+    }
+
+    /**
+     * @returns true if either user has blocked the other
+     */
+    async isBlockedBetween(userId: string, otherUserId: string): Promise<boolean> {
+        if (userId === otherUserId) return false;
+        return !!(await UserBlock.exists({
+            $or: [
+                { blockerId: userId, blockedId: otherUserId },
+                { blockerId: otherUserId, blockedId: userId },
+            ],
+        }));
+    }
+
+    /**
+     * Throw when either user has blocked the other
+     * @param userId - Acting user
+     * @param otherUserId - User being acted on
+     * @param message - Error message
+     */
+    async assertNotBlocked(userId: string, otherUserId: string, message: string): Promise<void> {
+        if (await this.isBlockedBetween(userId, otherUserId)) {
+            throw new Error(message);
+        }
+    }
+
+    /**
+     * Users hidden from `userId` in both directions: those they blocked and those who blocked them
+     */
+    async getBlockedUserIds(userId: string): Promise<string[]> {
+        const blocks = await UserBlock.find({ $or: [{ blockerId: userId }, { blockedId: userId }] })
+            .select('blockerId blockedId')
+            .lean();
+        return [...new Set(blocks.map((b) => (b.blockerId === userId ? b.blockedId : b.blockerId)))];
+    }
+
+    /**
+     * Users `userId` has blocked, newest first
+     */
+    async getBlockedByMe(userId: string): Promise<string[]> {
+        const blocks = await UserBlock.find({ blockerId: userId }).sort({ createdAt: -1 }).select('blockedId').lean();
+        return blocks.map((b) => b.blockedId);
+    }
+
+    /**
+     * Users who have blocked `userId`
+     */
+    async getBlockersOf(userId: string): Promise<string[]> {
+        const blocks = await UserBlock.find({ blockedId: userId }).select('blockerId').lean();
+        return blocks.map((b) => b.blockerId);
+    }
+
+    /**
+     * Mirror the user-level blocks onto the pair's direct conversation flag,
+     * which clients read as `isBlocked` / `blockedBy`
+     */
+    private async syncConversationBlock(userId: string, otherUserId: string): Promise<void> {
+        const conversation = await this.conversationRepo.findDirectConversation(userId, otherUserId);
+        if (!conversation) return;
+
+        const remaining = await UserBlock.findOne({
+            $or: [
+                { blockerId: userId, blockedId: otherUserId },
+                { blockerId: otherUserId, blockedId: userId },
+            ],
+        }).sort({ createdAt: 1 });
+
+        if (remaining) {
+            await this.conversationRepo.blockConversation(conversation.id, remaining.blockerId);
+        } else {
+            await this.conversationRepo.unblockConversation(conversation.id);
+        }
+    }
+}
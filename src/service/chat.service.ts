@@ -1,14 +1,58 @@
+import { In } from "typeorm";
 import { ConversationRepository } from "../repository/ConversationRepository";
+import { ConversationParticipantRepository } from "../repository/ConversationParticipantRepository";
 import { MessageRepository, CreateMessageData } from "../repository/MessageRepository";
-import { MessageType } from "../entities/MessageMetadata";
-import { encryptMessage, decryptMessage, validateMessageContent, sanitizeMessageContent } from "../utils/encryption";
+import { MessageReactionRepository, ReactionSummary } from "../repository/MessageReactionRepository";
+import { SyncService, SyncPage, SyncEventView } from "./sync.service";
+import { BlockService } from "./block.service";
+import { MediaStorageService } from "./mediaStorage.service";
+import { TextModerationService, TextScreenResult } from "./textModeration.service";
+import { ReportTargetType } from "../model/reportSchema";
+import { SyncEventType } from "../model/syncEventSchema";
+import { MessageDeleteScope, MessageType } from "../entities/MessageMetadata";
+import { Conversation, ConversationType } from "../entities/Conversation";
+import { ConversationParticipant, ParticipantRole } from "../entities/ConversationParticipant";
+import { User } from "../entities/User";
+import { getDBRepository } from "../db/repository";
+import { emitToConversation, emitToUser, emitToUsers, joinConversationRoom, leaveConversationRoom } from "../socket/server";
+import {
+    encryptMessage,
+    decryptMessage,
+    toStoredCiphertext,
+    validateMessageContent,
+    sanitizeMessageContent,
+    generateSearchTokens,
+    generateQueryTokens,
+    normalizeSearchTerm,
+} from "../utils/encryption";
+import { buildConnection, PageInfo } from "../utils/cursor";
+import { CustomGraphQLError } from "../utils/utils";
+import { HttpStatusCodes } from "../utils/constant";
 import { logger } from "../utils/logger";
 import { IMessage } from "../model/messageSchema";
 import { MessageMetadata } from "../entities/MessageMetadata";
 
+const MAX_GROUP_MEMBERS = 256;
+const MESSAGE_EDIT_WINDOW_MS = Number(process.env.MESSAGE_EDIT_WINDOW_MINUTES || 15) * 60 * 1000;
+const MAX_REACTION_LENGTH = 16;
+const MAX_SEARCH_RESULTS = 50;
+const SNIPPET_CONTEXT_BEFORE = 40;
+const SNIPPET_LENGTH = 160;
+const DELETE_FOR_EVERYONE_WINDOW_MS = Number(process.env.MESSAGE_DELETE_FOR_EVERYONE_WINDOW_MINUTES || 60) * 60 * 1000;
+const MAX_ENVELOPES = 1024;
+const MAX_ENVELOPE_LENGTH = 64 * 1024; // base64 characters
+
+export interface CiphertextEnvelope {
+    recipientId: string;
+    recipientDeviceId: string;
+    type: number; // Defined by the client protocol (e.g. pre-key vs. session message)
+    ciphertext: string; // base64, opaque to the server
+}
+
 export interface SendMessageParams {
     senderId: string;
-    receiverId: string;
+    receiverId?: string; // Direct message to a user
+    conversationId?: string; // Message to an existing direct or group conversation
     messageType: MessageType;
     content?: string;
     mediaUrl?: string;
@@ -17,13 +61,15 @@ export interface SendMessageParams {
     fileName?: string;
     thumbnailUrl?: string;
     replyToMessageId?: string;
+    senderDeviceId?: string; // End-to-end encrypted messages only
+    envelopes?: CiphertextEnvelope[]; // Sent instead of `content` for end-to-end encryption
 }
 
 export interface MessageWithMetadata {
     id: string;
     conversationId: string;
     senderId: string;
-    receiverId: string;
+    receiverId?: string;
     messageType: MessageType;
     content?: string;
     mediaUrl?: string;
@@ -32,6 +78,12 @@ export interface MessageWithMetadata {
     fileName?: string;
     thumbnailUrl?: string;
     replyToMessageId?: string;
+    isEndToEndEncrypted: boolean;
+    senderDeviceId?: string;
+    envelopes?: CiphertextEnvelope[];
+    isEdited: boolean;
+    editedAt?: Date;
+    reactions: ReactionSummary[];
     isDelivered: boolean;
     isRead: boolean;
     deliveredAt?: Date;
@@ -39,9 +91,66 @@ export interface MessageWithMetadata {
     createdAt: Date;
 }
 
+export interface ReadCursorUpdate {
+    conversationId: string;
+    lastReadMessageId?: string;
+    lastReadAt?: Date;
+    advanced: boolean; // false when the cursor was already at or past the message
+}
+
+export interface MessageReactionUpdate {
+    conversationId: string;
+    messageId: string;
+    userId: string;
+    emoji?: string; // Absent when the reaction was removed
+    action: "added" | "removed";
+    reactions: ReactionSummary[];
+}
+
+export interface DeliveryReceipt {
+    messageId: string;
+    conversationId: string;
+    senderId: string;
+    deliveredTo: string;
+    deliveredAt: Date;
+}
+
+export interface MessageDeletion {
+    conversationId: string;
+    messageId: string;
+    deletedBy: string;
+    scope: MessageDeleteScope;
+}
+
+export interface MessageSearchResult {
+    messageId: string;
+    conversationId: string;
+    senderId: string;
+    createdAt: Date;
+    snippet: string;
+    highlights: Array<{ start: number; length: number }>; // Offsets into snippet
+    historyPage: number; // Page of getConversationHistory (at historyPageSize) holding the message
+    historyPageSize: number;
+}
+
+export type GroupEventAction =
+    | "created"
+    | "updated"
+    | "members_added"
+    | "member_removed"
+    | "member_left"
+    | "role_changed";
+
 export class ChatService {
     private conversationRepo = new ConversationRepository();
+    private participantRepo = new ConversationParticipantRepository();
     private messageRepo = new MessageRepository();
+    private reactionRepo = new MessageReactionRepository();
+    private syncService = new SyncService();
+    private blockService = new BlockService();
+    private mediaStorageService = new MediaStorageService();
+    private textModerationService = new TextModerationService();
+    private userRepo = getDBRepository(User);
 
     /**
      * Send a message
@@ -50,23 +159,22 @@ export class ChatService {
      */
     async sendMessage(params: SendMessageParams): Promise<MessageWithMetadata> {
         try {
-            // Find or create conversation
-            const conversation = await this.conversationRepo.findOrCreateConversation(
-                params.senderId,
-                params.receiverId
-            );
+            const { conversation, receiverId } = await this.resolveConversation(params);
 
             // Check if conversation is blocked
             const isBlocked = await this.conversationRepo.isConversationBlocked(conversation.id);
             if (isBlocked) {
                 throw new Error("Cannot send message to blocked conversation");
             }
+            if (receiverId) {
+                await this.blockService.assertNotBlocked(params.senderId, receiverId, "You cannot message this user");
+            }
 
             // Prepare message data
             const messageData: CreateMessageData = {
                 conversationId: conversation.id,
                 senderId: params.senderId,
-                receiverId: params.receiverId,
+                receiverId,
                 messageType: params.messageType,
                 mediaUrl: params.mediaUrl,
                 mediaType: params.mediaType,
@@ -76,16 +184,38 @@ export class ChatService {
                 replyToMessageId: params.replyToMessageId,
             };
 
-            // Encrypt text content if provided
-            if (params.content && params.messageType === MessageType.TEXT) {
+            let screened: TextScreenResult | undefined;
+            if (params.envelopes?.length) {
+                // End-to-end encrypted: store the clients' ciphertexts as-is
+                if (!conversation.isEndToEndEncrypted) {
+                    throw new Error("Enable end-to-end encryption for this conversation before sending envelopes");
+                }
+                await this.assertValidEnvelopes(conversation.id, params);
+                messageData.isEndToEndEncrypted = true;
+                messageData.senderDeviceId = params.senderDeviceId;
+                messageData.envelopes = params.envelopes.map(({ recipientId, recipientDeviceId, type, ciphertext }) => ({
+                    recipientId,
+                    recipientDeviceId,
+                    type,
+                    ciphertext,
+                }));
+            } else if (conversation.isEndToEndEncrypted && params.messageType === MessageType.TEXT) {
+                throw new Error("This conversation is end-to-end encrypted; send ciphertext envelopes instead of content");
+            } else if (params.content && params.messageType === MessageType.TEXT) {
+                // Encrypt text content if provided
                 validateMessageContent(params.content);
-                const sanitized = sanitizeMessageContent(params.content);
-                const encrypted = encryptMessage(sanitized);
-                messageData.encryptedContent = encrypted.encrypted;
+                screened = this.textModerationService.screen(params.content, "chat");
+                params = { ...params, content: screened.text }; // The preview shows the masked text too
+                const sanitized = sanitizeMessageContent(screened.text);
+                Object.assign(messageData, toStoredCiphertext(encryptMessage(sanitized)));
+                messageData.searchTokens = generateSearchTokens(sanitized);
             }
 
             // Create message
             const { message, metadata } = await this.messageRepo.createMessage(messageData);
+            if (screened) {
+                await this.textModerationService.flagIfNeeded(screened, ReportTargetType.MESSAGE, metadata.id, params.senderId, "chat");
+            }
 
             // Update conversation last message
             const preview = this.generateMessagePreview(params);
@@ -96,7 +226,9 @@ export class ChatService {
             );
 
             // Return formatted message
-            return this.formatMessage(message, metadata);
+            const formatted = this.formatMessage(message, metadata);
+            await this.recordForMembers(conversation.id, "message", this.toSyncReference(metadata));
+            return formatted;
         } catch (error: any) {
             logger.error(`❌ Error sending message: ${error.message}`);
             throw error;
@@ -104,26 +236,161 @@ export class ChatService {
     }
 
     /**
-     * Get conversation history with decrypted messages
+     * Switch a conversation to end-to-end encryption. This is one way: from then on only
+     * ciphertext envelopes are accepted. Direct conversations can be opted in by `receiverId`
+     * before the first message, which creates the conversation.
+     * @param userId - Member opting in
+     * @param target - Existing conversation, or the other user of a direct conversation
+     * @returns Formatted conversation
+     */
+    async enableEndToEndEncryption(
+        userId: string,
+        target: { conversationId?: string; receiverId?: string }
+    ): Promise<any> {
+        try {
+            const { conversation, receiverId } = await this.resolveConversation({ senderId: userId, ...target });
+            if (await this.conversationRepo.isConversationBlocked(conversation.id)) {
+                throw new Error("This conversation is blocked");
+            }
+            if (receiverId) {
+                await this.blockService.assertNotBlocked(userId, receiverId, "You cannot message this user");
+            }
+
+            if (!conversation.isEndToEndEncrypted) {
+                await this.conversationRepo.enableEndToEndEncryption(conversation.id);
+                emitToConversation(conversation.id, "encryption_enabled", {
+                    conversationId: conversation.id,
+                    enabledBy: userId,
+                    timestamp: new Date(),
+                });
+                logger.info(`🔐 User ${userId} enabled end-to-end encryption for conversation ${conversation.id}`);
+            }
+
+            return this.getConversation(conversation.id, userId);
+        } catch (error: any) {
+            logger.error(`❌ Error enabling end-to-end encryption: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Check end-to-end encrypted envelopes: sent from a device, addressed to
+     * conversation members, and within size limits
      * @param conversationId - Conversation ID
+     * @param params - Message parameters
+     */
+    private async assertValidEnvelopes(conversationId: string, params: SendMessageParams): Promise<void> {
+        const envelopes = params.envelopes!;
+        if (!Array.isArray(envelopes)) {
+            throw new Error("envelopes must be an array");
+        }
+        if (params.content) {
+            throw new Error("Send either content or envelopes, not both");
+        }
+        if (!params.senderDeviceId) {
+            throw new Error("senderDeviceId is required for end-to-end encrypted messages");
+        }
+        if (envelopes.length > MAX_ENVELOPES) {
+            throw new Error(`A message can carry at most ${MAX_ENVELOPES} envelopes`);
+        }
+
+        const participants = await this.participantRepo.getParticipants(conversationId);
+        const memberIds = new Set(participants.map((p) => p.userId));
+
+        for (const envelope of envelopes) {
+            if (!memberIds.has(envelope.recipientId)) {
+                throw new Error("Envelopes can only be addressed to conversation members");
+            }
+            if (
+                !envelope.recipientDeviceId ||
+                !Number.isInteger(envelope.type) ||
+                !envelope.ciphertext ||
+                envelope.ciphertext.length > MAX_ENVELOPE_LENGTH ||
+                !/^[A-Za-z0-9+/]+={0,2}$/.test(envelope.ciphertext)
+            ) {
+                throw new Error("Invalid ciphertext envelope");
+            }
+        }
+    }
+
+    /**
+     * Work out which conversation a message goes to. Direct messages by `receiverId`
+     * create the conversation on first contact and subscribe both users to its room.
+     * @param params - Message parameters
+     * @returns Conversation and, for direct conversations, the receiver
+     */
+    private async resolveConversation(
+        params: Pick<SendMessageParams, "senderId" | "conversationId" | "receiverId">
+    ): Promise<{ conversation: Conversation; receiverId?: string }> {
+        if (params.conversationId) {
+            const conversation = await this.conversationRepo.getConversationById(params.conversationId);
+            if (!conversation) {
+                throw new Error("Conversation not found");
+            }
+            if (!(await this.conversationRepo.isParticipant(conversation.id, params.senderId))) {
+                throw new Error("You are not a member of this conversation");
+            }
+
+            const receiverId = conversation.type === ConversationType.DIRECT
+                ? [conversation.participant1Id, conversation.participant2Id].find((id) => id !== params.senderId)
+                : undefined;
+            return { conversation, receiverId };
+        }
+
+        if (!params.receiverId) {
+            throw new Error("conversationId or receiverId is required");
+        }
+        if (params.receiverId === params.senderId) {
+            throw new Error("You cannot message yourself");
+        }
+        // Checked before the conversation is created, so a block leaves no empty conversation behind
+        await this.blockService.assertNotBlocked(params.senderId, params.receiverId, "You cannot message this user");
+
+        const conversation = await this.conversationRepo.findOrCreateConversation(
+            params.senderId,
+            params.receiverId
+        );
+        if (!conversation.lastMessageAt) {
+            joinConversationRoom([params.senderId, params.receiverId], conversation.id);
+        }
+
+        return { conversation, receiverId: params.receiverId };
+    }
+
+    /**
+     * Get conversation history with decrypted messages. Only members can read it.
+     * In groups, messages from users the viewer blocked are left out.
+     * @param conversationId - Conversation ID
+     * @param viewerId - User viewing the history; their "deleted for me" messages are left out
      * @param page - Page number
      * @param limit - Items per page
      * @returns Messages with metadata
      */
     async getConversationHistory(
         conversationId: string,
+        viewerId: string,
         page: number = 1,
         limit: number = 50
     ): Promise<{ messages: MessageWithMetadata[]; total: number }> {
         try {
+            if (!(await this.conversationRepo.isParticipant(conversationId, viewerId))) {
+                throw new Error("You are not a member of this conversation");
+            }
+
             const { messages, total } = await this.messageRepo.getMessagesByConversation(
                 conversationId,
                 page,
-                limit
+                limit,
+                viewerId,
+                await this.blockService.getBlockedByMe(viewerId)
             );
 
+            const participants = await this.participantRepo.getParticipants(conversationId);
+            const reactions = await this.reactionRepo.getReactionSummaries(
+                messages.map(({ metadata }) => metadata.id)
+            );
             const formattedMessages = messages.map(({ message, metadata }) =>
-                this.formatMessage(message, metadata)
+                this.formatMessage(message, metadata, participants, reactions.get(metadata.id))
             );
 
             return { messages: formattedMessages, total };
@@ -133,6 +400,88 @@ export class ChatService {
         }
     }
 
+    /**
+     * Search the text of messages in the user's conversations through the blind index.
+     * A page may hold fewer than `limit` results when matches turn out to be hidden or
+     * only partial; keep paging while `hasNextPage` is true.
+     * @param userId - User searching
+     * @param query - Search words; each must start a word in the message
+     * @param conversationId - Restrict to one conversation
+     * @param limit - Page size
+     * @param after - Cursor from a previous page
+     * @param historyPageSize - Page size the client uses for history, for jump-to-message anchors
+     * @returns Matching messages with snippets, newest first
+     */
+    async searchMessages(
+        userId: string,
+        query: string,
+        conversationId?: string,
+        limit: number = 20,
+        after?: string,
+        historyPageSize: number = 50
+    ): Promise<{ results: MessageSearchResult[]; pageInfo: PageInfo }> {
+        try {
+            const { terms, tokens } = generateQueryTokens(query);
+            const pageSize = Math.min(Math.max(limit, 1), MAX_SEARCH_RESULTS);
+            historyPageSize = Math.max(historyPageSize, 1);
+
+            let conversationIds: string[];
+            if (conversationId) {
+                const isParticipant = await this.conversationRepo.isParticipant(conversationId, userId);
+                if (!isParticipant) {
+                    throw new Error("You are not a member of this conversation");
+                }
+                conversationIds = [conversationId];
+            } else {
+                conversationIds = await this.participantRepo.getConversationIds(userId);
+            }
+
+            const matches = await this.messageRepo.searchMessages(conversationIds, tokens, pageSize, after);
+            const { nodes, pageInfo } = buildConnection(matches, pageSize);
+
+            const blockedSenderIds = await this.blockService.getBlockedByMe(userId);
+            const visible = await this.messageRepo.getVisibleMetadataByMongoIds(
+                nodes.map((message) => message._id.toString()),
+                userId,
+                blockedSenderIds
+            );
+            const metadataByMongoId = new Map(visible.map((metadata) => [metadata.mongoMessageId, metadata]));
+
+            const results: MessageSearchResult[] = [];
+            for (const message of nodes) {
+                const metadata = metadataByMongoId.get(message._id.toString());
+                if (!metadata || !message.encryptedContent) continue;
+
+                let content: string;
+                try {
+                    content = decryptMessage(message);
+                } catch {
+                    continue;
+                }
+
+                // The index matches prefixes of at most 10 characters; confirm every term really matches
+                const snippet = this.buildSearchSnippet(content, terms);
+                if (!snippet) continue;
+
+                const newer = await this.messageRepo.countNewerVisibleMessages(metadata, userId, blockedSenderIds);
+                results.push({
+                    messageId: metadata.id,
+                    conversationId: metadata.conversationId,
+                    senderId: metadata.senderId,
+                    createdAt: metadata.createdAt,
+                    ...snippet,
+                    historyPage: Math.floor(newer / historyPageSize) + 1,
+                    historyPageSize,
+                });
+            }
+
+            return { results, pageInfo };
+        } catch (error: any) {
+            logger.error(`❌ Error searching messages: ${error.message}`);
+            throw error;
+        }
+    }
+
     /**
      * Get user's conversations
      * @param userId - User ID
@@ -152,20 +501,19 @@ export class ChatService {
                 limit
             );
 
-            // Get unread counts for each conversation
-            const conversationsWithUnread = await Promise.all(
-                conversations.map(async (conv) => {
-                    const unreadCount = await this.messageRepo.getUnreadCount(userId, conv.id);
-                    return {
-                        id: conv.id,
-                        participant1Id: conv.participant1Id,
-                        participant2Id: conv.participant2Id,
-                        lastMessageAt: conv.lastMessageAt,
-                        lastMessagePreview: conv.lastMessagePreview,
-                        isBlocked: conv.isBlocked,
-                        unreadCount,
-                    };
-                })
+            const conversationIds = conversations.map((conv) => conv.id);
+            const blockedSenderIds = await this.blockService.getBlockedByMe(userId);
+            const [participants, unreadCounts] = await Promise.all([
+                this.participantRepo.getParticipantsForConversations(conversationIds),
+                this.participantRepo.getUnreadCounts(userId, conversationIds, blockedSenderIds),
+            ]);
+
+            const conversationsWithUnread = conversations.map((conv) =>
+                this.formatConversation(
+                    conv,
+                    participants.filter((p) => p.conversationId === conv.id),
+                    unreadCounts.get(conv.id) || 0
+                )
             );
 
             return { conversations: conversationsWithUnread, total };
@@ -176,26 +524,250 @@ export class ChatService {
     }
 
     /**
-     * Mark messages as read
+     * Advance the user's read cursor in a conversation
+     * @param userId - User ID
+     * @param conversationId - Conversation ID
+     * @param messageId - Newest message read (default: the conversation's latest message)
+     * @returns Read state after the update
+     */
+    async markConversationRead(
+        userId: string,
+        conversationId: string,
+        messageId?: string
+    ): Promise<ReadCursorUpdate> {
+        try {
+            const participant = await this.participantRepo.getParticipant(conversationId, userId);
+            if (!participant) {
+                throw new Error("You are not a member of this conversation");
+            }
+
+            const target = messageId
+                ? await this.messageRepo.getMetadataById(messageId)
+                : await this.messageRepo.getLatestMetadata(conversationId);
+            if (messageId && (!target || target.conversationId !== conversationId)) {
+                throw new Error("Message not found in this conversation");
+            }
+            if (!target) {
+                return { conversationId, advanced: false };
+            }
+
+            const advanced = await this.participantRepo.advanceReadCursor(
+                conversationId,
+                userId,
+                target.id,
+                target.createdAt
+            );
+            if (advanced) {
+                await this.recordForMembers(conversationId, "messages_read", {
+                    conversationId,
+                    lastReadMessageId: target.id,
+                    readAt: target.createdAt,
+                    readBy: userId,
+                });
+            }
+
+            return advanced
+                ? { conversationId, lastReadMessageId: target.id, lastReadAt: target.createdAt, advanced }
+                : {
+                    conversationId,
+                    lastReadMessageId: participant.lastReadMessageId,
+                    lastReadAt: participant.lastReadAt,
+                    advanced,
+                };
+        } catch (error: any) {
+            logger.error(`❌ Error marking conversation as read: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Mark messages as read by advancing the read cursor of each affected
+     * conversation to the newest of the given messages
      * @param messageIds - Array of message IDs
-     * @param userId - User ID (for verification)
+     * @param userId - User ID
+     * @returns Read state per conversation
      */
-    async markMessagesAsRead(messageIds: string[], userId: string): Promise<void> {
+    async markMessagesAsRead(messageIds: string[], userId: string): Promise<ReadCursorUpdate[]> {
         try {
-            await this.messageRepo.markAsRead(messageIds);
+            const metadataList = await this.messageRepo.getMetadataByIds(messageIds);
+
+            const newestByConversation = new Map<string, MessageMetadata>();
+            for (const metadata of metadataList) {
+                const current = newestByConversation.get(metadata.conversationId);
+                if (!current || metadata.createdAt > current.createdAt) {
+                    newestByConversation.set(metadata.conversationId, metadata);
+                }
+            }
+
+            return await Promise.all(
+                [...newestByConversation.values()].map((metadata) =>
+                    this.markConversationRead(userId, metadata.conversationId, metadata.id)
+                )
+            );
         } catch (error: any) {
             logger.error(`❌ Error marking messages as read: ${error.message}`);
             throw error;
         }
     }
 
+    /**
+     * Edit a text message. Only the sender may edit, within the edit window;
+     * the previous encrypted content is kept in the message's edit history.
+     * @param userId - User editing the message
+     * @param messageId - Message ID
+     * @param content - New plaintext content
+     * @returns Updated message
+     */
+    async editMessage(userId: string, messageId: string, content: string): Promise<MessageWithMetadata> {
+        try {
+            const metadata = await this.messageRepo.getMetadataById(messageId);
+            if (!metadata || metadata.isDeleted) {
+                throw new Error("Message not found");
+            }
+            if (metadata.senderId !== userId) {
+                throw new Error("You can only edit your own messages");
+            }
+            if (metadata.messageType !== MessageType.TEXT) {
+                throw new Error("Only text messages can be edited");
+            }
+            if (Date.now() - metadata.createdAt.getTime() > MESSAGE_EDIT_WINDOW_MS) {
+                throw new Error("This message can no longer be edited");
+            }
+
+            const conversation = await this.conversationRepo.getConversationById(metadata.conversationId);
+            if (conversation?.isEndToEndEncrypted) {
+                throw new Error("Messages in end-to-end encrypted conversations cannot be edited");
+            }
+
+            validateMessageContent(content);
+            const screened = this.textModerationService.screen(content, "chat");
+            content = screened.text;
+            const sanitized = sanitizeMessageContent(content);
+
+            const message = await this.messageRepo.updateMessageContent(
+                metadata.mongoMessageId,
+                toStoredCiphertext(encryptMessage(sanitized)),
+                generateSearchTokens(sanitized)
+            );
+            if (!message) {
+                throw new Error("Message not found");
+            }
+            await this.textModerationService.flagIfNeeded(screened, ReportTargetType.MESSAGE, metadata.id, userId, "chat");
+
+            // Keep the conversation list preview in sync when the latest message changes
+            if (conversation?.lastMessageAt && conversation.lastMessageAt.getTime() === metadata.createdAt.getTime()) {
+                await this.conversationRepo.updateLastMessage(
+                    conversation.id,
+                    this.generateMessagePreview({ senderId: userId, messageType: MessageType.TEXT, content }),
+                    metadata.createdAt
+                );
+            }
+
+            const participants = await this.participantRepo.getParticipants(metadata.conversationId);
+            const reactions = await this.reactionRepo.getReactionSummaries([metadata.id]);
+            const formatted = this.formatMessage(message, metadata, participants, reactions.get(metadata.id));
+            await this.syncService.record(participants.map((p) => p.userId), "message_edited", metadata.conversationId, this.toSyncReference(metadata));
+
+            logger.info(`✏️ Message ${messageId} edited by ${userId}`);
+            return formatted;
+        } catch (error: any) {
+            logger.error(`❌ Error editing message: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * React to a message. A user has at most one reaction per message;
+     * reacting again replaces the previous emoji.
+     * @param userId - Reacting user
+     * @param messageId - Message ID
+     * @param emoji - Reaction emoji
+     * @returns The change and the message's updated reaction counts
+     */
+    async addReaction(userId: string, messageId: string, emoji: string): Promise<MessageReactionUpdate> {
+        try {
+            const reaction = emoji?.trim();
+            if (!reaction || reaction.length > MAX_REACTION_LENGTH || /\s/.test(reaction)) {
+                throw new Error("Invalid reaction");
+            }
+
+            const metadata = await this.getReactableMessage(userId, messageId);
+            await this.reactionRepo.setReaction(metadata.id, metadata.conversationId, userId, reaction);
+
+            const reactions = await this.reactionRepo.getReactionSummaries([metadata.id]);
+            const update: MessageReactionUpdate = {
+                conversationId: metadata.conversationId,
+                messageId: metadata.id,
+                userId,
+                emoji: reaction,
+                action: "added",
+                reactions: reactions.get(metadata.id) || [],
+            };
+            await this.recordForMembers(metadata.conversationId, "message_reaction", update);
+            return update;
+        } catch (error: any) {
+            logger.error(`❌ Error adding reaction: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Remove the user's reaction from a message
+     * @param userId - Reacting user
+     * @param messageId - Message ID
+     * @returns The change and the message's updated reaction counts
+     */
+    async removeReaction(userId: string, messageId: string): Promise<MessageReactionUpdate> {
+        try {
+            const metadata = await this.getReactableMessage(userId, messageId);
+            await this.reactionRepo.removeReaction(metadata.id, userId);
+
+            const reactions = await this.reactionRepo.getReactionSummaries([metadata.id]);
+            const update: MessageReactionUpdate = {
+                conversationId: metadata.conversationId,
+                messageId: metadata.id,
+                userId,
+                action: "removed",
+                reactions: reactions.get(metadata.id) || [],
+            };
+            await this.recordForMembers(metadata.conversationId, "message_reaction", update);
+            return update;
+        } catch (error: any) {
+            logger.error(`❌ Error removing reaction: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Load a message the user may react to (not deleted, user is a member of its conversation)
+     */
+    private async getReactableMessage(userId: string, messageId: string): Promise<MessageMetadata> {
+        const metadata = await this.messageRepo.getMetadataById(messageId);
+        if (!metadata || metadata.isDeleted) {
+            throw new Error("Message not found");
+        }
+
+        const isParticipant = await this.conversationRepo.isParticipant(metadata.conversationId, userId);
+        if (!isParticipant) {
+            throw new Error("You are not a member of this conversation");
+        }
+
+        return metadata;
+    }
+
     /**
      * Mark message as delivered
      * @param messageId - Message ID
+     * @param userId - Member the message reached
+     * @returns Receipt for the sender, or null if already delivered or not applicable
      */
-    async markMessageAsDelivered(messageId: string): Promise<void> {
+    async markMessageAsDelivered(messageId: string, userId: string): Promise<DeliveryReceipt | null> {
         try {
-            await this.messageRepo.markAsDelivered(messageId);
+            const metadata = await this.messageRepo.getMetadataById(messageId);
+            if (!metadata || metadata.isDelivered || metadata.senderId === userId) return null;
+            if (!(await this.conversationRepo.isParticipant(metadata.conversationId, userId))) return null;
+
+            return await this.recordDelivery(metadata, userId);
         } catch (error: any) {
             logger.error(`❌ Error marking message as delivered: ${error.message}`);
             throw error;
@@ -203,13 +775,157 @@ export class ChatService {
     }
 
     /**
-     * Delete a message
+     * Events in the user's log after `since` (see SyncService). Messages from others
+     * handed out here count as delivered, and their senders get a receipt.
+     * @param userId - User catching up
+     * @param since - Last seq the client processed (0 for none)
+     * @param limit - Maximum events to return
+     * @returns Page of events
+     */
+    async sync(userId: string, since: number, limit?: number): Promise<SyncPage> {
+        try {
+            const page = await this.syncService.getEventsSince(userId, since, limit);
+            page.events = await this.fillMessageEvents(page.events, userId);
+
+            const incomingIds = page.events
+                .filter((event) => event.type === "message" && !event.data.removed && event.data.senderId !== userId)
+                .map((event) => event.data.id as string);
+            if (incomingIds.length > 0) {
+                const metadataList = await this.messageRepo.getMetadataByIds(incomingIds);
+                for (const metadata of metadataList.filter((m) => !m.isDelivered)) {
+                    const receipt = await this.recordDelivery(metadata, userId);
+                    emitToUser(metadata.senderId, "message_delivered", receipt);
+                }
+            }
+
+            return page;
+        } catch (error: any) {
+            logger.error(`❌ Error syncing events: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Replace the message references stored in `message` / `message_edited` events with the
+     * current message. Messages deleted, hidden or retracted since, and group messages from users
+     * the viewer blocked, keep only `{ id, removed: true }`, so the page stays in seq order without
+     * their content.
+     */
+    private async fillMessageEvents(events: SyncEventView[], userId: string): Promise<SyncEventView[]> {
+        const isMessageEvent = (event: SyncEventView) =>
+            (event.type === "message" || event.type === "message_edited") && !event.data.removed;
+
+        const messageIds = [...new Set(events.filter(isMessageEvent).map((event) => event.data.id as string))];
+        const messages = await this.messageRepo.getVisibleMessagesByIds(
+            messageIds,
+            userId,
+            await this.blockService.getBlockedByMe(userId)
+        );
+        const reactions = await this.reactionRepo.getReactionSummaries(messages.map(({ metadata }) => metadata.id));
+
+        const participantsByConversation = new Map<string, ConversationParticipant[]>();
+        for (const conversationId of new Set(messages.map(({ metadata }) => metadata.conversationId))) {
+            participantsByConversation.set(conversationId, await this.participantRepo.getParticipants(conversationId));
+        }
+
+        const formatted = new Map(messages.map(({ message, metadata }) => [
+            metadata.id,
+            this.formatMessage(message, metadata, participantsByConversation.get(metadata.conversationId), reactions.get(metadata.id)),
+        ]));
+
+        return events.map((event) => {
+            if (!isMessageEvent(event)) return event;
+            const message = formatted.get(event.data.id);
+            return { ...event, data: message ?? { id: event.data.id, removed: true } };
+        });
+    }
+
+    /**
+     * What the sync log keeps of a message: no content, which stays encrypted in the message store
+     */
+    private toSyncReference(metadata: MessageMetadata): Record<string, any> {
+        return { id: metadata.id, senderId: metadata.senderId };
+    }
+
+    private async recordDelivery(metadata: MessageMetadata, userId: string): Promise<DeliveryReceipt> {
+        await this.messageRepo.markAsDelivered(metadata.id);
+
+        const receipt: DeliveryReceipt = {
+            messageId: metadata.id,
+            conversationId: metadata.conversationId,
+            senderId: metadata.senderId,
+            deliveredTo: userId,
+            deliveredAt: new Date(),
+        };
+        await this.syncService.record([metadata.senderId], "message_delivered", metadata.conversationId, receipt);
+        return receipt;
+    }
+
+    /**
+     * Append an event to the sync log of every member of a conversation
+     */
+    private async recordForMembers(conversationId: string, type: SyncEventType, data: Record<string, any>): Promise<void> {
+        const participants = await this.participantRepo.getParticipants(conversationId);
+        await this.syncService.record(participants.map((p) => p.userId), type, conversationId, data);
+    }
+
+    /**
+     * Delete a message. "me" hides it from the user's own history and works for any
+     * member; "everyone" is sender-only, limited to a time window after sending,
+     * and purges the encrypted content and media.
      * @param messageId - Message ID
      * @param userId - User ID
+     * @param scope - Who the message is deleted for
+     * @returns What was deleted, for the `message_deleted` event
      */
-    async deleteMessage(messageId: string, userId: string): Promise<void> {
+    async deleteMessage(
+        messageId: string,
+        userId: string,
+        scope: MessageDeleteScope = MessageDeleteScope.EVERYONE
+    ): Promise<MessageDeletion> {
         try {
-            await this.messageRepo.deleteMessage(messageId, userId);
+            const metadata = await this.messageRepo.getMetadataById(messageId);
+            if (!metadata || metadata.isDeleted) {
+                throw new CustomGraphQLError("Message not found", HttpStatusCodes.NOT_FOUND);
+            }
+
+            const isParticipant = await this.conversationRepo.isParticipant(metadata.conversationId, userId);
+            if (!isParticipant) {
+                throw new Error("You are not a member of this conversation");
+            }
+
+            if (scope === MessageDeleteScope.ME) {
+                await this.messageRepo.hideMessageForUser(metadata, userId);
+            } else {
+                if (metadata.senderId !== userId) {
+                    throw new CustomGraphQLError("Only the sender can delete a message for everyone", HttpStatusCodes.FORBIDDEN);
+                }
+                if (Date.now() - metadata.createdAt.getTime() > DELETE_FOR_EVERYONE_WINDOW_MS) {
+                    throw new CustomGraphQLError("This message can no longer be deleted for everyone", HttpStatusCodes.BAD_REQUEST);
+                }
+
+                const mediaUrls = await this.messageRepo.retractMessage(metadata);
+                await this.reactionRepo.deleteForMessage(metadata.id);
+                await this.syncService.tombstoneMessage(metadata.id);
+
+                const conversation = await this.conversationRepo.getConversationById(metadata.conversationId);
+                if (conversation?.lastMessageAt && conversation.lastMessageAt.getTime() === metadata.createdAt.getTime()) {
+                    await this.conversationRepo.updateLastMessage(conversation.id, "🚫 Message deleted", metadata.createdAt);
+                }
+
+                // Only the sender's own uploads are removed, and only once nothing else uses them
+                await this.mediaStorageService.deleteUnreferencedUploads(metadata.senderId, mediaUrls);
+            }
+
+            const deletion: MessageDeletion = { conversationId: metadata.conversationId, messageId: metadata.id, deletedBy: userId, scope };
+            if (scope === MessageDeleteScope.ME) {
+                await this.syncService.record([userId], "message_deleted", metadata.conversationId, deletion);
+            } else {
+                await this.recordForMembers(metadata.conversationId, "message_deleted", deletion);
+            }
+
+            logger.info(`✅ Message ${messageId} deleted for ${scope} by ${userId}`);
+            return deletion;
         } catch (error: any) {
             logger.error(`❌ Error deleting message: ${error.message}`);
             throw error;
@@ -223,7 +939,12 @@ export class ChatService {
      */
     async getUnreadCount(userId: string): Promise<number> {
         try {
-            return await this.messageRepo.getUnreadCount(userId);
+            const unreadCounts = await this.participantRepo.getUnreadCounts(
+                userId,
+                undefined,
+                await this.blockService.getBlockedByMe(userId)
+            );
+            return [...unreadCounts.values()].reduce((total, count) => total + count, 0);
         } catch (error: any) {
             logger.error(`❌ Error getting unread count: ${error.message}`);
             return 0;
@@ -231,13 +952,14 @@ export class ChatService {
     }
 
     /**
-     * Block a conversation
+     * Block a direct conversation, i.e. block the other member (see BlockService)
      * @param conversationId - Conversation ID
      * @param userId - User ID
      */
     async blockConversation(conversationId: string, userId: string): Promise<void> {
         try {
-            await this.conversationRepo.blockConversation(conversationId, userId);
+            const otherUserId = await this.getDirectPartnerId(conversationId, userId);
+            await this.blockService.blockUser(userId, otherUserId);
         } catch (error: any) {
             logger.error(`❌ Error blocking conversation: ${error.message}`);
             throw error;
@@ -245,31 +967,374 @@ export class ChatService {
     }
 
     /**
-     * Unblock a conversation
+     * Unblock a direct conversation. Only the user who blocked may unblock.
      * @param conversationId - Conversation ID
+     * @param userId - User ID
      */
-    async unblockConversation(conversationId: string): Promise<void> {
+    async unblockConversation(conversationId: string, userId: string): Promise<void> {
         try {
-            await this.conversationRepo.unblockConversation(conversationId);
+            const otherUserId = await this.getDirectPartnerId(conversationId, userId);
+            if (!(await this.blockService.hasBlocked(userId, otherUserId))) {
+                throw new Error("Only the user who blocked this conversation can unblock it");
+            }
+            await this.blockService.unblockUser(userId, otherUserId);
         } catch (error: any) {
             logger.error(`❌ Error unblocking conversation: ${error.message}`);
             throw error;
         }
     }
 
+    private async getDirectPartnerId(conversationId: string, userId: string): Promise<string> {
+        const conversation = await this.conversationRepo.getConversationById(conversationId);
+        if (!conversation) {
+            throw new Error("Conversation not found");
+        }
+        if (conversation.type === ConversationType.GROUP) {
+            throw new Error("Group conversations cannot be blocked; leave the group instead");
+        }
+
+        const otherUserId = [conversation.participant1Id, conversation.participant2Id].find((id) => id !== userId);
+        if (!otherUserId) {
+            throw new Error("Conversation not found");
+        }
+        return otherUserId;
+    }
+
+    /**
+     * Get a conversation the user takes part in
+     * @param conversationId - Conversation ID
+     * @param userId - User ID
+     * @returns Formatted conversation
+     */
+    async getConversation(conversationId: string, userId: string): Promise<any> {
+        try {
+            const conversation = await this.conversationRepo.getConversationById(conversationId);
+            if (!conversation) {
+                throw new Error("Conversation not found");
+            }
+
+            const blockedSenderIds = await this.blockService.getBlockedByMe(userId);
+            const [participants, unreadCounts] = await Promise.all([
+                this.participantRepo.getParticipants(conversationId),
+                this.participantRepo.getUnreadCounts(userId, [conversationId], blockedSenderIds),
+            ]);
+            return this.formatConversation(conversation, participants, unreadCounts.get(conversationId) || 0);
+        } catch (error: any) {
+            logger.error(`❌ Error getting conversation: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the IDs of every conversation a user takes part in
+     * @param userId - User ID
+     * @returns Conversation IDs
+     */
+    async getUserConversationIds(userId: string): Promise<string[]> {
+        return this.participantRepo.getConversationIds(userId);
+    }
+
+    /**
+     * Get the members of a conversation with their roles
+     * @param conversationId - Conversation ID
+     * @returns Participants, oldest member first
+     */
+    async getConversationMembers(conversationId: string): Promise<ConversationParticipant[]> {
+        try {
+            return await this.participantRepo.getParticipants(conversationId);
+        } catch (error: any) {
+            logger.error(`❌ Error getting conversation members: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Create a group conversation; the creator becomes its first admin
+     * @param creatorId - User creating the group
+     * @param title - Group title
+     * @param memberIds - Users to add as members
+     * @param avatarUrl - Optional group avatar
+     * @returns Formatted conversation
+     */
+    async createGroupConversation(
+        creatorId: string,
+        title: string,
+        memberIds: string[],
+        avatarUrl?: string
+    ): Promise<any> {
+        try {
+            const groupTitle = this.validateGroupTitle(title);
+            const members = [...new Set(memberIds)].filter((id) => id !== creatorId);
+            await this.assertUsersExist(members);
+            if (members.length + 1 > MAX_GROUP_MEMBERS) {
+                throw new Error(`Groups can have at most ${MAX_GROUP_MEMBERS} members`);
+            }
+
+            const conversation = await this.conversationRepo.createGroupConversation(creatorId, groupTitle, avatarUrl);
+            await this.participantRepo.addParticipants(conversation.id, [creatorId], ParticipantRole.ADMIN);
+            await this.participantRepo.addParticipants(conversation.id, members);
+
+            joinConversationRoom([creatorId, ...members], conversation.id);
+            this.emitGroupEvent(conversation.id, "created", creatorId, members);
+
+            return this.getConversation(conversation.id, creatorId);
+        } catch (error: any) {
+            logger.error(`❌ Error creating group conversation: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Update a group's title and/or avatar (admins only)
+     * @param userId - Acting user
+     * @param conversationId - Group conversation ID
+     * @param details - Fields to update
+     * @returns Formatted conversation
+     */
+    async updateGroupConversation(
+        userId: string,
+        conversationId: string,
+        details: { title?: string; avatarUrl?: string }
+    ): Promise<any> {
+        try {
+            await this.requireGroupAdmin(conversationId, userId);
+
+            const updates: { title?: string; avatarUrl?: string } = {};
+            if (details.title !== undefined) updates.title = this.validateGroupTitle(details.title);
+            if (details.avatarUrl !== undefined) updates.avatarUrl = details.avatarUrl;
+
+            await this.conversationRepo.updateGroupDetails(conversationId, updates);
+            this.emitGroupEvent(conversationId, "updated", userId, []);
+
+            return this.getConversation(conversationId, userId);
+        } catch (error: any) {
+            logger.error(`❌ Error updating group conversation: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Add members to a group (admins only)
+     * @param userId - Acting user
+     * @param conversationId - Group conversation ID
+     * @param memberIds - Users to add
+     * @returns Updated member list
+     */
+    async addGroupMembers(
+        userId: string,
+        conversationId: string,
+        memberIds: string[]
+    ): Promise<ConversationParticipant[]> {
+        try {
+            await this.requireGroupAdmin(conversationId, userId);
+
+            const existing = await this.participantRepo.getParticipants(conversationId);
+            const existingIds = new Set(existing.map((p) => p.userId));
+            const newMembers = [...new Set(memberIds)].filter((id) => !existingIds.has(id));
+            await this.assertUsersExist(newMembers);
+            if (existing.length + newMembers.length > MAX_GROUP_MEMBERS) {
+                throw new Error(`Groups can have at most ${MAX_GROUP_MEMBERS} members`);
+            }
+
+            await this.participantRepo.addParticipants(conversationId, newMembers);
+            if (newMembers.length > 0) {
+                joinConversationRoom(newMembers, conversationId);
+                this.emitGroupEvent(conversationId, "members_added", userId, newMembers);
+            }
+
+            return this.participantRepo.getParticipants(conversationId);
+        } catch (error: any) {
+            logger.error(`❌ Error adding group members: ${error.message}`);
+            throw error;
+        }
+    }
+
     /**
-     * Format message with decrypted content
+     * Remove a member from a group (admins only; use leaveGroup to remove yourself)
+     * @param userId - Acting user
+     * @param conversationId - Group conversation ID
+     * @param memberId - User to remove
+     */
+    async removeGroupMember(userId: string, conversationId: string, memberId: string): Promise<void> {
+        try {
+            await this.requireGroupAdmin(conversationId, userId);
+            if (memberId === userId) {
+                throw new Error("Use leaveGroup to leave a group");
+            }
+
+            const removed = await this.participantRepo.removeParticipant(conversationId, memberId);
+            if (!removed) {
+                throw new Error("User is not a member of this group");
+            }
+
+            leaveConversationRoom([memberId], conversationId);
+            this.emitGroupEvent(conversationId, "member_removed", userId, [memberId]);
+        } catch (error: any) {
+            logger.error(`❌ Error removing group member: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Leave a group. When the last admin leaves, the longest-standing member is promoted.
+     * @param userId - User leaving
+     * @param conversationId - Group conversation ID
+     */
+    async leaveGroup(userId: string, conversationId: string): Promise<void> {
+        try {
+            await this.requireGroup(conversationId);
+
+            const removed = await this.participantRepo.removeParticipant(conversationId, userId);
+            if (!removed) {
+                throw new Error("You are not a member of this group");
+            }
+            leaveConversationRoom([userId], conversationId);
+
+            const remaining = await this.participantRepo.getParticipants(conversationId);
+            if (remaining.length > 0 && !remaining.some((p) => p.role === ParticipantRole.ADMIN)) {
+                await this.participantRepo.setRole(conversationId, remaining[0].userId, ParticipantRole.ADMIN);
+                this.emitGroupEvent(conversationId, "role_changed", userId, [remaining[0].userId]);
+            }
+
+            this.emitGroupEvent(conversationId, "member_left", userId, [userId]);
+        } catch (error: any) {
+            logger.error(`❌ Error leaving group: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Promote or demote a group member (admins only). A group always keeps at least one admin.
+     * @param userId - Acting user
+     * @param conversationId - Group conversation ID
+     * @param memberId - Member whose role changes
+     * @param role - New role
+     */
+    async setGroupMemberRole(
+        userId: string,
+        conversationId: string,
+        memberId: string,
+        role: ParticipantRole
+    ): Promise<void> {
+        try {
+            await this.requireGroupAdmin(conversationId, userId);
+
+            const participants = await this.participantRepo.getParticipants(conversationId);
+            const member = participants.find((p) => p.userId === memberId);
+            if (!member) {
+                throw new Error("User is not a member of this group");
+            }
+
+            const adminCount = participants.filter((p) => p.role === ParticipantRole.ADMIN).length;
+            if (member.role === ParticipantRole.ADMIN && role === ParticipantRole.MEMBER && adminCount === 1) {
+                throw new Error("A group needs at least one admin");
+            }
+
+            await this.participantRepo.setRole(conversationId, memberId, role);
+            this.emitGroupEvent(conversationId, "role_changed", userId, [memberId]);
+        } catch (error: any) {
+            logger.error(`❌ Error changing group member role: ${error.message}`);
+            throw error;
+        }
+    }
+
+    private async requireGroup(conversationId: string): Promise<Conversation> {
+        const conversation = await this.conversationRepo.getConversationById(conversationId);
+        if (!conversation) {
+            throw new Error("Conversation not found");
+        }
+        if (conversation.type !== ConversationType.GROUP) {
+            throw new Error("This action is only available for group conversations");
+        }
+        return conversation;
+    }
+
+    private async requireGroupAdmin(conversationId: string, userId: string): Promise<Conversation> {
+        const conversation = await this.requireGroup(conversationId);
+        const participant = await this.participantRepo.getParticipant(conversationId, userId);
+        if (participant?.role !== ParticipantRole.ADMIN) {
+            throw new Error("Only group admins can do this");
+        }
+        return conversation;
+    }
+
+    private validateGroupTitle(title: string): string {
+        const trimmed = title.trim();
+        if (!trimmed) {
+            throw new Error("Group title is required");
+        }
+        if (trimmed.length > 100) {
+            throw new Error("Group title cannot exceed 100 characters");
+        }
+        return trimmed;
+    }
+
+    private async assertUsersExist(userIds: string[]): Promise<void> {
+        if (userIds.length === 0) return;
+        const count = await this.userRepo.count({ where: { id: In(userIds) } });
+        if (count !== userIds.length) {
+            throw new Error("One or more users do not exist");
+        }
+    }
+
+    /**
+     * Tell group members (and anyone just removed) that the group changed
+     */
+    private emitGroupEvent(
+        conversationId: string,
+        action: GroupEventAction,
+        actorId: string,
+        userIds: string[]
+    ): void {
+        const event = { conversationId, action, actorId, userIds, timestamp: new Date() };
+        emitToConversation(conversationId, "group_updated", event);
+        if (action === "member_removed" || action === "member_left") {
+            emitToUsers(userIds, "group_updated", event);
+        }
+    }
+
+    private formatConversation(
+        conversation: Conversation,
+        participants: ConversationParticipant[],
+        unreadCount: number
+    ) {
+        return {
+            id: conversation.id,
+            type: conversation.type,
+            title: conversation.title,
+            avatarUrl: conversation.avatarUrl,
+            participant1Id: conversation.participant1Id,
+            participant2Id: conversation.participant2Id,
+            participantIds: participants.map((p) => p.userId),
+            lastMessageAt: conversation.lastMessageAt,
+            lastMessagePreview: conversation.lastMessagePreview,
+            isEndToEndEncrypted: conversation.isEndToEndEncrypted,
+            isBlocked: conversation.isBlocked,
+            unreadCount,
+        };
+    }
+
+    /**
+     * Format message with decrypted content. End-to-end encrypted messages are
+     * never decrypted here; their envelopes pass through as sent.
      * @param message - MongoDB message
      * @param metadata - PostgreSQL metadata
+     * @param participants - Conversation members, for read state
+     * @param reactions - Aggregated reactions on the message
      * @returns Formatted message
      */
-    private formatMessage(message: IMessage, metadata: MessageMetadata): MessageWithMetadata {
+    private formatMessage(
+        message: IMessage,
+        metadata: MessageMetadata,
+        participants: ConversationParticipant[] = [],
+        reactions: ReactionSummary[] = []
+    ): MessageWithMetadata {
         let content: string | undefined;
 
-        // Decrypt text content
-        if (message.encryptedContent && message.messageType === "text") {
+        // Decrypt server-encrypted text content
+        if (!message.isEndToEndEncrypted && message.encryptedContent && message.messageType === "text") {
             try {
-                content = decryptMessage(message.encryptedContent);
+                content = decryptMessage(message);
             } catch (error) {
                 logger.error(`Failed to decrypt message ${metadata.id}`);
                 content = "[Encrypted message]";
@@ -289,20 +1354,78 @@ export class ChatService {
             fileName: message.fileName,
             thumbnailUrl: message.thumbnailUrl,
             replyToMessageId: message.replyToMessageId,
+            isEndToEndEncrypted: message.isEndToEndEncrypted || false,
+            senderDeviceId: message.senderDeviceId,
+            envelopes: message.envelopes,
+            isEdited: message.isEdited || false,
+            editedAt: message.editedAt,
+            reactions,
             isDelivered: metadata.isDelivered,
-            isRead: metadata.isRead,
+            isRead: metadata.isRead || this.isReadByRecipients(metadata, participants),
             deliveredAt: metadata.deliveredAt,
             readAt: metadata.readAt,
             createdAt: metadata.createdAt,
         };
     }
 
+    /**
+     * Cut a snippet around the first match and locate every matching word in it
+     * @param content - Decrypted message text
+     * @param terms - Normalized search terms
+     * @returns Snippet with highlight offsets, or null unless every term starts a word
+     */
+    private buildSearchSnippet(
+        content: string,
+        terms: string[]
+    ): { snippet: string; highlights: Array<{ start: number; length: number }> } | null {
+        const matches: Array<{ start: number; length: number }> = [];
+        const matchedTerms = new Set<string>();
+
+        // Entities left by sanitizeMessageContent are skipped, like in the index
+        for (const word of content.matchAll(/&(?:#x?[0-9a-f]+|[a-z]+);|[\p{L}\p{N}]+/giu)) {
+            if (word[0].startsWith("&")) continue;
+
+            const normalized = normalizeSearchTerm(word[0]);
+            const term = terms.find((t) => normalized.startsWith(t));
+            if (term) {
+                matchedTerms.add(term);
+                matches.push({ start: word.index!, length: word[0].length });
+            }
+        }
+
+        if (matchedTerms.size < terms.length) return null;
+
+        const start = Math.max(0, matches[0].start - SNIPPET_CONTEXT_BEFORE);
+        const end = Math.min(content.length, start + SNIPPET_LENGTH);
+        const prefix = start > 0 ? "…" : "";
+        const suffix = end < content.length ? "…" : "";
+
+        return {
+            snippet: prefix + content.slice(start, end) + suffix,
+            highlights: matches
+                .filter((match) => match.start >= start && match.start + match.length <= end)
+                .map((match) => ({ start: match.start - start + prefix.length, length: match.length })),
+        };
+    }
+
+    /**
+     * A message counts as read once every other participant's read cursor has passed it
+     */
+    private isReadByRecipients(metadata: MessageMetadata, participants: ConversationParticipant[]): boolean {
+        const recipients = participants.filter((p) => p.userId !== metadata.senderId);
+        return recipients.length > 0 && recipients.every((p) => !!p.lastReadAt && p.lastReadAt >= metadata.createdAt);
+    }
+
     /**
      * Generate message preview for conversation list
      * @param params - Message parameters
      * @returns Preview text
      */
     private generateMessagePreview(params: SendMessageParams): string {
+        if (params.envelopes?.length) {
+            return "🔒 Encrypted message";
+        }
+
         switch (params.messageType) {
             case MessageType.TEXT:
                 return params.content?.substring(0, 100) || "";
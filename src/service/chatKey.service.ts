@@ -0,0 +1,297 @@
+import { DeviceKeyBundle, IDeviceKeyBundle } from '../model/deviceKeyBundleSchema';
+import { OneTimePreKey } from '../model/oneTimePreKeySchema';
+import { ConversationParticipantRepository } from '../repository/ConversationParticipantRepository';
+import { BlockService } from './block.service';
+import { redisClient } from '../config/redis';
+import { CustomGraphQLError } from '../utils/utils';
+import { HttpStatusCodes } from '../utils/constant';
+import { logger } from '../utils/logger';
+
+const MAX_PRE_KEYS_PER_DEVICE = 200;
+const MAX_PRE_KEYS_PER_UPLOAD = 100;
+const MAX_DEVICES_PER_USER = 10;
+const MAX_KEY_LENGTH = 1024; // base64 characters
+const MAX_BUNDLE_USERS = 256;
+
+// Users whose bundles one requester may claim per hour; each claim uses up a pre-key per device
+const KEY_CLAIMS_PER_HOUR = Math.max(Number(process.env.KEY_CLAIMS_PER_HOUR) || 500, MAX_BUNDLE_USERS);
+const KEY_CLAIM_WINDOW_SECONDS = 60 * 60;
+const KEY_CLAIM_PREFIX = 'key_claims:';
+
+export interface PreKeyParams {
+    keyId: number;
+    publicKey: string;
+}
+
+export interface PublishDeviceKeysParams {
+    deviceId: string;
+    registrationId?: number;
+    identityKey: string;
+    signedPreKeyId: number;
+    signedPreKey: string;
+    signedPreKeySignature: string;
+    preKeys?: PreKeyParams[];
+}
+
+export interface KeyBundle {
+    userId: string;
+    deviceId: string;
+    registrationId?: number;
+    identityKey: string;
+    signedPreKeyId: number;
+    signedPreKey: string;
+    signedPreKeySignature: string;
+    preKey?: PreKeyParams; // Absent when the device has run out of one-time pre-keys
+}
+
+/**
+ * Key directory for opt-in end-to-end encrypted chat. Devices publish their public
+ * identity key, signed pre-key and one-time pre-keys; other users claim a bundle per
+ * device to start a session. Private keys and plaintext never reach the server.
+ */
+export class ChatKeyService {
+    private participantRepo = new ConversationParticipantRepository();
+    private blockService = new BlockService();
+
+    /**
+     * Publish (or replace) a device's identity key and signed pre-key, optionally with one-time pre-keys.
+     * A new identity key means a reinstalled device, so its old one-time pre-keys are dropped.
+     * @param userId - Owner of the device
+     * @param params - Public keys
+     * @returns Remaining one-time pre-keys for the device
+     */
+    async publishDeviceKeys(userId: string, params: PublishDeviceKeysParams): Promise<number> {
+        try {
+            const deviceId = params.deviceId?.trim();
+            if (!deviceId || deviceId.length > 64) {
+                throw new Error('A deviceId of at most 64 characters is required');
+            }
+            this.assertPublicKey(params.identityKey, 'identityKey');
+            this.assertPublicKey(params.signedPreKey, 'signedPreKey');
+            this.assertPublicKey(params.signedPreKeySignature, 'signedPreKeySignature');
+
+            const existing = await DeviceKeyBundle.findOne({ userId, deviceId });
+            if (!existing) {
+                const deviceCount = await DeviceKeyBundle.countDocuments({ userId });
+                if (deviceCount >= MAX_DEVICES_PER_USER) {
+                    throw new Error(`You can register keys for at most ${MAX_DEVICES_PER_USER} devices`);
+                }
+            } else if (existing.identityKey !== params.identityKey) {
+                await OneTimePreKey.deleteMany({ userId, deviceId });
+                logger.info(`🔐 Identity key changed for user ${userId} device ${deviceId}`);
+            }
+
+            await DeviceKeyBundle.findOneAndUpdate(
+                { userId, deviceId },
+                {
+                    $set: {
+                        registrationId: params.registrationId,
+                        identityKey: params.identityKey,
+                        signedPreKeyId: params.signedPreKeyId,
+                        signedPreKey: params.signedPreKey,
+                        signedPreKeySignature: params.signedPreKeySignature,
+                    },
+                },
+                { upsert: true }
+            );
+
+            if (params.preKeys?.length) {
+                return await this.uploadPreKeys(userId, deviceId, params.preKeys);
+            }
+            return await this.getPreKeyCount(userId, deviceId);
+        } catch (error: any) {
+            logger.error(`❌ Error publishing device keys: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Add one-time pre-keys to a device; key IDs already present are ignored
+     * @param userId - Owner of the device
+     * @param deviceId - Device ID
+     * @param preKeys - Public one-time pre-keys
+     * @returns Remaining one-time pre-keys for the device
+     */
+    async uploadPreKeys(userId: string, deviceId: string, preKeys: PreKeyParams[]): Promise<number> {
+        try {
+            if (!(await DeviceKeyBundle.exists({ userId, deviceId }))) {
+                throw new Error('Publish the device identity key first');
+            }
+            if (preKeys.length === 0 || preKeys.length > MAX_PRE_KEYS_PER_UPLOAD) {
+                throw new Error(`Upload between 1 and ${MAX_PRE_KEYS_PER_UPLOAD} pre-keys at a time`);
+            }
+            preKeys.forEach((preKey) => this.assertPublicKey(preKey.publicKey, 'publicKey'));
+
+            const count = await this.getPreKeyCount(userId, deviceId);
+            if (count + preKeys.length > MAX_PRE_KEYS_PER_DEVICE) {
+                throw new Error(`A device can hold at most ${MAX_PRE_KEYS_PER_DEVICE} pre-keys`);
+            }
+
+            await OneTimePreKey.bulkWrite(
+                preKeys.map((preKey) => ({
+                    updateOne: {
+                        filter: { userId, deviceId, keyId: preKey.keyId },
+                        update: { $setOnInsert: { publicKey: preKey.publicKey } },
+                        upsert: true,
+                    },
+                }))
+            );
+
+            return await this.getPreKeyCount(userId, deviceId);
+        } catch (error: any) {
+            logger.error(`❌ Error uploading pre-keys: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Number of unclaimed one-time pre-keys a device has left
+     * @param userId - Owner of the device
+     * @param deviceId - Device ID
+     */
+    async getPreKeyCount(userId: string, deviceId: string): Promise<number> {
+        try {
+            return await OneTimePreKey.countDocuments({ userId, deviceId });
+        } catch (error: any) {
+            logger.error(`❌ Error counting pre-keys: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Remove a device's keys (logout / uninstall)
+     * @param userId - Owner of the device
+     * @param deviceId - Device ID
+     * @returns true if the device had keys
+     */
+    async removeDeviceKeys(userId: string, deviceId: string): Promise<boolean> {
+        try {
+            const result = await DeviceKeyBundle.deleteOne({ userId, deviceId });
+            await OneTimePreKey.deleteMany({ userId, deviceId });
+            return result.deletedCount > 0;
+        } catch (error: any) {
+            logger.error(`❌ Error removing device keys: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Claim a key bundle for every device of the given users. Each bundle consumes
+     * one of the device's one-time pre-keys, so only the requester's own devices and
+     * users they share a conversation with (and who have not blocked them) can be claimed,
+     * within an hourly limit.
+     * @param requesterId - User starting the sessions
+     * @param userIds - Users whose devices to fetch
+     * @returns One bundle per device
+     */
+    async claimKeyBundles(requesterId: string, userIds: string[]): Promise<KeyBundle[]> {
+        try {
+            const uniqueIds = [...new Set(userIds)];
+            if (uniqueIds.length === 0 || uniqueIds.length > MAX_BUNDLE_USERS) {
+                throw new Error(`Request keys for between 1 and ${MAX_BUNDLE_USERS} users`);
+            }
+            await this.assertCanClaim(requesterId, uniqueIds);
+            await this.consumeClaimAllowance(requesterId, uniqueIds.length);
+
+            const devices = await DeviceKeyBundle.find({ userId: { $in: uniqueIds } });
+            const bundles = await Promise.all(devices.map((device) => this.claimBundle(device)));
+
+            logger.info(`🔐 User ${requesterId} claimed ${bundles.length} key bundles`);
+            return bundles;
+        } catch (error: any) {
+            logger.error(`❌ Error claiming key bundles: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Device IDs with published keys, per user
+     * @param userIds - Users to look up
+     * @returns Map of user ID to device IDs
+     */
+    async getDeviceIds(userIds: string[]): Promise<Map<string, string[]>> {
+        try {
+            const devices = await DeviceKeyBundle.find({ userId: { $in: userIds } }).select('userId deviceId');
+            const byUser = new Map<string, string[]>();
+            for (const device of devices) {
+                byUser.set(device.userId, [...(byUser.get(device.userId) || []), device.deviceId]);
+            }
+            return byUser;
+        } catch (error: any) {
+            logger.error(`❌ Error getting devices: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Throw unless every user is the requester or shares a conversation with them,
+     * with no block either way. Blocked users get the same error so a block is not revealed.
+     */
+    private async assertCanClaim(requesterId: string, userIds: string[]): Promise<void> {
+        const others = userIds.filter((id) => id !== requesterId);
+        if (others.length === 0) return;
+
+        const [shared, blocked] = await Promise.all([
+            this.participantRepo.getSharedParticipantIds(requesterId, others),
+            this.blockService.getBlockedUserIds(requesterId),
+        ]);
+        const allowed = new Set(shared.filter((id) => !blocked.includes(id)));
+
+        if (others.some((id) => !allowed.has(id))) {
+            throw new CustomGraphQLError(
+                'You can only fetch keys for users you share a conversation with',
+                HttpStatusCodes.FORBIDDEN
+            );
+        }
+    }
+
+    /**
+     * Count claimed users against the requester's hourly allowance (fixed window in Redis).
+     * If Redis is unavailable the claim is let through rather than breaking encrypted chat.
+     */
+    private async consumeClaimAllowance(requesterId: string, userCount: number): Promise<void> {
+        const key = `${KEY_CLAIM_PREFIX}${requesterId}`;
+        let claimed: number;
+        try {
+            claimed = await redisClient.incrby(key, userCount);
+            if (claimed === userCount) {
+                await redisClient.expire(key, KEY_CLAIM_WINDOW_SECONDS);
+            }
+        } catch (error: any) {
+            logger.error(`❌ Error checking key claim limit for user ${requesterId}: ${error.message}`);
+            return;
+        }
+
+        if (claimed > KEY_CLAIMS_PER_HOUR) {
+            logger.warn(`⚠️ User ${requesterId} hit the key claim limit (${claimed}/${KEY_CLAIMS_PER_HOUR})`);
+            throw new CustomGraphQLError(
+                'Too many key requests, please try again later',
+                HttpStatusCodes.TOO_MANY_REQUESTS
+            );
+        }
+    }
+
+    private async claimBundle(device: IDeviceKeyBundle): Promise<KeyBundle> {
+        const preKey = await OneTimePreKey.findOneAndDelete(
+            { userId: device.userId, deviceId: device.deviceId },
+            { sort: { keyId: 1 } }
+        );
+
+        return {
+            userId: device.userId,
+            deviceId: device.deviceId,
+            registrationId: device.registrationId,
+            identityKey: device.identityKey,
+            signedPreKeyId: device.signedPreKeyId,
+            signedPreKey: device.signedPreKey,
+            signedPreKeySignature: device.signedPreKeySignature,
+            preKey: preKey ? { keyId: preKey.keyId, publicKey: preKey.publicKey } : undefined,
+        };
+    }
+
+    private assertPublicKey(value: string, field: string): void {
+        if (!value || value.length > MAX_KEY_LENGTH || !/^[A-Za-z0-9+/]+={0,2}$/.test(value)) {
+            throw new Error(`${field} must be a base64 string`);
+        }
+    }
+}
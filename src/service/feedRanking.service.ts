@@ -0,0 +1,176 @@
+import { Post, IPost } from '../model/postSchema';
+import { Like } from '../model/likeSchema';
+import { Comment } from '../model/commentSchema';
+import { FollowService } from './follow.service';
+import { BlockService } from './block.service';
+import { redisClient } from '../config/redis';
+import { logger } from '../utils/logger';
+
+const RANKED_FEED_PREFIX = "feed:foryou:";
+const RANKED_FEED_TTL = 300; // 5 minutes, keeps paging stable while scrolling
+
+const CANDIDATE_WINDOW_DAYS = 7;
+const MAX_CANDIDATES = 500;
+const RECENCY_HALF_LIFE_HOURS = 24;
+const DISCOVERY_INTERVAL = 4; // every 4th slot is discovery content
+
+const LIKE_WEIGHT = 1;
+const COMMENT_WEIGHT = 2;
+const SHARE_WEIGHT = 3;
+const FOLLOW_AFFINITY = 2;
+const LIKE_AFFINITY = 0.5;
+const COMMENT_AFFINITY = 1;
+
+type Candidate = Pick<IPost, 'userId' | 'stats' | 'createdAt'> & { _id: any };
+
+interface ScoredPost {
+    id: string;
+    score: number;
+}
+
+export class FeedRankingService {
+    private followService = new FollowService();
+    private blockService = new BlockService();
+
+    /**
+     * Get the ranked "For You" post IDs for a user.
+     * The ranking is cached briefly so consecutive pages come from the same ordering.
+     * @param userId - Viewing user ID
+     * @param refresh - Recompute instead of reusing a cached ranking (first page)
+     * @param petId - Optional pet to restrict candidates to
+     * @returns Post IDs, best first
+     */
+    async getRankedPostIds(userId: string, refresh: boolean, petId?: string): Promise<string[]> {
+        const key = `${RANKED_FEED_PREFIX}${userId}:${petId || "all"}`;
+
+        if (!refresh) {
+            try {
+                const cached = await redisClient.get(key);
+                if (cached) return JSON.parse(cached);
+            } catch (error: any) {
+                logger.warn(`⚠️ Ranked feed cache read failed: ${error.message}`);
+            }
+        }
+
+        const rankedIds = await this.rankPosts(userId, petId);
+
+        try {
+            await redisClient.setex(key, RANKED_FEED_TTL, JSON.stringify(rankedIds));
+        } catch (error: any) {
+            logger.warn(`⚠️ Ranked feed cache write failed: ${error.message}`);
+        }
+
+        return rankedIds;
+    }
+
+    private async rankPosts(userId: string, petId?: string): Promise<string[]> {
+        const since = new Date(Date.now() - CANDIDATE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+        const blockedIds = await this.blockService.getBlockedUserIds(userId);
+        const filter: Record<string, any> = {
+            createdAt: { $gte: since },
+            userId: { $nin: [userId, ...blockedIds] },
+            isHidden: { $ne: true },
+        };
+        if (petId) filter.petIds = petId;
+
+        const [candidates, affinity] = await Promise.all([
+            Post.find(filter)
+                .sort({ createdAt: -1 })
+                .limit(MAX_CANDIDATES)
+                .select('userId stats createdAt')
+                .lean<Candidate[]>(),
+            this.getAuthorAffinity(userId),
+        ]);
+
+        const personalized: ScoredPost[] = [];
+        const discovery: ScoredPost[] = [];
+
+        for (const post of candidates) {
+            const authorAffinity = affinity.get(post.userId) || 0;
+            const score = this.scorePost(post) * (1 + authorAffinity);
+            const entry = { id: post._id.toString(), score };
+
+            if (authorAffinity > 0) {
+                personalized.push(entry);
+            } else {
+                discovery.push(entry);
+            }
+        }
+
+        personalized.sort((a, b) => b.score - a.score);
+        discovery.sort((a, b) => b.score - a.score);
+
+        return this.interleave(personalized, discovery).map((p) => p.id);
+    }
+
+    /**
+     * Engagement score with exponential recency decay
+     */
+    private scorePost(post: Candidate): number {
+        const stats = post.stats || { likeCount: 0, commentCount: 0, shareCount: 0 };
+        const engagement =
+            stats.likeCount * LIKE_WEIGHT +
+            stats.commentCount * COMMENT_WEIGHT +
+            stats.shareCount * SHARE_WEIGHT;
+
+        const ageHours = (Date.now() - new Date(post.createdAt).getTime()) / (60 * 60 * 1000);
+        const decay = Math.pow(0.5, ageHours / RECENCY_HALF_LIFE_HOURS);
+
+        return Math.log1p(1 + engagement) * decay;
+    }
+
+    /**
+     * Affinity per author from follows and the user's recent likes/comments
+     */
+    private async getAuthorAffinity(userId: string): Promise<Map<string, number>> {
+        const affinity = new Map<string, number>();
+        const add = (authorId: string, weight: number) => {
+            if (authorId === userId) return;
+            affinity.set(authorId, (affinity.get(authorId) || 0) + weight);
+        };
+
+        const [followingIds, likes, comments] = await Promise.all([
+            this.followService.getFollowingIds(userId),
+            Like.find({ userId }).sort({ createdAt: -1 }).limit(200).select('postId').lean(),
+            Comment.find({ userId }).sort({ createdAt: -1 }).limit(200).select('postId').lean(),
+        ]);
+
+        followingIds.forEach((id) => add(id, FOLLOW_AFFINITY));
+
+        const interactedPostIds = [...likes, ...comments].map((i) => i.postId);
+        const authors = await Post.find({ _id: { $in: interactedPostIds } }).select('userId').lean();
+        const authorByPost = new Map(authors.map((p) => [p._id.toString(), p.userId]));
+
+        likes.forEach((l) => {
+            const authorId = authorByPost.get(l.postId.toString());
+            if (authorId) add(authorId, LIKE_AFFINITY);
+        });
+        comments.forEach((c) => {
+            const authorId = authorByPost.get(c.postId.toString());
+            if (authorId) add(authorId, COMMENT_AFFINITY);
+        });
+
+        return affinity;
+    }
+
+    /**
+     * Mix discovery posts into the personalized ranking at a fixed interval
+     */
+    private interleave(personalized: ScoredPost[], discovery: ScoredPost[]): ScoredPost[] {
+        const result: ScoredPost[] = [];
+        let p = 0;
+        let d = 0;
+
+        while (p < personalized.length || d < discovery.length) {
+            const discoverySlot = (result.length + 1) % DISCOVERY_INTERVAL === 0;
+
+            if ((discoverySlot && d < discovery.length) || p >= personalized.length) {
+                result.push(discovery[d++]);
+            } else {
+                result.push(personalized[p++]);
+            }
+        }
+
+        return result;
+    }
+}
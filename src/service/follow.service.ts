@@ -1,12 +1,18 @@
 import { Follow } from '../model/followSchema';
+import { NotificationService } from './notification.service';
+import { BlockService } from './block.service';
 import { logger } from '../utils/logger';
 
 export class FollowService {
+    private notificationService = new NotificationService();
+    private blockService = new BlockService();
+
     async followUser(currentUserId: string, targetUserId: string) {
         try {
             if (currentUserId === targetUserId) {
                 throw new Error("You cannot follow yourself");
             }
+            await this.blockService.assertNotBlocked(currentUserId, targetUserId, "You cannot follow this user");
 
             // Check if already following
             const existingFollow = await Follow.findOne({ followerId: currentUserId, followingId: targetUserId });
@@ -19,6 +25,13 @@ export class FollowService {
                 followingId: targetUserId
             });
 
+            await this.notificationService.notify({
+                recipientId: targetUserId,
+                actorId: currentUserId,
+                type: 'FOLLOW',
+                entityId: targetUserId
+            });
+
             logger.info(`User ${currentUserId} followed ${targetUserId}`);
             return { isFollowing: true, message: "Followed successfully" };
         } catch (error: any) {
@@ -38,6 +51,13 @@ export class FollowService {
                 return { isFollowing: false, message: "Not following" };
             }
 
+            await this.notificationService.retract({
+                recipientId: targetUserId,
+                actorId: currentUserId,
+                type: 'FOLLOW',
+                entityId: targetUserId
+            });
+
             logger.info(`User ${currentUserId} unfollowed ${targetUserId}`);
             return { isFollowing: false, message: "Unfollowed successfully" };
         } catch (error: any) {
@@ -2,21 +2,34 @@ import axios from 'axios';
 import { ImageGeneration } from '../model/imageGenerationSchema';
 import { logger } from '../utils/logger';
 import { uploadToR2 } from '../utils/s3Config';
+import { PetService } from './pet.service';
+import { ImageModerationService } from './imageModeration.service';
 
 export class ImageGenerationService {
     private readonly petRoastApiUrl = process.env.PET_ROAST_API_URL || 'http://localhost:8000/api';
+    private petService = new PetService();
+    private imageModerationService = new ImageModerationService();
 
-    async generateImage(userId: string, prompt: string, imageBuffer: Buffer, fileName: string, mimeType: string) {
+    async generateImage(userId: string, prompt: string, imageBuffer: Buffer, fileName: string, mimeType: string, petIds?: string[]) {
         logger.info(`🔄 Initiating video roast for userId: ${userId}`);
 
         try {
-            // 1. Upload to Cloudflare R2
-            const imageUrl = await uploadToR2(imageBuffer, fileName, mimeType);
+            const taggedPetIds = await this.petService.validatePetOwnership(userId, petIds);
+
+            // 1. Screen the image, then upload to Cloudflare R2
+            const verdict = await this.imageModerationService.screenUpload(imageBuffer, mimeType, {
+                userId,
+                source: 'image_generation',
+                fileName,
+            });
+            const imageUrl = await uploadToR2(imageBuffer, fileName, mimeType, userId);
+            await this.imageModerationService.attachStorageUrl(verdict, imageUrl);
 
             // 2. Create a record in MongoDB
             const generationRecord = await ImageGeneration.create({
                 userId,
                 prompt,
+                petIds: taggedPetIds,
                 inputImageLink: imageUrl,
                 status: 'processing',
             });
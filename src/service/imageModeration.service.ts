@@ -0,0 +1,225 @@
+import { createHash } from 'crypto';
+import {
+    ImageModeration,
+    IImageModeration,
+    ImageModerationCategory,
+    ImageModerationScores,
+    ImageModerationSource,
+    ImageModerationVerdict,
+} from '../model/imageModerationSchema';
+import { ReportReason, ReportTargetType } from '../model/reportSchema';
+import { ModerationService } from './moderation.service';
+import { LocalImageClassifier } from '../utils/localImageClassifier';
+import { HttpImageClassifier } from '../utils/httpImageClassifier';
+import { getObjectFromR2, getR2KeyFromUrl, uploadToQuarantine } from '../utils/s3Config';
+import { CustomGraphQLError } from '../utils/utils';
+import { HttpStatusCodes } from '../utils/constant';
+import { logger } from '../utils/logger';
+
+/**
+ * Subset of an image classifier used for moderation, so a local stub can stand in for the provider
+ */
+export interface ImageClassifier {
+    readonly name: string;
+    classify(buffer: Buffer, mimeType: string): Promise<ImageModerationScores>;
+}
+
+// Scores at or above these (0..1) reject the image outright / hold it for review
+const REJECT_THRESHOLD = Number(process.env.IMAGE_MODERATION_REJECT_THRESHOLD) || 0.9;
+const QUARANTINE_THRESHOLD = Math.min(Number(process.env.IMAGE_MODERATION_QUARANTINE_THRESHOLD) || 0.6, REJECT_THRESHOLD);
+
+// Largest post image read for classification
+const MAX_POST_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// Chat photos do not have to show a pet; everything published as pet content does
+const CATEGORIES_BY_SOURCE: Record<ImageModerationSource, ImageModerationCategory[]> = {
+    chat: ['nsfw', 'violence'],
+    image_generation: ['nsfw', 'violence', 'not_a_pet'],
+    post: ['nsfw', 'violence', 'not_a_pet'],
+};
+
+const REPORT_REASON_BY_CATEGORY: Record<ImageModerationCategory, ReportReason> = {
+    nsfw: ReportReason.NUDITY,
+    violence: ReportReason.VIOLENCE,
+    not_a_pet: ReportReason.OTHER,
+};
+
+let defaultClassifier: ImageClassifier | undefined;
+
+function getDefaultClassifier(): ImageClassifier {
+    if (!defaultClassifier) {
+        defaultClassifier = process.env.IMAGE_MODERATION_PROVIDER === 'http'
+            ? new HttpImageClassifier()
+            : new LocalImageClassifier();
+    }
+    return defaultClassifier;
+}
+
+export interface ImageUploadContext {
+    userId: string;
+    source: ImageModerationSource;
+    fileName: string;
+    conversationId?: string;
+}
+
+export class ImageModerationService {
+    private moderationService = new ModerationService();
+
+    constructor(private classifier: ImageClassifier = getDefaultClassifier()) {}
+
+    /**
+     * Classify an image before it is uploaded. Every verdict is recorded.
+     * Quarantined images are stored privately for review and, like rejected ones, refused.
+     * @param buffer - Original image bytes
+     * @param mimeType - Image MIME type
+     * @param context - Who is uploading, where, and the file name
+     * @returns The approved verdict; pass it to attachStorageUrl once the image is uploaded
+     */
+    async screenUpload(buffer: Buffer, mimeType: string, context: ImageUploadContext): Promise<IImageModeration> {
+        const record = await this.classifyAndRecord(buffer, mimeType, context.userId, context.source, context.conversationId);
+
+        if (record.verdict === 'approved') {
+            return record;
+        }
+
+        if (record.verdict === 'quarantined') {
+            try {
+                record.quarantineKey = await uploadToQuarantine(buffer, context.fileName, mimeType, context.userId);
+                await record.save();
+            } catch (error: any) {
+                // The verdict is already recorded; losing the copy must not let the image through
+                logger.error(`❌ Error quarantining image ${record.id}: ${error.message}`);
+            }
+            throw new CustomGraphQLError("This image has been held for review", HttpStatusCodes.UNPROCESSABLE_ENTITY);
+        }
+
+        throw new CustomGraphQLError("This image was rejected by content moderation", HttpStatusCodes.UNPROCESSABLE_ENTITY);
+    }
+
+    /**
+     * Link an approved verdict to the public URL the image was uploaded to,
+     * so a post reusing that URL is not classified again
+     * @param record - Verdict returned by screenUpload
+     * @param url - Public URL of the uploaded image
+     */
+    async attachStorageUrl(record: IImageModeration, url: string): Promise<void> {
+        try {
+            await ImageModeration.updateOne({ _id: record._id }, { $set: { storageUrl: url } });
+        } catch (error: any) {
+            logger.error(`❌ Error linking image verdict ${record.id} to ${url}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Screen the image a post points at. Only images in our own bucket are accepted: an image
+     * uploaded through a moderated path keeps its verdict, anything else in the bucket is read
+     * through the storage client and classified.
+     * @param userId - Author of the post
+     * @param contentUrl - Image URL
+     * @returns The verdict (approved or quarantined); rejected images throw
+     */
+    async screenPostImage(userId: string, contentUrl: string): Promise<IImageModeration> {
+        const key = getR2KeyFromUrl(contentUrl);
+        if (!key || key.startsWith('quarantine/')) {
+            throw new CustomGraphQLError("Image posts must use an image uploaded to the app", HttpStatusCodes.BAD_REQUEST);
+        }
+
+        const previous = await ImageModeration.findOne({
+            storageUrl: contentUrl,
+            source: { $in: ['image_generation', 'post'] },
+        }).sort({ createdAt: -1 });
+        if (previous && previous.verdict !== 'rejected') {
+            return previous;
+        }
+
+        const { buffer, mimeType } = await this.readStoredImage(key);
+        const record = await this.classifyAndRecord(buffer, mimeType, userId, 'post');
+
+        if (record.verdict === 'rejected') {
+            throw new CustomGraphQLError("This image was rejected by content moderation", HttpStatusCodes.UNPROCESSABLE_ENTITY);
+        }
+
+        record.storageUrl = contentUrl;
+        await record.save();
+        return record;
+    }
+
+    /**
+     * Send a post created from a quarantined image (and therefore hidden) to the moderation queue
+     * @param record - Quarantined verdict
+     * @param postId - The hidden post
+     */
+    async flagPostForReview(record: IImageModeration, postId: string): Promise<void> {
+        const [topCategory] = [...record.flaggedCategories].sort((a, b) => record.scores[b] - record.scores[a]);
+        await this.moderationService.flagForReview(
+            ReportTargetType.POST,
+            postId,
+            record.userId,
+            REPORT_REASON_BY_CATEGORY[topCategory ?? 'not_a_pet'],
+            `Image moderation (${record.provider}): ${this.describeScores(record)}`
+        );
+    }
+
+    private async classifyAndRecord(
+        buffer: Buffer,
+        mimeType: string,
+        userId: string,
+        source: ImageModerationSource,
+        conversationId?: string
+    ): Promise<IImageModeration> {
+        let scores: ImageModerationScores;
+        try {
+            scores = await this.classifier.classify(buffer, mimeType);
+        } catch (error: any) {
+            // Fail closed: an unscreened image is never uploaded
+            logger.error(`❌ Image classifier ${this.classifier.name} failed: ${error.message}`);
+            throw new CustomGraphQLError("Image moderation is unavailable, please try again", HttpStatusCodes.SERVICE_UNAVAILABLE);
+        }
+
+        const categories = CATEGORIES_BY_SOURCE[source];
+        const flaggedCategories = categories.filter((category) => scores[category] >= QUARANTINE_THRESHOLD);
+        const verdict: ImageModerationVerdict = categories.some((category) => scores[category] >= REJECT_THRESHOLD)
+            ? 'rejected'
+            : flaggedCategories.length > 0 ? 'quarantined' : 'approved';
+
+        const record = await ImageModeration.create({
+            userId,
+            source,
+            provider: this.classifier.name,
+            contentHash: createHash('sha256').update(buffer).digest('hex'),
+            mimeType,
+            size: buffer.length,
+            scores,
+            flaggedCategories,
+            verdict,
+            conversationId,
+        });
+
+        if (verdict !== 'approved') {
+            logger.warn(`⚠️ ${source} image from user ${userId} ${verdict}: ${this.describeScores(record)}`);
+        }
+        return record;
+    }
+
+    /**
+     * Read a post image from the bucket for classification
+     */
+    private async readStoredImage(key: string): Promise<{ buffer: Buffer; mimeType: string }> {
+        try {
+            const image = await getObjectFromR2(key, MAX_POST_IMAGE_BYTES);
+            if (!image.mimeType.startsWith('image/')) {
+                throw new Error(`Unexpected content type "${image.mimeType}"`);
+            }
+            return image;
+        } catch (error: any) {
+            logger.error(`❌ Error reading post image ${key}: ${error.message}`);
+            throw new CustomGraphQLError("Could not load the post image for moderation", HttpStatusCodes.BAD_REQUEST);
+        }
+    }
+
+    private describeScores(record: IImageModeration): string {
+        return CATEGORIES_BY_SOURCE[record.source]
+            .map((category) => `${category} ${record.scores[category].toFixed(2)}`)
+            .join(', ');
+    }
+}
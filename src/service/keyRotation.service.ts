@@ -0,0 +1,141 @@
+import { Message, IMessage } from "../model/messageSchema";
+import { decryptMessage, encryptMessage, getActiveKeyId, StoredCiphertext, toStoredCiphertext } from "../utils/encryption";
+import { logger } from "../utils/logger";
+
+const BATCH_SIZE = 200;
+const ROTATION_INTERVAL_MS = Number(process.env.CHAT_KEY_ROTATION_INTERVAL_MINUTES ?? 10) * 60 * 1000;
+
+/**
+ * Background job moving chat messages (and their edit history) onto the active
+ * encryption key. Once it has caught up, retired keys can be removed from
+ * CHAT_ENCRYPTION_KEYS. Safe to run on several nodes: each update only applies
+ * if the message is unchanged since it was read.
+ */
+export class KeyRotationService {
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+    private lastId: string | null = null; // Resume point within the current pass
+
+    /**
+     * Start re-encrypting in batches on an interval (CHAT_KEY_ROTATION_INTERVAL_MINUTES, 0 disables)
+     */
+    start(): void {
+        if (this.timer || ROTATION_INTERVAL_MS <= 0) return;
+
+        this.timer = setInterval(() => {
+            this.runOnce().catch((error: any) => logger.error(`❌ Key rotation run failed: ${error.message}`));
+        }, ROTATION_INTERVAL_MS);
+        this.timer.unref();
+
+        logger.info(`🔑 Chat key rotation job started (active key ${getActiveKeyId()})`);
+    }
+
+    /**
+     * Stop the background job
+     */
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Re-encrypt messages until a batch comes back short, skipping a run if one is in progress
+     * @returns Number of messages re-encrypted
+     */
+    async runOnce(): Promise<number> {
+        if (this.running) return 0;
+        this.running = true;
+
+        try {
+            let total = 0;
+            let scanned: number;
+            do {
+                const result = await this.reencryptBatch();
+                total += result.reencrypted;
+                scanned = result.scanned;
+            } while (scanned === BATCH_SIZE);
+
+            if (total > 0) {
+                logger.info(`🔑 Re-encrypted ${total} messages with key ${getActiveKeyId()}`);
+            }
+            return total;
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Re-encrypt one batch of messages still on an older key
+     * @returns Messages looked at and messages re-encrypted
+     */
+    async reencryptBatch(batchSize: number = BATCH_SIZE): Promise<{ scanned: number; reencrypted: number }> {
+        try {
+            const activeKeyId = getActiveKeyId();
+            const filter: Record<string, any> = {
+                $or: [
+                    { encryptedContent: { $exists: true }, encryptionKeyId: { $ne: activeKeyId } },
+                    { editHistory: { $elemMatch: { encryptedContent: { $exists: true }, encryptionKeyId: { $ne: activeKeyId } } } },
+                ],
+            };
+            if (this.lastId) filter._id = { $gt: this.lastId };
+
+            const messages = await Message.find(filter).sort({ _id: 1 }).limit(batchSize);
+
+            let reencrypted = 0;
+            for (const message of messages) {
+                if (await this.reencryptMessage(message, activeKeyId)) reencrypted++;
+            }
+
+            // Messages that failed (e.g. unknown key) are skipped until the next pass
+            this.lastId = messages.length === batchSize ? messages[messages.length - 1]._id.toString() : null;
+
+            return { scanned: messages.length, reencrypted };
+        } catch (error: any) {
+            logger.error(`❌ Error re-encrypting messages: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Re-encrypt a message's content and history with the active key
+     * @returns true if the message was updated
+     */
+    private async reencryptMessage(message: IMessage, activeKeyId: string): Promise<boolean> {
+        const rotate = (stored: StoredCiphertext): StoredCiphertext =>
+            stored.encryptedContent && stored.encryptionKeyId !== activeKeyId
+                ? toStoredCiphertext(encryptMessage(decryptMessage(stored)))
+                : {
+                    encryptedContent: stored.encryptedContent,
+                    encryptionKeyId: stored.encryptionKeyId,
+                    encryptionIv: stored.encryptionIv,
+                    encryptionAuthTag: stored.encryptionAuthTag,
+                };
+
+        try {
+            const current = rotate(message);
+            const editHistory = message.editHistory.map((entry) => ({
+                ...rotate(entry),
+                editedAt: entry.editedAt,
+            }));
+
+            // Only apply if the message was not edited or deleted in the meantime
+            const result = await Message.updateOne(
+                {
+                    _id: message._id,
+                    encryptedContent: message.encryptedContent,
+                    editHistory: { $size: message.editHistory.length },
+                },
+                {
+                    $set: { ...current, editHistory },
+                }
+            );
+
+            return result.modifiedCount > 0;
+        } catch (error: any) {
+            logger.error(`❌ Could not re-encrypt message ${message._id}: ${error.message}`);
+            return false;
+        }
+    }
+}
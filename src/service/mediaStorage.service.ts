@@ -0,0 +1,37 @@
+import { MediaUpload } from '../model/mediaUploadSchema';
+import { Post } from '../model/postSchema';
+import { Message } from '../model/messageSchema';
+import { ImageGeneration } from '../model/imageGenerationSchema';
+import { deleteObjectFromR2 } from '../utils/s3Config';
+import { logger } from '../utils/logger';
+
+export class MediaStorageService {
+    /**
+     * Delete the stored media a removed post or message pointed at. An object is only
+     * deleted when `ownerId` uploaded it (see MediaUpload) and no post, message or roast
+     * job still references it; other users' uploads and external URLs are left alone.
+     * Best effort: the content is already gone for users, so failures are only logged.
+     * @param ownerId - Author of the removed post or message
+     * @param urls - Media URLs it referenced
+     */
+    async deleteUnreferencedUploads(ownerId: string, urls: string[]): Promise<void> {
+        for (const url of new Set(urls)) {
+            try {
+                const upload = await MediaUpload.findOne({ url, ownerId });
+                if (!upload) continue;
+
+                const [post, message, generation] = await Promise.all([
+                    Post.exists({ contentUrl: url }),
+                    Message.exists({ $or: [{ mediaUrl: url }, { thumbnailUrl: url }] }),
+                    ImageGeneration.exists({ inputImageLink: url }),
+                ]);
+                if (post || message || generation) continue;
+
+                await deleteObjectFromR2(upload.key);
+                await upload.deleteOne();
+            } catch (error: any) {
+                logger.error(`❌ Failed to delete media ${url}: ${error.message}`);
+            }
+        }
+    }
+}
@@ -0,0 +1,313 @@
+import { Types } from 'mongoose';
+import { validate as isUuid } from 'uuid';
+import { Report, IReport, ReportReason, ReportTargetType } from '../model/reportSchema';
+import { ModerationCase, IModerationCase, ModerationCaseStatus } from '../model/moderationCaseSchema';
+import { ModerationAuditLog, ModerationAction, SYSTEM_ACTOR } from '../model/moderationAuditLogSchema';
+import { Post } from '../model/postSchema';
+import { Comment } from '../model/commentSchema';
+import { User } from '../entities/User';
+import { getDBRepository } from '../db/repository';
+import { MessageRepository } from '../repository/MessageRepository';
+import { ConversationRepository } from '../repository/ConversationRepository';
+import { logger } from '../utils/logger';
+import { buildConnection, Connection, cursorFilter } from '../utils/cursor';
+
+// Distinct reporters on an open case before its content is hidden pending review
+const AUTO_HIDE_THRESHOLD = Math.max(Number(process.env.MODERATION_AUTO_HIDE_THRESHOLD) || 3, 1);
+
+export interface ReportContentInput {
+    targetType: ReportTargetType;
+    targetId: string;
+    reason: ReportReason;
+    details?: string;
+}
+
+export interface ReportResult {
+    report: IReport;
+    alreadyReported: boolean;
+}
+
+export class ModerationService {
+    private messageRepo = new MessageRepository();
+    private conversationRepo = new ConversationRepository();
+
+    /**
+     * File a report. Reporting the same content twice returns the first report.
+     * Once an open case reaches the report threshold its content is hidden until an
+     * admin resolves or dismisses it.
+     * @param reporterId - User reporting
+     * @param input - What is reported and why
+     * @returns The report and whether it already existed
+     */
+    async reportContent(reporterId: string, input: ReportContentInput): Promise<ReportResult> {
+        try {
+            const { targetType, targetId, reason } = input;
+
+            const existing = await Report.findOne({ reporterId, targetType, targetId });
+            if (existing) {
+                return { report: existing, alreadyReported: true };
+            }
+
+            const targetOwnerId = await this.getReportableOwner(reporterId, targetType, targetId);
+
+            const moderationCase = await ModerationCase.findOneAndUpdate(
+                { targetType, targetId, status: ModerationCaseStatus.OPEN },
+                {
+                    $setOnInsert: { targetOwnerId },
+                    $inc: { reportCount: 1 },
+                    $addToSet: { reasons: reason },
+                    $set: { lastReportedAt: new Date() },
+                },
+                { upsert: true, new: true }
+            );
+
+            let report: IReport;
+            try {
+                report = await Report.create({
+                    reporterId,
+                    targetType,
+                    targetId,
+                    targetOwnerId,
+                    caseId: moderationCase.id,
+                    reason,
+                    details: input.details?.trim() || undefined,
+                });
+            } catch (error: any) {
+                // Lost a race with the same reporter's concurrent request
+                if (error.code !== 11000) throw error;
+                await ModerationCase.updateOne({ _id: moderationCase._id }, { $inc: { reportCount: -1 } });
+                const first = await Report.findOne({ reporterId, targetType, targetId });
+                return { report: first!, alreadyReported: true };
+            }
+
+            if (moderationCase.reportCount >= AUTO_HIDE_THRESHOLD && !moderationCase.isHidden) {
+                await this.autoHide(moderationCase);
+            }
+
+            logger.info(`🚩 User ${reporterId} reported ${targetType} ${targetId} (${reason})`);
+            return { report, alreadyReported: false };
+        } catch (error: any) {
+            logger.error(`❌ Error reporting content: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Open (or join) a case for content flagged by an automated check, so it reaches
+     * the moderation queue without any user report
+     * @param targetType - Kind of content
+     * @param targetId - Content ID
+     * @param targetOwnerId - Author of the content
+     * @param reason - Why it was flagged
+     * @param note - Detail for the audit log (e.g. classifier scores)
+     * @param hidden - Whether the caller already hid the content; visible content stays visible until resolved
+     * @returns The open case
+     */
+    async flagForReview(
+        targetType: ReportTargetType,
+        targetId: string,
+        targetOwnerId: string,
+        reason: ReportReason,
+        note: string,
+        hidden: boolean = true
+    ): Promise<IModerationCase> {
+        try {
+            const moderationCase = await ModerationCase.findOneAndUpdate(
+                { targetType, targetId, status: ModerationCaseStatus.OPEN },
+                {
+                    $setOnInsert: { targetOwnerId },
+                    $addToSet: { reasons: reason },
+                    ...(hidden && { $set: { isHidden: true, autoHiddenAt: new Date() } }),
+                },
+                { upsert: true, new: true }
+            );
+
+            await this.audit(moderationCase, hidden ? 'auto_hidden' : 'auto_flagged', SYSTEM_ACTOR, note);
+            logger.warn(`⚠️ ${targetType} ${targetId} flagged for review: ${note}`);
+            return moderationCase;
+        } catch (error: any) {
+            logger.error(`❌ Error flagging content for review: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Moderation queue, newest cases first
+     * @param status - Cases to list (default: open)
+     * @param limit - Page size
+     * @param after - Cursor from a previous page
+     * @returns Connection of cases
+     */
+    async getModerationQueue(
+        status: ModerationCaseStatus = ModerationCaseStatus.OPEN,
+        limit: number = 20,
+        after?: string
+    ): Promise<Connection<IModerationCase>> {
+        try {
+            const filter = { status };
+            const query = after ? { $and: [filter, cursorFilter(after, 'desc')] } : filter;
+
+            const cases = await ModerationCase.find(query)
+                .sort({ createdAt: -1, _id: -1 })
+                .limit(limit + 1);
+
+            return buildConnection(cases, limit);
+        } catch (error: any) {
+            logger.error(`❌ Error fetching moderation queue: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Reports filed under a case, oldest first
+     * @param caseId - Moderation case ID
+     * @returns Reports
+     */
+    async getCaseReports(caseId: string): Promise<IReport[]> {
+        try {
+            return await Report.find({ caseId }).sort({ createdAt: 1 });
+        } catch (error: any) {
+            logger.error(`❌ Error fetching case reports: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Confirm a violation: the content is hidden (if it was not already) and the case closed
+     * @param adminId - Admin taking the action
+     * @param caseId - Moderation case ID
+     * @param note - Optional note for the audit log
+     * @returns Closed case
+     */
+    async resolveCase(adminId: string, caseId: string, note?: string): Promise<IModerationCase> {
+        return this.closeCase(adminId, caseId, ModerationCaseStatus.RESOLVED, true, note);
+    }
+
+    /**
+     * Reject the reports: hidden content is restored and the case closed
+     * @param adminId - Admin taking the action
+     * @param caseId - Moderation case ID
+     * @param note - Optional note for the audit log
+     * @returns Closed case
+     */
+    async dismissCase(adminId: string, caseId: string, note?: string): Promise<IModerationCase> {
+        return this.closeCase(adminId, caseId, ModerationCaseStatus.DISMISSED, false, note);
+    }
+
+    private async closeCase(
+        adminId: string,
+        caseId: string,
+        status: ModerationCaseStatus.RESOLVED | ModerationCaseStatus.DISMISSED,
+        hidden: boolean,
+        note?: string
+    ): Promise<IModerationCase> {
+        try {
+            if (!Types.ObjectId.isValid(caseId)) throw new Error("Moderation case not found");
+
+            const moderationCase = await ModerationCase.findOneAndUpdate(
+                { _id: caseId, status: ModerationCaseStatus.OPEN },
+                { $set: { status, resolvedBy: adminId, resolvedAt: new Date(), resolutionNote: note } },
+                { new: true }
+            );
+            if (!moderationCase) throw new Error("Moderation case not found or already closed");
+
+            if (moderationCase.isHidden !== hidden) {
+                const exists = await this.setContentHidden(moderationCase.targetType, moderationCase.targetId, hidden);
+                moderationCase.isHidden = exists && hidden;
+                await moderationCase.save();
+            }
+
+            await this.audit(moderationCase, status === ModerationCaseStatus.RESOLVED ? 'resolved' : 'dismissed', adminId, note);
+
+            logger.info(`🛡️ Admin ${adminId} ${status} moderation case ${caseId}`);
+            return moderationCase;
+        } catch (error: any) {
+            logger.error(`❌ Error closing moderation case: ${error.message}`);
+            throw error;
+        }
+    }
+
+    private async autoHide(moderationCase: IModerationCase): Promise<void> {
+        // Users are reviewed, not hidden: the case stays in the queue without a visibility change
+        if (moderationCase.targetType === ReportTargetType.USER) return;
+
+        const claimed = await ModerationCase.findOneAndUpdate(
+            { _id: moderationCase._id, isHidden: false },
+            { $set: { isHidden: true, autoHiddenAt: new Date() } },
+            { new: true }
+        );
+        if (!claimed) return; // Another report got there first
+
+        await this.setContentHidden(claimed.targetType, claimed.targetId, true);
+        await this.audit(claimed, 'auto_hidden', SYSTEM_ACTOR, `Reached ${AUTO_HIDE_THRESHOLD} reports`);
+        logger.warn(`⚠️ ${claimed.targetType} ${claimed.targetId} hidden after ${claimed.reportCount} reports`);
+    }
+
+    /**
+     * Check the target exists and the reporter may report it
+     * @returns ID of the content's author (or the reported user)
+     */
+    private async getReportableOwner(reporterId: string, targetType: ReportTargetType, targetId: string): Promise<string> {
+        let ownerId: string | undefined;
+
+        switch (targetType) {
+            case ReportTargetType.POST: {
+                const post = Types.ObjectId.isValid(targetId) ? await Post.findById(targetId).select('userId') : null;
+                ownerId = post?.userId;
+                break;
+            }
+            case ReportTargetType.COMMENT: {
+                const comment = Types.ObjectId.isValid(targetId) ? await Comment.findById(targetId).select('userId') : null;
+                ownerId = comment?.userId;
+                break;
+            }
+            case ReportTargetType.MESSAGE: {
+                const metadata = isUuid(targetId) ? await this.messageRepo.getMetadataById(targetId) : null;
+                if (metadata && !metadata.isDeleted && (await this.conversationRepo.isParticipant(metadata.conversationId, reporterId))) {
+                    ownerId = metadata.senderId;
+                }
+                break;
+            }
+            case ReportTargetType.USER: {
+                const user = isUuid(targetId)
+                    ? await getDBRepository(User).findOne({ where: { id: targetId }, select: ['id'] })
+                    : null;
+                ownerId = user?.id;
+                break;
+            }
+        }
+
+        if (!ownerId) throw new Error(`${targetType} not found`);
+        if (ownerId === reporterId) throw new Error("You cannot report your own content");
+        return ownerId;
+    }
+
+    /**
+     * Hide or restore reported content for everyone
+     * @returns false if the content no longer exists (or cannot be hidden)
+     */
+    private async setContentHidden(targetType: ReportTargetType, targetId: string, hidden: boolean): Promise<boolean> {
+        switch (targetType) {
+            case ReportTargetType.POST:
+                return (await Post.updateOne({ _id: targetId }, { $set: { isHidden: hidden } })).matchedCount > 0;
+            case ReportTargetType.COMMENT:
+                return (await Comment.updateOne({ _id: targetId }, { $set: { isHidden: hidden } })).matchedCount > 0;
+            case ReportTargetType.MESSAGE:
+                return this.messageRepo.setMessageHidden(targetId, hidden);
+            default:
+                return false;
+        }
+    }
+
+    private async audit(moderationCase: IModerationCase, action: ModerationAction, actorId: string, note?: string): Promise<void> {
+        await ModerationAuditLog.create({
+            caseId: moderationCase.id,
+            action,
+            actorId,
+            targetType: moderationCase.targetType,
+            targetId: moderationCase.targetId,
+            reportCount: moderationCase.reportCount,
+            note,
+        });
+    }
+}
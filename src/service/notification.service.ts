@@ -0,0 +1,190 @@
+import { Notification, INotification } from '../model/notificationSchema';
+import { emitToUser } from '../socket/server';
+import { PushService } from './push.service';
+import { logger } from '../utils/logger';
+import { buildConnection, cursorFilter } from '../utils/cursor';
+
+// Activity on the same post within this window is merged into one notification
+const GROUP_WINDOW_MS = Number(process.env.NOTIFICATION_GROUP_WINDOW_HOURS || 24) * 60 * 60 * 1000;
+const LATEST_ACTORS_SHOWN = 3;
+
+export interface NotifyInput {
+    recipientId: string;
+    actorId: string;
+    type: INotification['type'];
+    entityId: string;
+}
+
+export class NotificationService {
+    private pushService = new PushService();
+
+    /**
+     * Record an actor on the recipient's notification group for (type, entityId),
+     * opening a new group when none started within the grouping window, and push
+     * the group to the recipient's sockets as a `notification` event.
+     * Self-notifications are skipped.
+     * @param input - Recipient, actor, type and related post ID
+     * @returns Updated notification group, or null when skipped
+     */
+    async notify(input: NotifyInput) {
+        const { recipientId, actorId, type, entityId } = input;
+        if (recipientId === actorId) return null;
+
+        try {
+            const now = new Date();
+            const openGroup = {
+                recipientId,
+                type,
+                entityId,
+                createdAt: { $gte: new Date(now.getTime() - GROUP_WINDOW_MS) },
+            };
+
+            // Join the open group unless the actor is already in it
+            let notification = await Notification.findOneAndUpdate(
+                { ...openGroup, actorIds: { $ne: actorId } },
+                {
+                    $push: { actorIds: { $each: [actorId], $position: 0 } },
+                    $inc: { count: 1 },
+                    $set: { actorId, isRead: false, lastActivityAt: now },
+                },
+                { new: true, sort: { createdAt: -1 } }
+            );
+
+            if (!notification) {
+                const alreadyGrouped = await Notification.exists({ ...openGroup, actorIds: actorId });
+                if (alreadyGrouped) return null;
+
+                notification = await Notification.create({
+                    recipientId,
+                    actorId,
+                    actorIds: [actorId],
+                    count: 1,
+                    type,
+                    entityId,
+                    lastActivityAt: now,
+                });
+            }
+
+            const unreadCount = await this.getUnreadCount(recipientId);
+            emitToUser(recipientId, "notification", {
+                notification: this.format(notification),
+                unreadCount,
+            });
+            await this.pushService.sendNotificationPush(notification);
+
+            return notification;
+        } catch (error: any) {
+            logger.error(`❌ Error creating notification: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Remove an actor from the most recent group they belong to (e.g. on unlike).
+     * The group is deleted once no actors remain.
+     * @param input - Recipient, actor, type and related post ID
+     */
+    async retract(input: NotifyInput) {
+        const { recipientId, actorId, type, entityId } = input;
+        if (recipientId === actorId) return;
+
+        try {
+            const group = await Notification.findOne({ recipientId, type, entityId, actorIds: actorId })
+                .sort({ createdAt: -1 });
+            if (!group) return;
+
+            group.actorIds = group.actorIds.filter((id) => id !== actorId);
+            if (group.actorIds.length === 0) {
+                await group.deleteOne();
+                return;
+            }
+
+            group.count = Math.max(group.count - 1, group.actorIds.length);
+            group.actorId = group.actorIds[0];
+            await group.save();
+        } catch (error: any) {
+            logger.error(`❌ Error retracting notification: ${error.message}`);
+            throw error;
+        }
+    }
+
+    async getNotifications(userId: string, limit: number = 20, offset: number = 0, after?: string) {
+        try {
+            const query = after
+                ? { recipientId: userId, ...cursorFilter(after, 'desc', 'lastActivityAt') }
+                : { recipientId: userId };
+
+            const notifications = await Notification.find(query)
+                .sort({ lastActivityAt: -1, _id: -1 })
+                .skip(after ? 0 : offset)
+                .limit(limit + 1);
+
+            const connection = buildConnection(notifications, limit, (n) => n.lastActivityAt);
+            const nodes = connection.nodes.map((n) => this.format(n));
+            return {
+                nodes,
+                edges: connection.edges.map((edge, i) => ({ cursor: edge.cursor, node: nodes[i] })),
+                pageInfo: connection.pageInfo,
+            };
+        } catch (error: any) {
+            logger.error(`❌ Error fetching notifications: ${error.message}`);
+            throw error;
+        }
+    }
+
+    async getUnreadCount(userId: string): Promise<number> {
+        return Notification.countDocuments({ recipientId: userId, isRead: false });
+    }
+
+    /**
+     * Mark specific notifications as read; IDs not belonging to the user are ignored
+     * @returns Remaining unread count
+     */
+    async markNotificationsRead(userId: string, notificationIds: string[]): Promise<number> {
+        try {
+            await Notification.updateMany(
+                { _id: { $in: notificationIds }, recipientId: userId, isRead: false },
+                { $set: { isRead: true } }
+            );
+            return await this.getUnreadCount(userId);
+        } catch (error: any) {
+            logger.error(`❌ Error marking notifications read: ${error.message}`);
+            throw error;
+        }
+    }
+
+    async markAllNotificationsRead(userId: string): Promise<number> {
+        try {
+            await Notification.updateMany(
+                { recipientId: userId, isRead: false },
+                { $set: { isRead: true } }
+            );
+            return 0;
+        } catch (error: any) {
+            logger.error(`❌ Error marking all notifications read: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Remove every notification about a post (used when the post is deleted)
+     */
+    async deleteForEntity(entityId: string) {
+        await Notification.deleteMany({ entityId });
+    }
+
+    private format(notification: INotification) {
+        return {
+            _id: notification._id!.toString(),
+            recipientId: notification.recipientId,
+            actorId: notification.actorId,
+            latestActorIds: notification.actorIds.slice(0, LATEST_ACTORS_SHOWN),
+            count: notification.count,
+            type: notification.type,
+            entityId: notification.entityId,
+            isRead: notification.isRead,
+            lastActivityAt: notification.lastActivityAt,
+            createdAt: notification.createdAt,
+        };
+    }
+}
@@ -0,0 +1,132 @@
+import { In } from 'typeorm';
+import { getDBRepository } from '../db/repository';
+import { Pet } from '../entities/Pet';
+import { Post } from '../model/postSchema';
+import { ImageGeneration } from '../model/imageGenerationSchema';
+import { ReportTargetType } from '../model/reportSchema';
+import { TextModerationService } from './textModeration.service';
+import { logger } from '../utils/logger';
+
+export interface PetInput {
+    name?: string;
+    species?: string;
+    breed?: string;
+    birthday?: string;
+    avatarUrl?: string;
+    bio?: string;
+}
+
+export class PetService {
+    private petRepo = getDBRepository(Pet);
+    private textModerationService = new TextModerationService();
+
+    async createPet(userId: string, input: PetInput) {
+        try {
+            if (!input.name || !input.species) {
+                throw new Error("Pet name and species are required");
+            }
+
+            const screenedBio = input.bio ? this.textModerationService.screen(input.bio, 'bio') : null;
+            const pet = this.petRepo.create({ ...input, bio: screenedBio ? screenedBio.text : input.bio, userId });
+            await this.petRepo.save(pet);
+            if (screenedBio) {
+                // Pets are not a report target: the owner's profile is reviewed
+                await this.textModerationService.flagIfNeeded(screenedBio, ReportTargetType.USER, userId, userId, 'bio');
+            }
+
+            logger.info(`🐾 Pet ${pet.id} created by user ${userId}`);
+            return pet;
+        } catch (error: any) {
+            logger.error(`❌ Error creating pet: ${error.message}`);
+            throw error;
+        }
+    }
+
+    async updatePet(userId: string, petId: string, input: PetInput) {
+        try {
+            const pet = await this.getOwnedPet(userId, petId);
+
+            if (input.name !== undefined) pet.name = input.name;
+            if (input.species !== undefined) pet.species = input.species;
+            if (input.breed !== undefined) pet.breed = input.breed;
+            if (input.birthday !== undefined) pet.birthday = input.birthday;
+            if (input.avatarUrl !== undefined) pet.avatarUrl = input.avatarUrl;
+            const screenedBio = input.bio ? this.textModerationService.screen(input.bio, 'bio') : null;
+            if (input.bio !== undefined) pet.bio = screenedBio ? screenedBio.text : input.bio;
+
+            await this.petRepo.save(pet);
+            if (screenedBio) {
+                await this.textModerationService.flagIfNeeded(screenedBio, ReportTargetType.USER, userId, userId, 'bio');
+            }
+            logger.info(`🐾 Pet ${petId} updated by user ${userId}`);
+            return pet;
+        } catch (error: any) {
+            logger.error(`❌ Error updating pet: ${error.message}`);
+            throw error;
+        }
+    }
+
+    async deletePet(userId: string, petId: string) {
+        try {
+            const pet = await this.getOwnedPet(userId, petId);
+            await this.petRepo.remove(pet);
+
+            // Untag the pet from posts and roast jobs
+            await Post.updateMany({ petIds: petId }, { $pull: { petIds: petId } });
+            await ImageGeneration.updateMany({ petIds: petId }, { $pull: { petIds: petId } });
+
+            logger.info(`🐾 Pet ${petId} deleted by user ${userId}`);
+        } catch (error: any) {
+            logger.error(`❌ Error deleting pet: ${error.message}`);
+            throw error;
+        }
+    }
+
+    async getPetById(petId: string) {
+        try {
+            const pet = await this.petRepo.findOne({ where: { id: petId } });
+            if (!pet) throw new Error("Pet not found");
+            return pet;
+        } catch (error: any) {
+            logger.error(`❌ Error fetching pet: ${error.message}`);
+            throw error;
+        }
+    }
+
+    async getUserPets(userId: string) {
+        try {
+            return await this.petRepo.find({
+                where: { userId },
+                order: { createdAt: "ASC" },
+            });
+        } catch (error: any) {
+            logger.error(`❌ Error fetching pets for user ${userId}: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Ensure every pet being tagged belongs to the given user
+     * @param userId - Owner user ID
+     * @param petIds - Pet IDs to tag
+     * @returns De-duplicated pet IDs
+     */
+    async validatePetOwnership(userId: string, petIds?: string[]): Promise<string[]> {
+        const uniqueIds = Array.from(new Set(petIds || []));
+        if (uniqueIds.length === 0) return [];
+
+        const ownedCount = await this.petRepo.count({ where: { id: In(uniqueIds), userId } });
+        if (ownedCount !== uniqueIds.length) {
+            throw new Error("You can only tag your own pets");
+        }
+
+        return uniqueIds;
+    }
+
+    private async getOwnedPet(userId: string, petId: string) {
+        const pet = await this.petRepo.findOne({ where: { id: petId } });
+        if (!pet) throw new Error("Pet not found");
+        if (pet.userId !== userId) throw new Error("You can only modify your own pets");
+        return pet;
+    }
+}
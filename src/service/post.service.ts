@@ -1,30 +1,67 @@
+import { Types } from 'mongoose';
 import { Post } from '../model/postSchema';
 import { Like } from '../model/likeSchema';
-import { Comment } from '../model/commentSchema';
-import { Notification } from '../model/notificationSchema';
+import { Comment, IComment } from '../model/commentSchema';
+import { CommentLike } from '../model/commentLikeSchema';
+import { ReportTargetType } from '../model/reportSchema';
 import { FollowService } from './follow.service';
+import { BlockService } from './block.service';
+import { PetService } from './pet.service';
+import { FeedRankingService } from './feedRanking.service';
+import { NotificationService } from './notification.service';
+import { ImageModerationService } from './imageModeration.service';
+import { TextModerationService } from './textModeration.service';
+import { MediaStorageService } from './mediaStorage.service';
+import { CustomGraphQLError } from '../utils/utils';
+import { HttpStatusCodes } from '../utils/constant';
 import { logger } from '../utils/logger';
+import { buildConnection, Connection, buildOffsetConnection, cursorFilter, decodeOffsetCursor } from '../utils/cursor';
 
 export class PostService {
     private followService = new FollowService();
-    async createPost(userId: string, contentUrl: string, type: string, caption?: string) {
+    private blockService = new BlockService();
+    private petService = new PetService();
+    private feedRanking = new FeedRankingService();
+    private notificationService = new NotificationService();
+    private imageModerationService = new ImageModerationService();
+    private textModerationService = new TextModerationService();
+    private mediaStorageService = new MediaStorageService();
+
+    async createPost(userId: string, contentUrl: string, type: string, caption?: string, petIds?: string[]) {
         try {
             const validTypes = ['video', 'image'];
             if (!validTypes.includes(type)) {
                 throw new Error("Invalid post type. Must be 'video' or 'image'");
             }
 
+            const taggedPetIds = await this.petService.validatePetOwnership(userId, petIds);
+            const screenedCaption = caption ? this.textModerationService.screen(caption, 'caption') : null;
+
+            // Quarantined images are published hidden until a moderator reviews them
+            const imageVerdict = type === 'image'
+                ? await this.imageModerationService.screenPostImage(userId, contentUrl)
+                : null;
+            const quarantined = imageVerdict?.verdict === 'quarantined';
+
             const newPost = await Post.create({
                 userId,
                 contentUrl,
                 type,
-                caption,
+                caption: screenedCaption ? screenedCaption.text : caption,
+                petIds: taggedPetIds,
+                isHidden: quarantined,
                 stats: {
                     likeCount: 0,
                     commentCount: 0,
                     shareCount: 0
                 }
             });
+            if (imageVerdict && quarantined) {
+                await this.imageModerationService.flagPostForReview(imageVerdict, newPost.id);
+            }
+            if (screenedCaption) {
+                await this.textModerationService.flagIfNeeded(screenedCaption, ReportTargetType.POST, newPost.id, userId, 'caption');
+            }
             logger.info(`📝 Post created by user ${userId}`);
             return newPost;
         } catch (error: any) {
@@ -33,42 +70,168 @@ export class PostService {
         }
     }
 
-    async getFeed(currentUserId: string, limit: number = 20, offset: number = 0) {
+    /**
+     * Edit a post's caption or tagged pets as its author, or as an admin (tagged pets must still be the author's)
+     */
+    async updatePost(
+        userId: string,
+        postId: string,
+        updates: { caption?: string; petIds?: string[] },
+        isAdmin: boolean = false
+    ) {
+        try {
+            const post = await Post.findById(postId);
+            if (!post) throw new Error("Post not found");
+            if (post.userId !== userId && !isAdmin) throw new Error("You can only edit your own posts");
+
+            const screenedCaption = updates.caption ? this.textModerationService.screen(updates.caption, 'caption') : null;
+            if (updates.caption !== undefined) post.caption = screenedCaption ? screenedCaption.text : updates.caption;
+            if (updates.petIds !== undefined) {
+                post.petIds = await this.petService.validatePetOwnership(post.userId, updates.petIds);
+            }
+
+            await post.save();
+            if (screenedCaption) {
+                await this.textModerationService.flagIfNeeded(screenedCaption, ReportTargetType.POST, post.id, post.userId, 'caption');
+            }
+            logger.info(`✏️ Post ${postId} updated by ${post.userId === userId ? 'user' : 'admin'} ${userId}`);
+            return post;
+        } catch (error: any) {
+            logger.error(`❌ Error updating post: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Delete a post along with its likes, comments, notifications and uploaded media,
+     * as its author or as an admin
+     */
+    async deletePost(userId: string, postId: string, isAdmin: boolean = false) {
+        try {
+            const post = await Post.findById(postId);
+            if (!post) throw new Error("Post not found");
+            if (post.userId !== userId && !isAdmin) throw new Error("You can only delete your own posts");
+
+            const commentIds = await Comment.find({ postId }).distinct('_id');
+            await Promise.all([
+                Like.deleteMany({ postId }),
+                CommentLike.deleteMany({ commentId: { $in: commentIds.map(String) } }),
+                Comment.deleteMany({ postId }),
+                this.notificationService.deleteForEntity(postId)
+            ]);
+            await Post.findByIdAndDelete(postId);
+            logger.info(`🗑️ Post ${postId} deleted by ${post.userId === userId ? 'user' : 'admin'} ${userId}`);
+
+            // Only the author's own upload is removed, and only once nothing else uses it
+            await this.mediaStorageService.deleteUnreferencedUploads(post.userId, [post.contentUrl]);
+        } catch (error: any) {
+            logger.error(`❌ Error deleting post: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the chronological feed of followed users' and own posts.
+     * Pages by opaque `after` cursor; `offset` is still honoured when no cursor is given.
+     */
+    async getFeed(currentUserId: string, limit: number = 20, offset: number = 0, petId?: string, after?: string) {
         try {
             // Get users the current user follows
             const followingIds = await this.followService.getFollowingIds(currentUserId);
             // Include own posts
             followingIds.push(currentUserId);
 
-            const posts = await Post.find({ userId: { $in: followingIds } })
-                .sort({ createdAt: -1 })
-                .skip(offset)
-                .limit(limit)
-                .lean();
+            const filter: Record<string, any> = { userId: { $in: followingIds } };
+            if (petId) filter.petIds = petId;
 
-            // Enrich with "isLikedByMe"
-            const postIds = posts.map(p => p._id);
+            return await this.findPostsPage(currentUserId, filter, limit, offset, after);
+        } catch (error: any) {
+            logger.error(`❌ Error fetching feed: ${error.message}`);
+            throw error;
+        }
+    }
 
-            // Find which ones the current user liked
-            const userLikes = await Like.find({
-                userId: currentUserId,
-                postId: { $in: postIds }
-            }).select('postId');
+    /**
+     * Get the ranked "For You" feed, which scores recent posts by engagement,
+     * recency and author affinity and mixes in content beyond the follow graph.
+     */
+    async getForYouFeed(currentUserId: string, limit: number = 20, offset: number = 0, petId?: string, after?: string) {
+        try {
+            const start = after ? decodeOffsetCursor(after) : offset;
+            // Re-rank on the first page, reuse the cached ranking while scrolling
+            const rankedIds = await this.feedRanking.getRankedPostIds(currentUserId, start === 0, petId);
+            const pageIds = rankedIds.slice(start, start + limit);
 
-            const likedPostIds = new Set(userLikes.map(l => l.postId.toString()));
+            // The ranking may be cached from before a block; drop those authors from the page
+            const blockedIds = await this.blockService.getBlockedUserIds(currentUserId);
+            const posts = await Post.find({ _id: { $in: pageIds }, userId: { $nin: blockedIds }, isHidden: { $ne: true } }).lean();
+            const postsById = new Map(posts.map(p => [p._id.toString(), p]));
+            const ordered = pageIds.map(id => postsById.get(id)).filter(Boolean);
 
-            return posts.map(post => ({
-                ...post,
-                _id: post._id.toString(),
-                isLikedByMe: likedPostIds.has(post._id.toString())
-            }));
+            const enriched = await this.withLikedByMe(currentUserId, ordered);
+            return buildOffsetConnection(enriched, start, rankedIds.length > start + limit);
+        } catch (error: any) {
+            logger.error(`❌ Error fetching ranked feed: ${error.message}`);
+            throw error;
+        }
+    }
 
+    async getPetPosts(currentUserId: string, petId: string, limit: number = 20, offset: number = 0, after?: string) {
+        try {
+            const blockedIds = await this.blockService.getBlockedUserIds(currentUserId);
+            return await this.findPostsPage(
+                currentUserId,
+                { petIds: petId, userId: { $nin: blockedIds } },
+                limit,
+                offset,
+                after
+            );
         } catch (error: any) {
-            logger.error(`❌ Error fetching feed: ${error.message}`);
+            logger.error(`❌ Error fetching posts for pet ${petId}: ${error.message}`);
             throw error;
         }
     }
 
+    private async findPostsPage(
+        currentUserId: string,
+        filter: Record<string, any>,
+        limit: number,
+        offset: number,
+        after?: string
+    ) {
+        const visible = { ...filter, isHidden: { $ne: true } };
+        const query = after ? { $and: [visible, cursorFilter(after, 'desc')] } : visible;
+
+        // Fetch one extra post to know whether another page exists
+        const posts = await Post.find(query)
+            .sort({ createdAt: -1, _id: -1 })
+            .skip(after ? 0 : offset)
+            .limit(limit + 1)
+            .lean();
+
+        const enriched = await this.withLikedByMe(currentUserId, posts);
+        return buildConnection(enriched, limit);
+    }
+
+    private async withLikedByMe(currentUserId: string, posts: any[]) {
+        // Enrich with "isLikedByMe"
+        const postIds = posts.map(p => p._id);
+
+        // Find which ones the current user liked
+        const userLikes = await Like.find({
+            userId: currentUserId,
+            postId: { $in: postIds }
+        }).select('postId');
+
+        const likedPostIds = new Set(userLikes.map(l => l.postId.toString()));
+
+        return posts.map(post => ({
+            ...post,
+            _id: post._id.toString(),
+            isLikedByMe: likedPostIds.has(post._id.toString())
+        }));
+    }
+
     async toggleLike(userId: string, postId: string) {
         try {
             // Check if post exists
@@ -80,6 +243,12 @@ export class PostService {
             if (existingLike) {
                 // Unlike
                 await Like.findByIdAndDelete(existingLike._id);
+                await this.notificationService.retract({
+                    recipientId: post.userId,
+                    actorId: userId,
+                    type: 'LIKE',
+                    entityId: postId
+                });
                 // Atomic decrement
                 const updatedPost = await Post.findByIdAndUpdate(
                     postId,
@@ -89,6 +258,7 @@ export class PostService {
                 return { isLiked: false, stats: updatedPost?.stats };
             } else {
                 // Like
+                await this.blockService.assertNotBlocked(userId, post.userId, "You cannot like this post");
                 await Like.create({ userId, postId });
                 // Atomic increment
                 const updatedPost = await Post.findByIdAndUpdate(
@@ -99,7 +269,7 @@ export class PostService {
 
                 // Notify author if liker is not author
                 if (post.userId !== userId) {
-                    await Notification.create({
+                    await this.notificationService.notify({
                         recipientId: post.userId,
                         actorId: userId,
                         type: 'LIKE',
@@ -115,20 +285,40 @@ export class PostService {
         }
     }
 
-    async addComment(userId: string, postId: string, text: string) {
+    /**
+     * Add a comment to a post, or a reply when `parentCommentId` is given.
+     * Replies to a reply are attached to the top-level comment so threads stay one level deep.
+     */
+    async addComment(userId: string, postId: string, text: string, parentCommentId?: string) {
         try {
             // Check if post exists
             const post = await Post.findById(postId);
             if (!post) throw new Error("Post not found");
+            await this.blockService.assertNotBlocked(userId, post.userId, "You cannot comment on this post");
+
+            let threadRootId: string | null = null;
+            let parent: IComment | null = null;
+            if (parentCommentId) {
+                parent = Types.ObjectId.isValid(parentCommentId) ? await Comment.findById(parentCommentId) : null;
+                if (!parent || parent.postId !== postId) {
+                    throw new CustomGraphQLError("Parent comment not found", HttpStatusCodes.NOT_FOUND);
+                }
+                threadRootId = parent.parentCommentId || parent.id;
+            }
 
-            const comment = await Comment.create({ userId, postId, text });
+            const screened = this.textModerationService.screen(text, 'comment');
+            const comment = await Comment.create({ userId, postId, text: screened.text, parentCommentId: threadRootId });
+            await this.textModerationService.flagIfNeeded(screened, ReportTargetType.COMMENT, comment.id, userId, 'comment');
 
-            // Increment comment count
+            // Increment comment count (replies count towards the post total)
             await Post.findByIdAndUpdate(postId, { $inc: { 'stats.commentCount': 1 } });
+            if (threadRootId) {
+                await Comment.findByIdAndUpdate(threadRootId, { $inc: { replyCount: 1 } });
+            }
 
             // Notify author
             if (post.userId !== userId) {
-                await Notification.create({
+                await this.notificationService.notify({
                     recipientId: post.userId,
                     actorId: userId,
                     type: 'COMMENT',
@@ -136,6 +326,16 @@ export class PostService {
                 });
             }
 
+            // Notify the comment being replied to
+            if (parent && parent.userId !== userId && parent.userId !== post.userId) {
+                await this.notificationService.notify({
+                    recipientId: parent.userId,
+                    actorId: userId,
+                    type: 'REPLY',
+                    entityId: postId
+                });
+            }
+
             return comment;
         } catch (error: any) {
             logger.error(`❌ Error adding comment: ${error.message}`);
@@ -143,40 +343,286 @@ export class PostService {
         }
     }
 
-    async getComments(postId: string, limit: number = 50, offset: number = 0) {
+    async updateComment(userId: string, commentId: string, text: string) {
         try {
-            return await Comment.find({ postId })
-                .sort({ createdAt: 1 })
-                .skip(offset)
-                .limit(limit);
+            const comment = await this.findCommentOrThrow(commentId);
+            if (comment.userId !== userId) throw new Error("You can only edit your own comments");
+
+            const screened = this.textModerationService.screen(text, 'comment');
+            comment.text = screened.text;
+            await comment.save();
+            await this.textModerationService.flagIfNeeded(screened, ReportTargetType.COMMENT, comment.id, userId, 'comment');
+            return comment;
         } catch (error: any) {
-            logger.error(`❌ Error fetching comments: ${error.message}`);
+            logger.error(`❌ Error updating comment: ${error.message}`);
             throw error;
         }
     }
 
-    async trackShare(postId: string) {
+    /**
+     * Delete a comment as its author or the post owner.
+     * Deleting a top-level comment removes its replies too, and the COMMENT / REPLY
+     * notifications they raised are withdrawn.
+     */
+    async deleteComment(userId: string, commentId: string) {
         try {
+            const comment = await this.findCommentOrThrow(commentId);
+
+            const post = await Post.findById(comment.postId);
+            if (comment.userId !== userId && post?.userId !== userId) {
+                throw new Error("You can only delete your own comments or comments on your posts");
+            }
+
+            const replies = comment.parentCommentId
+                ? []
+                : await Comment.find({ parentCommentId: commentId }).select('userId parentCommentId');
+            const replyIds = replies.map((reply) => reply.id);
+            const removedIds = [commentId, ...replyIds];
+
+            await Promise.all([
+                Comment.deleteMany({ _id: { $in: removedIds } }),
+                CommentLike.deleteMany({ commentId: { $in: removedIds } })
+            ]);
+
+            if (comment.parentCommentId) {
+                await Comment.findByIdAndUpdate(comment.parentCommentId, { $inc: { replyCount: -1 } });
+            }
+
             const updatedPost = await Post.findByIdAndUpdate(
-                postId,
-                { $inc: { 'stats.shareCount': 1 } },
+                comment.postId,
+                { $inc: { 'stats.commentCount': -removedIds.length } },
                 { new: true }
             );
+            if (post) {
+                await this.retractCommentNotifications(post.id, post.userId, [comment, ...replies]);
+            }
+            logger.info(`🗑️ Comment ${commentId} deleted by user ${userId} (${replyIds.length} replies)`);
             return updatedPost?.stats;
         } catch (error: any) {
-            logger.error(`❌ Error tracking share: ${error.message}`);
+            logger.error(`❌ Error deleting comment: ${error.message}`);
             throw error;
         }
     }
 
-    async getNotifications(userId: string, limit: number = 20, offset: number = 0) {
+    /**
+     * Withdraw the notifications raised by deleted comments. An author who still has another
+     * comment on the post (or another reply in the same person's threads) keeps their notification.
+     * Failures are logged: the comments are already gone.
+     */
+    private async retractCommentNotifications(postId: string, postOwnerId: string, removed: IComment[]) {
         try {
-            return await Notification.find({ recipientId: userId })
-                .sort({ createdAt: -1 })
-                .skip(offset)
-                .limit(limit);
+            for (const authorId of new Set(removed.map((c) => c.userId))) {
+                if (!(await Comment.exists({ postId, userId: authorId }))) {
+                    await this.notificationService.retract({
+                        recipientId: postOwnerId,
+                        actorId: authorId,
+                        type: 'COMMENT',
+                        entityId: postId
+                    });
+                }
+            }
+
+            // Replies notified the author of the comment they belong to, unless that is the post owner
+            const rootIds = [...new Set(removed.filter((c) => c.parentCommentId).map((c) => c.parentCommentId!))];
+            const roots = rootIds.length
+                ? await Comment.find({ _id: { $in: rootIds } }).select('userId')
+                : [];
+            const deletedRoot = removed.find((c) => !c.parentCommentId);
+            const rootAuthors = new Map<string, string>(roots.map((root) => [root.id, root.userId]));
+            if (deletedRoot) rootAuthors.set(deletedRoot.id, deletedRoot.userId);
+
+            const retracted = new Set<string>();
+            for (const reply of removed.filter((c) => c.parentCommentId)) {
+                const recipientId = rootAuthors.get(reply.parentCommentId!);
+                const key = `${recipientId}:${reply.userId}`;
+                if (!recipientId || recipientId === postOwnerId || retracted.has(key)) continue;
+                retracted.add(key);
+
+                const recipientRootIds = await Comment.find({ postId, userId: recipientId, parentCommentId: null }).distinct('_id');
+                const stillReplying = await Comment.exists({
+                    postId,
+                    userId: reply.userId,
+                    parentCommentId: { $in: recipientRootIds.map(String) }
+                });
+                if (!stillReplying) {
+                    await this.notificationService.retract({
+                        recipientId,
+                        actorId: reply.userId,
+                        type: 'REPLY',
+                        entityId: postId
+                    });
+                }
+            }
         } catch (error: any) {
-            logger.error(`❌ Error fetching notifications: ${error.message}`);
+            logger.error(`❌ Error retracting comment notifications for post ${postId}: ${error.message}`);
+        }
+    }
+
+    async toggleCommentLike(userId: string, commentId: string) {
+        try {
+            const comment = await this.findCommentOrThrow(commentId);
+
+            const existingLike = await CommentLike.findOne({ userId, commentId });
+
+            if (existingLike) {
+                // Unlike
+                await CommentLike.findByIdAndDelete(existingLike._id);
+                await this.notificationService.retract({
+                    recipientId: comment.userId,
+                    actorId: userId,
+                    type: 'COMMENT_LIKE',
+                    entityId: comment.postId
+                });
+                // Atomic decrement
+                const updatedComment = await Comment.findByIdAndUpdate(
+                    commentId,
+                    { $inc: { likeCount: -1 } },
+                    { new: true }
+                );
+                return { isLiked: false, likeCount: updatedComment?.likeCount ?? 0 };
+            } else {
+                // Like
+                await this.blockService.assertNotBlocked(userId, comment.userId, "You cannot like this comment");
+                await CommentLike.create({ userId, commentId });
+                // Atomic increment
+                const updatedComment = await Comment.findByIdAndUpdate(
+                    commentId,
+                    { $inc: { likeCount: 1 } },
+                    { new: true }
+                );
+
+                // Notify comment author if liker is not author
+                if (comment.userId !== userId) {
+                    await this.notificationService.notify({
+                        recipientId: comment.userId,
+                        actorId: userId,
+                        type: 'COMMENT_LIKE',
+                        entityId: comment.postId
+                    });
+                }
+
+                return { isLiked: true, likeCount: updatedComment?.likeCount ?? 1 };
+            }
+        } catch (error: any) {
+            logger.error(`❌ Error toggling comment like: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Get a post's top-level comments, each with its first `replyLimit` replies
+     */
+    async getComments(
+        currentUserId: string,
+        postId: string,
+        limit: number = 50,
+        offset: number = 0,
+        after?: string,
+        replyLimit: number = 3
+    ) {
+        try {
+            const filter = { postId, parentCommentId: null, isHidden: { $ne: true } };
+            const query = after ? { ...filter, ...cursorFilter(after, 'asc') } : filter;
+
+            const comments = await Comment.find(query)
+                .sort({ createdAt: 1, _id: 1 })
+                .skip(after ? 0 : offset)
+                .limit(limit + 1)
+                .lean();
+
+            const connection = buildConnection(comments, limit);
+            const replies = replyLimit > 0
+                ? await Promise.all(connection.nodes.map(c =>
+                    Comment.find({ postId, parentCommentId: c._id.toString(), isHidden: { $ne: true } })
+                        .sort({ createdAt: 1, _id: 1 })
+                        .limit(replyLimit)
+                        .lean()
+                ))
+                : connection.nodes.map(() => []);
+
+            const enriched = await this.withCommentLikedByMe(currentUserId, [...connection.nodes, ...replies.flat()]);
+            const byId = new Map(enriched.map(c => [c._id, c]));
+            const nodes = connection.nodes.map((c, i) => ({
+                ...byId.get(c._id.toString()),
+                replies: replies[i].map(r => byId.get(r._id.toString()))
+            }));
+
+            return this.replaceNodes(connection, nodes);
+        } catch (error: any) {
+            logger.error(`❌ Error fetching comments: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Page through the replies of a top-level comment, oldest first
+     */
+    async getCommentReplies(currentUserId: string, commentId: string, limit: number = 20, after?: string) {
+        try {
+            if (!Types.ObjectId.isValid(commentId)) {
+                throw new CustomGraphQLError("Comment not found", HttpStatusCodes.NOT_FOUND);
+            }
+            const filter = { parentCommentId: commentId, isHidden: { $ne: true } };
+            const query = after ? { ...filter, ...cursorFilter(after, 'asc') } : filter;
+
+            const replies = await Comment.find(query)
+                .sort({ createdAt: 1, _id: 1 })
+                .limit(limit + 1)
+                .lean();
+
+            const connection = buildConnection(replies, limit);
+            const nodes = await this.withCommentLikedByMe(currentUserId, connection.nodes);
+            return this.replaceNodes(connection, nodes);
+        } catch (error: any) {
+            logger.error(`❌ Error fetching comment replies: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * @throws CustomGraphQLError 404 when the ID is malformed or no such comment exists
+     */
+    private async findCommentOrThrow(commentId: string): Promise<IComment> {
+        const comment = Types.ObjectId.isValid(commentId) ? await Comment.findById(commentId) : null;
+        if (!comment) throw new CustomGraphQLError("Comment not found", HttpStatusCodes.NOT_FOUND);
+        return comment;
+    }
+
+    private async withCommentLikedByMe(currentUserId: string, comments: any[]) {
+        const commentIds = comments.map(c => c._id.toString());
+
+        const userLikes = await CommentLike.find({
+            userId: currentUserId,
+            commentId: { $in: commentIds }
+        }).select('commentId');
+
+        const likedCommentIds = new Set(userLikes.map(l => l.commentId));
+
+        return comments.map(comment => ({
+            ...comment,
+            _id: comment._id.toString(),
+            isLikedByMe: likedCommentIds.has(comment._id.toString())
+        }));
+    }
+
+    private replaceNodes<T, U>(connection: Connection<T>, nodes: U[]): Connection<U> {
+        return {
+            nodes,
+            edges: connection.edges.map((edge, i) => ({ cursor: edge.cursor, node: nodes[i] })),
+            pageInfo: connection.pageInfo
+        };
+    }
+
+    async trackShare(postId: string) {
+        try {
+            const updatedPost = await Post.findByIdAndUpdate(
+                postId,
+                { $inc: { 'stats.shareCount': 1 } },
+                { new: true }
+            );
+            return updatedPost?.stats;
+        } catch (error: any) {
+            logger.error(`❌ Error tracking share: ${error.message}`);
             throw error;
         }
     }
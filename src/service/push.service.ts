@@ -0,0 +1,195 @@
+import { BatchResponse, MulticastMessage } from 'firebase-admin/messaging';
+import admin from '../config/firebase';
+import { DeviceToken, DevicePlatform } from '../model/deviceTokenSchema';
+import { INotification } from '../model/notificationSchema';
+import { User } from '../entities/User';
+import { getDBRepository } from '../db/repository';
+import { getUserStatus } from '../socket/handlers/statusHandler';
+import { FakeMessagingClient } from '../utils/fakeMessagingClient';
+import { MessageWithMetadata } from './chat.service';
+import { MessageType } from '../entities/MessageMetadata';
+import { ConversationType } from '../entities/Conversation';
+import { ConversationRepository } from '../repository/ConversationRepository';
+import { ConversationParticipantRepository } from '../repository/ConversationParticipantRepository';
+import { logger } from '../utils/logger';
+
+// FCM error codes meaning the token will never work again
+const INVALID_TOKEN_ERRORS = [
+    'messaging/registration-token-not-registered',
+    'messaging/invalid-registration-token',
+];
+
+const ACTIVITY_TEXT: Record<INotification['type'], string> = {
+    LIKE: 'liked your post',
+    COMMENT: 'commented on your post',
+    REPLY: 'replied to your comment',
+    COMMENT_LIKE: 'liked your comment',
+    FOLLOW: 'started following you',
+};
+
+const MEDIA_PREVIEW: Record<MessageType, string> = {
+    [MessageType.TEXT]: '',
+    [MessageType.IMAGE]: '📷 Photo',
+    [MessageType.VIDEO]: '🎥 Video',
+    [MessageType.FILE]: '📎 File',
+};
+
+export interface PushMessagingClient {
+    sendEachForMulticast(message: MulticastMessage): Promise<BatchResponse>;
+}
+
+export interface PushPayload {
+    title: string;
+    body: string;
+    data?: Record<string, string>;
+}
+
+let defaultClient: PushMessagingClient | null = null;
+
+function getDefaultMessagingClient(): PushMessagingClient {
+    if (!defaultClient) {
+        defaultClient = process.env.PUSH_MESSAGING_CLIENT === 'fake'
+            ? new FakeMessagingClient()
+            : admin.messaging();
+    }
+    return defaultClient;
+}
+
+export class PushService {
+    private userRepo = getDBRepository(User);
+    private conversationRepo = new ConversationRepository();
+    private participantRepo = new ConversationParticipantRepository();
+
+    constructor(private messaging: PushMessagingClient = getDefaultMessagingClient()) {}
+
+    /**
+     * Register a device for push. A token re-registered by another user moves to that user.
+     * @param userId - Owner of the device
+     * @param token - FCM registration token
+     * @param platform - Device platform
+     */
+    async registerDeviceToken(userId: string, token: string, platform: DevicePlatform) {
+        try {
+            return await DeviceToken.findOneAndUpdate(
+                { token },
+                { $set: { userId, platform } },
+                { upsert: true, new: true }
+            );
+        } catch (error: any) {
+            logger.error(`❌ Error registering device token: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Remove a device token (e.g. on logout)
+     * @returns Whether a token was removed
+     */
+    async unregisterDeviceToken(userId: string, token: string): Promise<boolean> {
+        try {
+            const result = await DeviceToken.deleteOne({ userId, token });
+            return result.deletedCount > 0;
+        } catch (error: any) {
+            logger.error(`❌ Error unregistering device token: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Send a push to every registered device of a user, pruning tokens FCM rejects as invalid
+     * @returns Number of devices the push was delivered to
+     */
+    async sendToUser(userId: string, payload: PushPayload): Promise<number> {
+        const devices = await DeviceToken.find({ userId }).select('token').lean();
+        if (devices.length === 0) return 0;
+
+        const tokens = devices.map((d) => d.token);
+        const response = await this.messaging.sendEachForMulticast({
+            tokens,
+            notification: { title: payload.title, body: payload.body },
+            data: payload.data,
+        });
+
+        const invalidTokens = tokens.filter((_, i) => {
+            const code = response.responses[i]?.error?.code;
+            return !!code && INVALID_TOKEN_ERRORS.includes(code);
+        });
+        if (invalidTokens.length > 0) {
+            await DeviceToken.deleteMany({ token: { $in: invalidTokens } });
+            logger.info(`🧹 Pruned ${invalidTokens.length} invalid device token(s) for user ${userId}`);
+        }
+
+        return response.successCount;
+    }
+
+    /**
+     * Push a like/comment/follow notification group to its recipient
+     */
+    async sendNotificationPush(notification: INotification): Promise<void> {
+        try {
+            const actorName = await this.getUsername(notification.actorId);
+            const others = notification.count - 1;
+            const actors = others > 0
+                ? `${actorName} and ${others} ${others === 1 ? 'other' : 'others'}`
+                : actorName;
+
+            await this.sendToUser(notification.recipientId, {
+                title: 'Pets',
+                body: `${actors} ${ACTIVITY_TEXT[notification.type]}`,
+                data: {
+                    kind: 'notification',
+                    notificationId: notification._id!.toString(),
+                    type: notification.type,
+                    entityId: notification.entityId,
+                },
+            });
+        } catch (error: any) {
+            logger.error(`❌ Error sending notification push: ${error.message}`);
+        }
+    }
+
+    /**
+     * Push a chat message to every other conversation member without an active socket
+     * @param message - Message sent
+     * @param blockerIds - Users who blocked the sender; they get no push
+     */
+    async sendChatMessagePush(message: MessageWithMetadata, blockerIds: string[] = []): Promise<void> {
+        try {
+            const [conversation, participants] = await Promise.all([
+                this.conversationRepo.getConversationById(message.conversationId),
+                this.participantRepo.getParticipants(message.conversationId),
+            ]);
+            const recipientIds = participants
+                .map((p) => p.userId)
+                .filter((id) => id !== message.senderId && !blockerIds.includes(id));
+
+            const statuses = await Promise.all(recipientIds.map((id) => getUserStatus(id)));
+            const offlineIds = recipientIds.filter((_, i) => !statuses[i]?.online);
+            if (offlineIds.length === 0) return;
+
+            const senderName = await this.getUsername(message.senderId);
+            const preview = message.isEndToEndEncrypted
+                ? '🔒 Encrypted message'
+                : MEDIA_PREVIEW[message.messageType] || message.content || 'New message';
+            const payload: PushPayload = {
+                title: conversation?.type === ConversationType.GROUP ? conversation.title || 'Group' : senderName,
+                body: conversation?.type === ConversationType.GROUP ? `${senderName}: ${preview}` : preview,
+                data: {
+                    kind: 'chat_message',
+                    messageId: message.id,
+                    conversationId: message.conversationId,
+                    senderId: message.senderId,
+                },
+            };
+
+            await Promise.all(offlineIds.map((id) => this.sendToUser(id, payload)));
+        } catch (error: any) {
+            logger.error(`❌ Error sending chat push: ${error.message}`);
+        }
+    }
+
+    private async getUsername(userId: string): Promise<string> {
+        const user = await this.userRepo.findOne({ where: { id: userId }, select: ['id', 'username'] });
+        return user?.username || 'Someone';
+    }
+}
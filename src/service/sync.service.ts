@@ -0,0 +1,131 @@
+import { SyncEvent, SyncEventType } from '../model/syncEventSchema';
+import { SyncCounter } from '../model/syncCounterSchema';
+import { logger } from '../utils/logger';
+
+const DEFAULT_SYNC_LIMIT = 100;
+const MAX_SYNC_LIMIT = 500;
+// A missing seq younger than this may still be in flight; stop before it rather than skip it
+const SETTLE_MS = 5000;
+
+export interface SyncEventView {
+    seq: number;
+    type: SyncEventType;
+    conversationId: string;
+    data: Record<string, any>;
+    createdAt: Date;
+}
+
+export interface SyncPage {
+    events: SyncEventView[];
+    latestSeq: number; // Highest seq assigned to the user so far
+    hasMore: boolean; // Call again with `since` = last event's seq
+    resetRequired: boolean; // Events after `since` have expired: refetch conversations and restart from latestSeq
+}
+
+/**
+ * Per-user log of chat events for clients catching up after being offline
+ */
+export class SyncService {
+    /**
+     * Append an event to each user's log. Never throws: live delivery has already
+     * happened, and a missing entry only costs a client a full resync.
+     * @param userIds - Users whose logs get the event
+     * @param type - Event type
+     * @param conversationId - Conversation the event belongs to
+     * @param data - Event payload
+     */
+    async record(userIds: string[], type: SyncEventType, conversationId: string, data: Record<string, any>): Promise<void> {
+        try {
+            const uniqueIds = [...new Set(userIds)];
+            if (uniqueIds.length === 0) return;
+
+            const payload = JSON.parse(JSON.stringify(data));
+            const seqs = await Promise.all(uniqueIds.map((userId) => this.nextSeq(userId)));
+
+            await SyncEvent.insertMany(
+                uniqueIds.map((userId, i) => ({ userId, seq: seqs[i], type, conversationId, data: payload })),
+                { ordered: false }
+            );
+        } catch (error: any) {
+            logger.error(`❌ Error recording ${type} sync event: ${error.message}`);
+        }
+    }
+
+    /**
+     * Read a user's events after a sequence number, oldest first
+     * @param userId - User ID
+     * @param since - Last seq the client processed (0 for none)
+     * @param limit - Maximum events to return
+     * @returns Page of events
+     */
+    async getEventsSince(userId: string, since: number, limit: number = DEFAULT_SYNC_LIMIT): Promise<SyncPage> {
+        try {
+            const pageSize = Math.min(Math.max(limit, 1), MAX_SYNC_LIMIT);
+            const counter = await SyncCounter.findById(userId);
+            const latestSeq = counter?.seq || 0;
+
+            // The log expires oldest first: if the client's last event is gone, so may be the ones after it
+            const expired = since > 0 && since < latestSeq && !(await SyncEvent.exists({ userId, seq: since }));
+            if (since > latestSeq || expired) {
+                return { events: [], latestSeq, hasMore: false, resetRequired: true };
+            }
+
+            const docs = await SyncEvent.find({ userId, seq: { $gt: since } })
+                .sort({ seq: 1 })
+                .limit(pageSize + 1);
+
+            const events: SyncEventView[] = [];
+            let expected = since + 1;
+            let blocked = false;
+            for (const doc of docs.slice(0, pageSize)) {
+                if (doc.seq !== expected && Date.now() - doc.createdAt.getTime() < SETTLE_MS) {
+                    blocked = true; // An earlier seq is still being written
+                    break;
+                }
+                events.push({
+                    seq: doc.seq,
+                    type: doc.type,
+                    conversationId: doc.conversationId,
+                    data: doc.data,
+                    createdAt: doc.createdAt,
+                });
+                expected = doc.seq + 1;
+            }
+
+            return {
+                events,
+                latestSeq,
+                hasMore: blocked || docs.length > pageSize,
+                resetRequired: false,
+            };
+        } catch (error: any) {
+            logger.error(`❌ Error reading sync events: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Mark the `message` / `message_edited` events of a retracted message so they are
+     * never filled in with its content again
+     * @param messageId - Message metadata ID
+     */
+    async tombstoneMessage(messageId: string): Promise<void> {
+        try {
+            await SyncEvent.updateMany(
+                { 'data.id': messageId, type: { $in: ['message', 'message_edited'] } },
+                { $set: { data: { id: messageId, removed: true } } }
+            );
+        } catch (error: any) {
+            logger.error(`❌ Error tombstoning sync events of message ${messageId}: ${error.message}`);
+        }
+    }
+
+    private async nextSeq(userId: string): Promise<number> {
+        const counter = await SyncCounter.findOneAndUpdate(
+            { _id: userId },
+            { $inc: { seq: 1 } },
+            { upsert: true, new: true }
+        );
+        return counter!.seq;
+    }
+}
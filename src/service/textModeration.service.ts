@@ -0,0 +1,161 @@
+import { ReportReason, ReportTargetType } from '../model/reportSchema';
+import { ModerationService } from './moderation.service';
+import { TextFilter, TextFinding } from '../utils/textFilter';
+import { BLOCKED_LINK_DOMAINS, SPAM_PHRASES, WORD_LISTS } from '../utils/textModerationWordLists';
+import { CustomGraphQLError } from '../utils/utils';
+import { HttpStatusCodes } from '../utils/constant';
+import { logger } from '../utils/logger';
+
+export type TextSurface = 'comment' | 'caption' | 'username' | 'bio' | 'chat';
+
+/**
+ * - off: no filtering
+ * - block: refuse the text
+ * - mask: star out matched words and links; spam cannot be masked and is flagged instead
+ * - flag: store the text unchanged and open a moderation case for review
+ */
+export type TextModerationAction = 'off' | 'block' | 'mask' | 'flag';
+
+export interface TextScreenResult {
+    text: string; // Text to store (masked when the action is mask)
+    flagged: boolean; // Needs a moderation case once the content has an ID
+    findings: TextFinding[];
+}
+
+const ACTIONS: TextModerationAction[] = ['off', 'block', 'mask', 'flag'];
+
+// Chat is opt-in; a username is either accepted or refused
+const DEFAULT_ACTIONS: Record<TextSurface, TextModerationAction> = {
+    comment: 'mask',
+    caption: 'mask',
+    username: 'block',
+    bio: 'mask',
+    chat: 'off',
+};
+
+const SURFACE_LABELS: Record<TextSurface, string> = {
+    comment: 'Comment',
+    caption: 'Caption',
+    username: 'Username',
+    bio: 'Bio',
+    chat: 'Message',
+};
+
+const listFromEnv = (value: string | undefined) =>
+    (value || '').split(',').map((item) => item.trim().toLowerCase()).filter(Boolean);
+
+let defaultFilter: TextFilter | undefined;
+
+function getDefaultFilter(): TextFilter {
+    if (!defaultFilter) {
+        const locales = listFromEnv(process.env.TEXT_MODERATION_LOCALES);
+        const enabled = locales.length ? locales : Object.keys(WORD_LISTS);
+        enabled
+            .filter((locale) => !WORD_LISTS[locale])
+            .forEach((locale) => logger.warn(`⚠️ No text moderation word list for locale "${locale}"`));
+
+        defaultFilter = new TextFilter({
+            terms: [...enabled.flatMap((locale) => WORD_LISTS[locale] ?? []), ...listFromEnv(process.env.TEXT_MODERATION_EXTRA_TERMS)],
+            spamPhrases: SPAM_PHRASES,
+            blockedDomains: [...BLOCKED_LINK_DOMAINS, ...listFromEnv(process.env.TEXT_MODERATION_BLOCKED_DOMAINS)],
+            maxLinks: Number(process.env.TEXT_MODERATION_MAX_LINKS) || 2,
+            spamThreshold: Number(process.env.TEXT_MODERATION_SPAM_THRESHOLD) || 3,
+        });
+    }
+    return defaultFilter;
+}
+
+/**
+ * Action configured for a surface with TEXT_MODERATION_<SURFACE>_ACTION
+ */
+function getAction(surface: TextSurface): TextModerationAction {
+    const configured = process.env[`TEXT_MODERATION_${surface.toUpperCase()}_ACTION`]?.trim().toLowerCase();
+    if (configured && ACTIONS.includes(configured as TextModerationAction)) {
+        return configured as TextModerationAction;
+    }
+    return DEFAULT_ACTIONS[surface];
+}
+
+export class TextModerationService {
+    private moderationService = new ModerationService();
+
+    constructor(private filter: TextFilter = getDefaultFilter()) {}
+
+    /**
+     * Apply the surface's configured action to user text
+     * @param text - Raw user input
+     * @param surface - Where the text is shown
+     * @returns Text to store and whether to flag it; throws when the text is refused
+     */
+    screen(text: string, surface: TextSurface): TextScreenResult {
+        const action = getAction(surface);
+        if (!text || action === 'off') {
+            return { text, flagged: false, findings: [] };
+        }
+
+        const findings = this.filter.analyze(text);
+        if (!findings.length) {
+            return { text, flagged: false, findings };
+        }
+
+        // Starring out part of a username would still publish it
+        if (action === 'block' || (action === 'mask' && surface === 'username')) {
+            logger.warn(`⚠️ ${surface} refused: ${this.describe(findings)}`);
+            throw new CustomGraphQLError(
+                `${SURFACE_LABELS[surface]} contains content that is not allowed`,
+                HttpStatusCodes.UNPROCESSABLE_ENTITY
+            );
+        }
+
+        if (action === 'mask') {
+            return {
+                text: this.filter.mask(text, findings),
+                flagged: findings.some((f) => !f.maskable),
+                findings,
+            };
+        }
+
+        return { text, flagged: true, findings };
+    }
+
+    /**
+     * Open a moderation case for flagged text. The content stays visible until an admin
+     * resolves the case. Failures are logged: the content is already saved.
+     * @param result - Result of screen
+     * @param targetType - Kind of content the text belongs to
+     * @param targetId - Content ID
+     * @param ownerId - Author
+     * @param surface - Where the text is shown, for the audit note
+     */
+    async flagIfNeeded(
+        result: TextScreenResult,
+        targetType: ReportTargetType,
+        targetId: string,
+        ownerId: string,
+        surface: TextSurface
+    ): Promise<void> {
+        if (!result.flagged) return;
+
+        try {
+            const reason = result.findings.some((f) => f.category === 'profanity')
+                ? ReportReason.HARASSMENT
+                : ReportReason.SPAM;
+            await this.moderationService.flagForReview(
+                targetType,
+                targetId,
+                ownerId,
+                reason,
+                `Text moderation (${surface}): ${this.describe(result.findings)}`,
+                false
+            );
+        } catch (error: any) {
+            logger.error(`❌ Error flagging ${surface} ${targetId}: ${error.message}`);
+        }
+    }
+
+    private describe(findings: TextFinding[]): string {
+        return findings
+            .map((f) => (f.category === 'spam' ? `spam (${f.match})` : `${f.category} "${f.match}"`))
+            .join(', ');
+    }
+}
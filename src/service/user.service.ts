@@ -13,6 +13,8 @@ import { logger } from "../utils/logger";
 import { HttpStatusCodes, LoginType } from "../utils/constant";
 import { TemplateService } from "../utils/templateService";
 import { UserContext } from "../middleware/authContext";
+import { TextModerationService, TextScreenResult } from "./textModeration.service";
+import { ReportTargetType } from "../model/reportSchema";
 
 dotenv.config();
 
@@ -26,6 +28,7 @@ interface ServiceError extends Error {
 export class UserService {
   private userRepo = getDBRepository(User);
   private userOTPRepo = new UserOTPRepository();
+  private textModerationService = new TextModerationService();
 
   private createError(message: string, status = HttpStatusCodes.INTERNAL_SERVER_ERROR): ServiceError {
     const error = new Error(message) as ServiceError;
@@ -53,6 +56,9 @@ export class UserService {
       }
 
 
+      // ------- USERNAME MODERATION -------
+      const screenedUsername = this.textModerationService.screen(username, "username");
+
       // ------- UNIQUE USERNAME GENERATION -------
       let uniqueUsername = username;
 
@@ -89,6 +95,7 @@ export class UserService {
       });
       await this.userRepo.save(user);
       logger.info(`✅ User saved to PostgreSQL successfully`);
+      await this.textModerationService.flagIfNeeded(screenedUsername, ReportTargetType.USER, user.id, user.id, "username");
 
       return { user, verificationLink };
     } catch (error: any) {
@@ -316,11 +323,21 @@ async deleteAllUsers() {
 
       // 3️⃣ Create PostgreSQL user if not exists
       if (!user) {
+        // The username comes from the email address; one the filter refuses falls back to a generated name
+        let baseUsername = email.split("@")[0];
+        let screenedUsername: TextScreenResult | null = null;
+        try {
+          screenedUsername = this.textModerationService.screen(baseUsername, "username");
+        } catch {
+          logger.warn(`⚠️ Username from ${email} refused, generating one`);
+          baseUsername = "user";
+        }
+
         user = this.userRepo.create({
           firebaseId: firebaseUser.uid,
           firstName: name || "",
           lastName: "",
-          username: email.split("@")[0],
+          username: await this.generateUniqueUsername(this.userRepo, baseUsername),
           email,
           dob,
           phoneNumber,
@@ -329,6 +346,9 @@ async deleteAllUsers() {
         });
         await this.userRepo.save(user);
         logger.info(`✅ User saved in PostgreSQL: ${email}`);
+        if (screenedUsername) {
+          await this.textModerationService.flagIfNeeded(screenedUsername, ReportTargetType.USER, user.id, user.id, "username");
+        }
       }
 
 
@@ -1,10 +1,12 @@
 import { Server, Socket } from "socket.io";
 import { ChatService } from "../../service/chat.service";
-import { MessageType } from "../../entities/MessageMetadata";
+import { PushService } from "../../service/push.service";
+import { BlockService } from "../../service/block.service";
+import { MessageDeleteScope, MessageType } from "../../entities/MessageMetadata";
 import { logger } from "../../utils/logger";
 import { AuthenticatedSocket } from "../middleware/authMiddleware";
-
-const chatService = new ChatService();
+import { conversationRoom } from "../server";
+import { assertResourceAccess } from "../../middleware/resourceGuard";
 
 /**
  * Register chat event handlers
@@ -13,15 +15,28 @@ const chatService = new ChatService();
  */
 export function registerChatHandlers(io: Server, socket: AuthenticatedSocket): void {
     const userId = socket.userId!;
+    // Created per connection: ChatService itself imports the socket server module
+    const chatService = new ChatService();
+    const pushService = new PushService();
+    const blockService = new BlockService();
 
     // Join user's personal room for receiving messages
     socket.join(userId);
     logger.info(`User ${userId} joined their personal room`);
 
+    // Join a room per conversation so messages fan out to every member
+    chatService
+        .getUserConversationIds(userId)
+        .then((conversationIds) => socket.join(conversationIds.map(conversationRoom)))
+        .catch((error: any) => {
+            logger.error(`❌ Error joining conversation rooms for ${userId}: ${error.message}`);
+        });
+
     // Handle send message
     socket.on("send_message", async (data, callback) => {
         try {
             const {
+                conversationId,
                 receiverId,
                 messageType,
                 content,
@@ -31,19 +46,22 @@ export function registerChatHandlers(io: Server, socket: AuthenticatedSocket): v
                 fileName,
                 thumbnailUrl,
                 replyToMessageId,
+                senderDeviceId,
+                envelopes,
             } = data;
 
             // Validate required fields
-            if (!receiverId || !messageType) {
+            if ((!conversationId && !receiverId) || !messageType) {
                 return callback({
                     success: false,
-                    error: "receiverId and messageType are required",
+                    error: "conversationId or receiverId, and messageType are required",
                 });
             }
 
             // Send message
             const message = await chatService.sendMessage({
                 senderId: userId,
+                conversationId,
                 receiverId,
                 messageType: messageType as MessageType,
                 content,
@@ -53,6 +71,8 @@ export function registerChatHandlers(io: Server, socket: AuthenticatedSocket): v
                 fileName,
                 thumbnailUrl,
                 replyToMessageId,
+                senderDeviceId,
+                envelopes,
             });
 
             // Emit to sender (acknowledgment)
@@ -61,10 +81,13 @@ export function registerChatHandlers(io: Server, socket: AuthenticatedSocket): v
                 message,
             });
 
-            // Emit to receiver if online
-            io.to(receiverId).emit("new_message", message);
+            // Emit to the other members (and the sender's other devices), push to offline members.
+            // Group members who blocked the sender get neither.
+            const blockerIds = await blockService.getBlockersOf(userId);
+            socket.to(conversationRoom(message.conversationId)).except(blockerIds).emit("new_message", message);
+            await pushService.sendChatMessagePush(message, blockerIds);
 
-            logger.info(`✅ Message sent from ${userId} to ${receiverId}`);
+            logger.info(`✅ Message sent from ${userId} to conversation ${message.conversationId}`);
         } catch (error: any) {
             logger.error(`❌ Error sending message: ${error.message}`);
             callback({
@@ -74,23 +97,104 @@ export function registerChatHandlers(io: Server, socket: AuthenticatedSocket): v
         }
     });
 
+    // Handle edit message
+    socket.on("edit_message", async (data, callback) => {
+        try {
+            const { messageId, content } = data || {};
+
+            if (!messageId || !content) {
+                return callback?.({
+                    success: false,
+                    error: "messageId and content are required",
+                });
+            }
+
+            await assertResourceAccess("message", messageId, userId);
+            const message = await chatService.editMessage(userId, messageId, content);
+
+            callback?.({ success: true, message });
+
+            // Emit to the other members (and the sender's other devices)
+            socket.to(conversationRoom(message.conversationId)).emit("message_edited", message);
+
+            logger.info(`✅ Message ${messageId} edited by ${userId}`);
+        } catch (error: any) {
+            logger.error(`❌ Error editing message: ${error.message}`);
+            callback?.({
+                success: false,
+                error: error.message || "Failed to edit message",
+            });
+        }
+    });
+
+    // Handle reactions
+    socket.on("add_reaction", async (data, callback) => {
+        try {
+            const { messageId, emoji } = data || {};
+
+            if (!messageId || !emoji) {
+                return callback?.({
+                    success: false,
+                    error: "messageId and emoji are required",
+                });
+            }
+
+            await assertResourceAccess("message", messageId, userId);
+            const update = await chatService.addReaction(userId, messageId, emoji);
+
+            callback?.({ success: true, reaction: update });
+            socket.to(conversationRoom(update.conversationId)).emit("message_reaction", update);
+        } catch (error: any) {
+            logger.error(`❌ Error adding reaction: ${error.message}`);
+            callback?.({
+                success: false,
+                error: error.message || "Failed to add reaction",
+            });
+        }
+    });
+
+    socket.on("remove_reaction", async (data, callback) => {
+        try {
+            const { messageId } = data || {};
+
+            if (!messageId) {
+                return callback?.({
+                    success: false,
+                    error: "messageId is required",
+                });
+            }
+
+            await assertResourceAccess("message", messageId, userId);
+            const update = await chatService.removeReaction(userId, messageId);
+
+            callback?.({ success: true, reaction: update });
+            socket.to(conversationRoom(update.conversationId)).emit("message_reaction", update);
+        } catch (error: any) {
+            logger.error(`❌ Error removing reaction: ${error.message}`);
+            callback?.({
+                success: false,
+                error: error.message || "Failed to remove reaction",
+            });
+        }
+    });
+
     // Handle message delivered
     socket.on("message_delivered", async (data) => {
         try {
-            const { messageId, senderId } = data;
+            const { messageId } = data || {};
 
             if (!messageId) {
                 return;
             }
 
-            // Mark as delivered
-            await chatService.markMessageAsDelivered(messageId);
+            // Mark as delivered; null when already delivered or not ours to acknowledge
+            const receipt = await chatService.markMessageAsDelivered(messageId, userId);
+            if (!receipt) {
+                return;
+            }
 
-            // Emit delivery receipt to sender
-            io.to(senderId).emit("message_delivered", {
-                messageId,
-                deliveredAt: new Date(),
-            });
+            // Emit delivery receipt to the actual sender
+            io.to(receipt.senderId).emit("message_delivered", receipt);
 
             logger.debug(`Message ${messageId} delivered`);
         } catch (error: any) {
@@ -98,34 +202,43 @@ export function registerChatHandlers(io: Server, socket: AuthenticatedSocket): v
         }
     });
 
-    // Handle messages read
+    // Handle messages read: advances the reader's cursor in the conversation.
+    // Send { conversationId, messageId? } (latest message when omitted); { messageIds } is still accepted.
     socket.on("messages_read", async (data, callback) => {
         try {
-            const { messageIds, senderId } = data;
-
-            if (!messageIds || !Array.isArray(messageIds)) {
-                return callback({
+            const { conversationId, messageId, messageIds } = data || {};
+
+            let updates;
+            if (conversationId) {
+                await assertResourceAccess("conversation", conversationId, userId);
+                updates = [await chatService.markConversationRead(userId, conversationId, messageId)];
+            } else if (Array.isArray(messageIds)) {
+                await assertResourceAccess("message", messageIds, userId);
+                updates = await chatService.markMessagesAsRead(messageIds, userId);
+            } else {
+                return callback?.({
                     success: false,
-                    error: "messageIds array is required",
+                    error: "conversationId or messageIds array is required",
                 });
             }
 
-            // Mark messages as read
-            await chatService.markMessagesAsRead(messageIds, userId);
-
-            // Emit read receipts to sender
-            io.to(senderId).emit("messages_read", {
-                messageIds,
-                readAt: new Date(),
-                readBy: userId,
-            });
+            // Emit read receipts to the conversation
+            for (const update of updates.filter((u) => u.advanced)) {
+                io.to(conversationRoom(update.conversationId)).emit("messages_read", {
+                    conversationId: update.conversationId,
+                    lastReadMessageId: update.lastReadMessageId,
+                    messageIds,
+                    readAt: update.lastReadAt,
+                    readBy: userId,
+                });
+            }
 
-            callback({ success: true });
+            callback?.({ success: true, updates });
 
-            logger.debug(`${messageIds.length} messages marked as read by ${userId}`);
+            logger.debug(`Read cursor advanced by ${userId} in ${updates.length} conversation(s)`);
         } catch (error: any) {
             logger.error(`❌ Error marking messages as read: ${error.message}`);
-            callback({
+            callback?.({
                 success: false,
                 error: error.message || "Failed to mark messages as read",
             });
@@ -144,8 +257,11 @@ export function registerChatHandlers(io: Server, socket: AuthenticatedSocket): v
                 });
             }
 
+            await assertResourceAccess("conversation", conversationId, userId);
+
             const result = await chatService.getConversationHistory(
                 conversationId,
+                userId,
                 page,
                 limit
             );
@@ -183,10 +299,34 @@ export function registerChatHandlers(io: Server, socket: AuthenticatedSocket): v
         }
     });
 
+    // Handle sync: events since the client's last seq, e.g. after a reconnect
+    socket.on("sync", async (data, callback) => {
+        try {
+            const { since, limit = 100 } = data || {};
+
+            if (!Number.isInteger(since) || since < 0) {
+                return callback?.({
+                    success: false,
+                    error: "since must be a non-negative integer",
+                });
+            }
+
+            const page = await chatService.sync(userId, since, limit);
+
+            callback?.({ success: true, ...page });
+        } catch (error: any) {
+            logger.error(`❌ Error syncing events: ${error.message}`);
+            callback?.({
+                success: false,
+                error: error.message || "Failed to sync",
+            });
+        }
+    });
+
     // Handle delete message
     socket.on("delete_message", async (data, callback) => {
         try {
-            const { messageId } = data;
+            const { messageId, scope = MessageDeleteScope.EVERYONE } = data;
 
             if (!messageId) {
                 return callback({
@@ -194,10 +334,24 @@ export function registerChatHandlers(io: Server, socket: AuthenticatedSocket): v
                     error: "messageId is required",
                 });
             }
+            if (!Object.values(MessageDeleteScope).includes(scope)) {
+                return callback({
+                    success: false,
+                    error: "scope must be \"me\" or \"everyone\"",
+                });
+            }
 
-            await chatService.deleteMessage(messageId, userId);
+            await assertResourceAccess("message", messageId, userId);
+            const deletion = await chatService.deleteMessage(messageId, userId, scope);
 
-            callback({ success: true });
+            callback({ success: true, deletion });
+
+            if (scope === MessageDeleteScope.EVERYONE) {
+                socket.to(conversationRoom(deletion.conversationId)).emit("message_deleted", deletion);
+            } else {
+                // Sync the user's other devices
+                socket.to(userId).emit("message_deleted", deletion);
+            }
 
             logger.info(`Message ${messageId} deleted by ${userId}`);
         } catch (error: any) {
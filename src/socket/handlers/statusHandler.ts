@@ -4,49 +4,78 @@ import { logger } from "../../utils/logger";
 import { AuthenticatedSocket } from "../middleware/authMiddleware";
 
 const USER_STATUS_PREFIX = "user:status:";
+const USER_PRESENCE_PREFIX = "user:presence:";
 const USER_STATUS_TTL = 300; // 5 minutes
 
 export interface UserStatus {
     online: boolean;
     lastSeen: number;
-    socketId: string;
+    connections: number; // Open sockets across all instances
+}
+
+// Presence is a sorted set per user: member = socket ID, score = last heartbeat (ms).
+// Sockets are tracked individually so a user stays online until their last device
+// disconnects on any instance; entries from a crashed instance age out after the TTL.
+function presenceKey(userId: string): string {
+    return `${USER_PRESENCE_PREFIX}${userId}`;
+}
+
+function staleBefore(): number {
+    return Date.now() - USER_STATUS_TTL * 1000;
 }
 
 /**
- * Set user online status
+ * Register a socket for the user
  * @param userId - User ID
  * @param socketId - Socket ID
+ * @returns True if this is the user's first open socket (the user just came online)
  */
-export async function setUserOnline(userId: string, socketId: string): Promise<void> {
+export async function setUserOnline(userId: string, socketId: string): Promise<boolean> {
     try {
-        const status: UserStatus = {
-            online: true,
-            lastSeen: Date.now(),
-            socketId,
-        };
-
-        await redisClient.setex(
-            `${USER_STATUS_PREFIX}${userId}`,
-            USER_STATUS_TTL,
-            JSON.stringify(status)
-        );
-
-        logger.info(`✅ User ${userId} is now online`);
+        const key = presenceKey(userId);
+        const results = await redisClient
+            .multi()
+            .zremrangebyscore(key, "-inf", staleBefore())
+            .zcard(key)
+            .zadd(key, Date.now(), socketId)
+            .expire(key, USER_STATUS_TTL)
+            .exec();
+
+        const cameOnline = Number(results?.[1]?.[1] || 0) === 0;
+        if (cameOnline) {
+            logger.info(`✅ User ${userId} is now online`);
+        }
+        return cameOnline;
     } catch (error: any) {
         logger.error(`❌ Error setting user online: ${error.message}`);
+        return false;
     }
 }
 
 /**
- * Set user offline status
+ * Unregister a socket for the user
  * @param userId - User ID
+ * @param socketId - Socket ID
+ * @returns True if it was the user's last open socket (the user just went offline)
  */
-export async function setUserOffline(userId: string): Promise<void> {
+export async function setUserOffline(userId: string, socketId: string): Promise<boolean> {
     try {
+        const key = presenceKey(userId);
+        const results = await redisClient
+            .multi()
+            .zrem(key, socketId)
+            .zremrangebyscore(key, "-inf", staleBefore())
+            .zcard(key)
+            .exec();
+
+        if (Number(results?.[2]?.[1] || 0) > 0) {
+            return false;
+        }
+
         const status: UserStatus = {
             online: false,
             lastSeen: Date.now(),
-            socketId: "",
+            connections: 0,
         };
 
         await redisClient.setex(
@@ -56,8 +85,10 @@ export async function setUserOffline(userId: string): Promise<void> {
         );
 
         logger.info(`✅ User ${userId} is now offline`);
+        return true;
     } catch (error: any) {
         logger.error(`❌ Error setting user offline: ${error.message}`);
+        return false;
     }
 }
 
@@ -68,6 +99,20 @@ export async function setUserOffline(userId: string): Promise<void> {
  */
 export async function getUserStatus(userId: string): Promise<UserStatus | null> {
     try {
+        const key = presenceKey(userId);
+        const results = await redisClient
+            .multi()
+            .zremrangebyscore(key, "-inf", staleBefore())
+            .zcard(key)
+            .zrange(key, -1, -1, "WITHSCORES")
+            .exec();
+
+        const connections = Number(results?.[1]?.[1] || 0);
+        if (connections > 0) {
+            const [, lastSeen] = results?.[2]?.[1] as string[];
+            return { online: true, lastSeen: Number(lastSeen), connections };
+        }
+
         const statusStr = await redisClient.get(`${USER_STATUS_PREFIX}${userId}`);
 
         if (!statusStr) {
@@ -82,21 +127,18 @@ export async function getUserStatus(userId: string): Promise<UserStatus | null>
 }
 
 /**
- * Refresh user online status (extend TTL)
+ * Refresh a socket's heartbeat (extend TTL)
  * @param userId - User ID
+ * @param socketId - Socket ID
  */
-export async function refreshUserStatus(userId: string): Promise<void> {
+export async function refreshUserStatus(userId: string, socketId: string): Promise<void> {
     try {
-        const status = await getUserStatus(userId);
-
-        if (status && status.online) {
-            status.lastSeen = Date.now();
-            await redisClient.setex(
-                `${USER_STATUS_PREFIX}${userId}`,
-                USER_STATUS_TTL,
-                JSON.stringify(status)
-            );
-        }
+        const key = presenceKey(userId);
+        await redisClient
+            .multi()
+            .zadd(key, Date.now(), socketId)
+            .expire(key, USER_STATUS_TTL)
+            .exec();
     } catch (error: any) {
         logger.error(`❌ Error refreshing user status: ${error.message}`);
     }
@@ -110,11 +152,13 @@ export async function refreshUserStatus(userId: string): Promise<void> {
 export function registerStatusHandlers(io: Server, socket: AuthenticatedSocket): void {
     const userId = socket.userId!;
 
-    // Set user online when connected
-    setUserOnline(userId, socket.id);
-
-    // Emit online status to user's contacts (you can customize this logic)
-    socket.broadcast.emit("user_online", { userId, timestamp: Date.now() });
+    // Set user online when connected; only the first socket announces it
+    setUserOnline(userId, socket.id).then((cameOnline) => {
+        if (cameOnline) {
+            // Emit online status to user's contacts (you can customize this logic)
+            socket.broadcast.emit("user_online", { userId, timestamp: Date.now() });
+        }
+    });
 
     // Handle get user status request
     socket.on("get_user_status", async (data: { userId: string }, callback) => {
@@ -143,13 +187,15 @@ export function registerStatusHandlers(io: Server, socket: AuthenticatedSocket):
 
     // Refresh status periodically (client should send this every minute)
     socket.on("refresh_status", async () => {
-        await refreshUserStatus(userId);
+        await refreshUserStatus(userId, socket.id);
     });
 
     // Handle disconnect
     socket.on("disconnect", async () => {
-        await setUserOffline(userId);
-        socket.broadcast.emit("user_offline", { userId, timestamp: Date.now() });
+        // Other devices may still be connected, here or on another instance
+        if (await setUserOffline(userId, socket.id)) {
+            socket.broadcast.emit("user_offline", { userId, timestamp: Date.now() });
+        }
         logger.info(`User ${userId} disconnected`);
     });
 }
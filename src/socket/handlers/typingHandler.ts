@@ -2,6 +2,8 @@ import { Server, Socket } from "socket.io";
 import { redisClient } from "../../config/redis";
 import { logger } from "../../utils/logger";
 import { AuthenticatedSocket } from "../middleware/authMiddleware";
+import { conversationRoom } from "../server";
+import { assertResourceAccess } from "../../middleware/resourceGuard";
 
 const TYPING_PREFIX = "typing:";
 const TYPING_TTL = 5; // 5 seconds
@@ -15,16 +17,17 @@ export function registerTypingHandlers(io: Server, socket: AuthenticatedSocket):
     const userId = socket.userId!;
 
     // Handle typing start
-    socket.on("typing_start", async (data: { conversationId: string; receiverId: string }) => {
+    socket.on("typing_start", async (data: { conversationId: string }) => {
         try {
-            const { conversationId, receiverId } = data;
+            const { conversationId } = data || {};
+            await assertResourceAccess("conversation", conversationId, userId);
 
             // Set typing indicator in Redis with TTL
             const key = `${TYPING_PREFIX}${conversationId}:${userId}`;
             await redisClient.setex(key, TYPING_TTL, "1");
 
-            // Emit to receiver
-            io.to(receiverId).emit("user_typing", {
+            // Emit to the other conversation members
+            socket.to(conversationRoom(conversationId)).emit("user_typing", {
                 conversationId,
                 userId,
                 timestamp: Date.now(),
@@ -37,16 +40,17 @@ export function registerTypingHandlers(io: Server, socket: AuthenticatedSocket):
     });
 
     // Handle typing stop
-    socket.on("typing_stop", async (data: { conversationId: string; receiverId: string }) => {
+    socket.on("typing_stop", async (data: { conversationId: string }) => {
         try {
-            const { conversationId, receiverId } = data;
+            const { conversationId } = data || {};
+            await assertResourceAccess("conversation", conversationId, userId);
 
             // Remove typing indicator from Redis
             const key = `${TYPING_PREFIX}${conversationId}:${userId}`;
             await redisClient.del(key);
 
-            // Emit to receiver
-            io.to(receiverId).emit("user_stopped_typing", {
+            // Emit to the other conversation members
+            socket.to(conversationRoom(conversationId)).emit("user_stopped_typing", {
                 conversationId,
                 userId,
                 timestamp: Date.now(),
@@ -61,6 +65,8 @@ export function registerTypingHandlers(io: Server, socket: AuthenticatedSocket):
     // Check if user is typing in a conversation
     socket.on("check_typing", async (data: { conversationId: string; userId: string }, callback) => {
         try {
+            await assertResourceAccess("conversation", data?.conversationId, userId);
+
             const key = `${TYPING_PREFIX}${data.conversationId}:${data.userId}`;
             const isTyping = await redisClient.exists(key);
 
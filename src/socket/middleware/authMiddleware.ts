@@ -1,13 +1,18 @@
 import { Socket } from "socket.io";
 import { logger } from "../../utils/logger";
 import admin from "firebase-admin";
+import { getDBRepository } from "../../db/repository";
+import { User } from "../../entities/User";
 
 export interface AuthenticatedSocket extends Socket {
-    userId?: string;
+    userId?: string; // PostgreSQL User.id, same identity as GraphQL ctx.currentUser.id
+    firebaseId?: string;
 }
 
 /**
- * Middleware to authenticate Socket.io connections using Firebase JWT
+ * Middleware to authenticate Socket.io connections using Firebase JWT.
+ * The token's Firebase UID is resolved to the application user so that socket
+ * rooms and chat participants use the same user ID as the GraphQL API.
  * @param socket - Socket.io socket
  * @param next - Next function
  */
@@ -26,8 +31,19 @@ export async function authMiddleware(socket: AuthenticatedSocket, next: Function
         // Verify Firebase token
         const decodedToken = await admin.auth().verifyIdToken(cleanToken);
 
+        // Resolve the application user, by firebaseId first, then by email
+        const where: Array<Partial<User>> = [{ firebaseId: decodedToken.uid }];
+        if (decodedToken.email) where.push({ email: decodedToken.email });
+        const user = await getDBRepository(User).findOne({ where });
+
+        if (!user) {
+            logger.warn(`❌ Socket connection rejected: No user found for uid=${decodedToken.uid}`);
+            return next(new Error("Authentication error: User not found"));
+        }
+
         // Attach user ID to socket
-        socket.userId = decodedToken.uid;
+        socket.userId = user.id;
+        socket.firebaseId = decodedToken.uid;
 
         logger.info(`✅ Socket authenticated for user: ${socket.userId}`);
         next();
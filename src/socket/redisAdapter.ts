@@ -0,0 +1,21 @@
+import { Server } from "socket.io";
+import { createAdapter } from "@socket.io/redis-adapter";
+import { redisClient } from "../config/redis";
+
+/**
+ * Route room broadcasts through Redis pub/sub so that io.to(room) and socketsJoin
+ * reach sockets connected to every instance, not just this one
+ * @param server - Socket.io server instance
+ * @returns Function closing the adapter's Redis connections
+ */
+export function attachRedisAdapter(server: Server): () => Promise<void> {
+    // Subscriber connections can't run other commands, so the adapter gets its own pair
+    const pubClient = redisClient.duplicate();
+    const subClient = redisClient.duplicate();
+
+    server.adapter(createAdapter(pubClient, subClient, { key: process.env.SOCKET_REDIS_CHANNEL || "socket.io" }));
+
+    return async () => {
+        await Promise.all([pubClient.quit(), subClient.quit()]);
+    };
+}
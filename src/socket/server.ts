@@ -4,9 +4,11 @@ import { authMiddleware, AuthenticatedSocket } from "./middleware/authMiddleware
 import { registerChatHandlers } from "./handlers/chatHandler";
 import { registerStatusHandlers } from "./handlers/statusHandler";
 import { registerTypingHandlers } from "./handlers/typingHandler";
+import { attachRedisAdapter } from "./redisAdapter";
 import { logger } from "../utils/logger";
 
 let io: Server | null = null;
+let closeAdapter: (() => Promise<void>) | null = null;
 
 /**
  * Initialize Socket.io server
@@ -26,6 +28,12 @@ export function initializeSocketServer(httpServer: HttpServer): Server {
         pingInterval: 25000,
     });
 
+    // Share rooms across instances; SOCKET_REDIS_ADAPTER=false keeps them in-process (single node)
+    if (process.env.SOCKET_REDIS_ADAPTER !== "false") {
+        closeAdapter = attachRedisAdapter(io);
+        logger.info("✅ Socket.io Redis adapter attached");
+    }
+
     // Apply authentication middleware
     io.use(authMiddleware as any);
 
@@ -91,6 +99,50 @@ export function emitToUsers(userIds: string[], event: string, data: any): void {
     }
 }
 
+/**
+ * Name of the room shared by every member of a conversation
+ * @param conversationId - Conversation ID
+ * @returns Room name
+ */
+export function conversationRoom(conversationId: string): string {
+    return `conversation:${conversationId}`;
+}
+
+/**
+ * Emit event to every member of a conversation
+ * @param conversationId - Conversation ID
+ * @param event - Event name
+ * @param data - Event data
+ * @param exceptUserIds - Users left out of the emit
+ */
+export function emitToConversation(conversationId: string, event: string, data: any, exceptUserIds: string[] = []): void {
+    if (io) {
+        io.to(conversationRoom(conversationId)).except(exceptUserIds).emit(event, data);
+    }
+}
+
+/**
+ * Subscribe all connected sockets of the given users to a conversation room
+ * @param userIds - Array of user IDs
+ * @param conversationId - Conversation ID
+ */
+export function joinConversationRoom(userIds: string[], conversationId: string): void {
+    if (io && userIds.length > 0) {
+        io.in(userIds).socketsJoin(conversationRoom(conversationId));
+    }
+}
+
+/**
+ * Unsubscribe all connected sockets of the given users from a conversation room
+ * @param userIds - Array of user IDs
+ * @param conversationId - Conversation ID
+ */
+export function leaveConversationRoom(userIds: string[], conversationId: string): void {
+    if (io && userIds.length > 0) {
+        io.in(userIds).socketsLeave(conversationRoom(conversationId));
+    }
+}
+
 /**
  * Broadcast event to all connected users
  * @param event - Event name
@@ -115,4 +167,8 @@ export async function closeSocketServer(): Promise<void> {
         });
         io = null;
     }
+    if (closeAdapter) {
+        await closeAdapter();
+        closeAdapter = null;
+    }
 }
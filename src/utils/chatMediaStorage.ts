@@ -1,5 +1,6 @@
 import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
 import { logger } from "./logger";
+import { MediaUpload } from "../model/mediaUploadSchema";
 
 const r2Endpoint = process.env.CLOUDFLARE_R2_ENDPOINT || "";
 const r2AccessKeyId = process.env.CLOUDFLARE_R2_ACCESS_KEY_ID || "";
@@ -66,6 +67,8 @@ export async function uploadChatMedia(
             ? `${r2PublicDomain}/${key}`
             : `${r2Endpoint}/${r2BucketName}/${key}`;
 
+        await MediaUpload.create({ key, url, ownerId: userId, source: "chat" });
+
         logger.info(`✅ Chat media uploaded to R2: ${url}`);
 
         return {
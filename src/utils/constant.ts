@@ -26,6 +26,7 @@ export const HttpStatusCodes = {
   METHOD_NOT_ALLOWED: 405,       // Method Not Allowed
   CONFLICT: 409,                 // Conflict
   UNPROCESSABLE_ENTITY: 422,     // Unprocessable Entity
+  TOO_MANY_REQUESTS: 429,        // Too Many Requests
   INTERNAL_SERVER_ERROR: 500,    // Internal Server Error
   NOT_IMPLEMENTED: 501,          // Not Implemented
   BAD_GATEWAY: 502,              // Bad Gateway
@@ -38,4 +39,16 @@ export const LoginType={
   manualy:1,
   google:2,
   manualy_google:3,
-}
\ No newline at end of file
+}
+
+export const UserRole = {
+  USER: "user",
+  ADMIN: "admin",
+};
+
+// Roles accepted by @Authorized(); see middleware/authChecker.ts
+export const AuthRole = {
+  USER: "USER",         // any authenticated user
+  VERIFIED: "VERIFIED", // user with a verified email
+  ADMIN: "ADMIN",       // admin (satisfies every role)
+};
@@ -0,0 +1,148 @@
+import { Types } from "mongoose";
+
+export interface CursorPosition {
+    createdAt: Date;
+    id: string;
+}
+
+export interface PageInfo {
+    endCursor?: string;
+    hasNextPage: boolean;
+}
+
+export interface Connection<T> {
+    nodes: T[];
+    edges: Array<{ cursor: string; node: T }>;
+    pageInfo: PageInfo;
+}
+
+/**
+ * Encode an opaque cursor from a document's (createdAt, _id) pair
+ * @param createdAt - Document creation time
+ * @param id - Document ID
+ * @returns Base64 cursor string
+ */
+export function encodeCursor(createdAt: Date, id: string): string {
+    const payload = JSON.stringify({ t: new Date(createdAt).getTime(), id: id.toString() });
+    return Buffer.from(payload).toString("base64");
+}
+
+/**
+ * Decode an opaque cursor produced by `encodeCursor`
+ * @param cursor - Base64 cursor string
+ * @returns Cursor position
+ */
+export function decodeCursor(cursor: string): CursorPosition {
+    try {
+        const { t, id } = JSON.parse(Buffer.from(cursor, "base64").toString("utf8"));
+        if (typeof t !== "number" || !Types.ObjectId.isValid(id)) {
+            throw new Error("Malformed cursor");
+        }
+        return { createdAt: new Date(t), id };
+    } catch {
+        throw new Error("Invalid cursor");
+    }
+}
+
+/**
+ * Build a MongoDB filter selecting documents strictly after the cursor
+ * for a `{ <sortField>, _id }` sort in the given direction
+ * @param cursor - Opaque cursor
+ * @param direction - "desc" for newest first, "asc" for oldest first
+ * @param sortField - Date field the list is sorted by (defaults to createdAt)
+ * @returns MongoDB filter
+ */
+export function cursorFilter(
+    cursor: string,
+    direction: "asc" | "desc",
+    sortField: string = "createdAt"
+): Record<string, any> {
+    const { createdAt, id } = decodeCursor(cursor);
+    const op = direction === "desc" ? "$lt" : "$gt";
+    const objectId = new Types.ObjectId(id);
+
+    return {
+        $or: [
+            { [sortField]: { [op]: createdAt } },
+            { [sortField]: createdAt, _id: { [op]: objectId } },
+        ],
+    };
+}
+
+/**
+ * Turn a page fetched with `limit + 1` items into nodes, edges and pageInfo
+ * @param items - Documents fetched (up to limit + 1)
+ * @param limit - Requested page size
+ * @param sortKey - Date the list is sorted by (defaults to createdAt)
+ * @returns Connection with at most `limit` nodes
+ */
+export function buildConnection<T extends { _id: any; createdAt: Date }>(
+    items: T[],
+    limit: number,
+    sortKey: (item: T) => Date = (item) => item.createdAt
+): Connection<T> {
+    const hasNextPage = items.length > limit;
+    const nodes = hasNextPage ? items.slice(0, limit) : items;
+    const edges = nodes.map((node) => ({
+        cursor: encodeCursor(sortKey(node), node._id.toString()),
+        node,
+    }));
+
+    return {
+        nodes,
+        edges,
+        pageInfo: {
+            endCursor: edges.length ? edges[edges.length - 1].cursor : undefined,
+            hasNextPage,
+        },
+    };
+}
+
+/**
+ * Encode an opaque cursor for a position in a ranked (non-chronological) list
+ * @param position - Number of items already consumed
+ * @returns Base64 cursor string
+ */
+export function encodeOffsetCursor(position: number): string {
+    return Buffer.from(JSON.stringify({ o: position })).toString("base64");
+}
+
+/**
+ * Decode an opaque cursor produced by `encodeOffsetCursor`
+ * @param cursor - Base64 cursor string
+ * @returns Position in the ranked list
+ */
+export function decodeOffsetCursor(cursor: string): number {
+    try {
+        const { o } = JSON.parse(Buffer.from(cursor, "base64").toString("utf8"));
+        if (!Number.isInteger(o) || o < 0) {
+            throw new Error("Malformed cursor");
+        }
+        return o;
+    } catch {
+        throw new Error("Invalid cursor");
+    }
+}
+
+/**
+ * Build a connection for a page sliced out of a ranked list
+ * @param nodes - Items in the page
+ * @param start - Position of the first item in the ranked list
+ * @param hasNextPage - Whether more items follow this page
+ * @returns Connection with position-based cursors
+ */
+export function buildOffsetConnection<T>(nodes: T[], start: number, hasNextPage: boolean): Connection<T> {
+    const edges = nodes.map((node, index) => ({
+        cursor: encodeOffsetCursor(start + index + 1),
+        node,
+    }));
+
+    return {
+        nodes,
+        edges,
+        pageInfo: {
+            endCursor: edges.length ? edges[edges.length - 1].cursor : undefined,
+            hasNextPage,
+        },
+    };
+}
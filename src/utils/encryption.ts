@@ -1,32 +1,139 @@
+import crypto from "crypto";
 import CryptoJS from "crypto-js";
 import { logger } from "./logger";
 
-const ENCRYPTION_KEY = process.env.CHAT_ENCRYPTION_KEY || "default-secret-key-change-in-production";
+const DEFAULT_PASSPHRASE = "default-secret-key-change-in-production";
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12; // 96-bit IV, the recommended size for GCM
+const DEFAULT_KEY_ID = "v1";
 
-if (ENCRYPTION_KEY === "default-secret-key-change-in-production") {
-    logger.warn("⚠️ Using default encryption key. Please set CHAT_ENCRYPTION_KEY in production!");
-}
+const MIN_SEARCH_TERM_LENGTH = 2;
+const MIN_PREFIX_LENGTH = 3;
+const MAX_PREFIX_LENGTH = 10;
+const MAX_QUERY_TERMS = 8;
+const HTML_ENTITY = /&(?:#x?[0-9a-f]+|[a-z]+);/gi;
 
 export interface EncryptedData {
-    encrypted: string;
-    iv: string;
+    encrypted: string; // base64 ciphertext
+    iv: string; // base64
+    authTag: string; // base64
+    keyId: string;
+}
+
+/**
+ * Ciphertext fields as stored on a message (and on its edit history entries)
+ */
+export interface StoredCiphertext {
+    encryptedContent?: string;
+    encryptionKeyId?: string; // Absent on messages written before AES-GCM (CryptoJS passphrase format)
+    encryptionIv?: string;
+    encryptionAuthTag?: string;
 }
 
+interface Keyring {
+    activeKeyId: string;
+    keys: Map<string, Buffer>;
+    legacyPassphrase: string;
+    searchIndexKey: string;
+    usesDefaultKey: boolean;
+}
+
+let keyring: Keyring | null = null;
+
 /**
- * Encrypts a message using AES-256-GCM
+ * Turn configured key material into a 32-byte key: 64 hex characters are used
+ * as-is, anything else is treated as a passphrase and hashed
+ */
+function toKeyBuffer(material: string): Buffer {
+    return /^[0-9a-f]{64}$/i.test(material)
+        ? Buffer.from(material, "hex")
+        : crypto.createHash("sha256").update(material).digest();
+}
+
+/**
+ * Load keys from the environment on first use (after dotenv has run).
+ *
+ * CHAT_ENCRYPTION_KEYS="v2:<key>,v1:<key>" lists every key that may still be needed
+ * for decryption; CHAT_ENCRYPTION_ACTIVE_KEY_ID picks the one new messages use
+ * (default: the first listed). Without it, CHAT_ENCRYPTION_KEY is the single key "v1".
+ */
+function getKeyring(): Keyring {
+    if (keyring) return keyring;
+
+    const passphrase = process.env.CHAT_ENCRYPTION_KEY || DEFAULT_PASSPHRASE;
+    const keys = new Map<string, Buffer>();
+
+    for (const entry of (process.env.CHAT_ENCRYPTION_KEYS || "").split(",")) {
+        const separator = entry.indexOf(":");
+        if (separator <= 0) continue;
+        keys.set(entry.slice(0, separator).trim(), toKeyBuffer(entry.slice(separator + 1).trim()));
+    }
+    if (keys.size === 0) {
+        keys.set(DEFAULT_KEY_ID, toKeyBuffer(passphrase));
+    }
+
+    const activeKeyId = process.env.CHAT_ENCRYPTION_ACTIVE_KEY_ID || keys.keys().next().value!;
+    if (!keys.has(activeKeyId)) {
+        throw new Error(`Active chat encryption key "${activeKeyId}" is not in CHAT_ENCRYPTION_KEYS`);
+    }
+
+    keyring = {
+        activeKeyId,
+        keys,
+        legacyPassphrase: passphrase,
+        // Separate key for the search blind index; it must not change when content keys rotate
+        searchIndexKey: process.env.CHAT_SEARCH_INDEX_KEY || `${passphrase}:search-index`,
+        usesDefaultKey: !process.env.CHAT_ENCRYPTION_KEYS && passphrase === DEFAULT_PASSPHRASE,
+    };
+
+    if (keyring.usesDefaultKey) {
+        logger.warn("⚠️ Using default encryption key. Please set CHAT_ENCRYPTION_KEYS or CHAT_ENCRYPTION_KEY in production!");
+    }
+
+    return keyring;
+}
+
+/**
+ * Check the encryption configuration at startup
+ * @throws In production when no real key is configured
+ */
+export function assertEncryptionConfigured(): void {
+    const { usesDefaultKey, searchIndexKey } = getKeyring();
+
+    if (process.env.NODE_ENV === "production" && (usesDefaultKey || searchIndexKey.startsWith(DEFAULT_PASSPHRASE))) {
+        throw new Error(
+            "Refusing to start in production with the default chat encryption key. " +
+            "Set CHAT_ENCRYPTION_KEYS (or CHAT_ENCRYPTION_KEY) and CHAT_SEARCH_INDEX_KEY."
+        );
+    }
+}
+
+/**
+ * ID of the key new messages are encrypted with
+ */
+export function getActiveKeyId(): string {
+    return getKeyring().activeKeyId;
+}
+
+/**
+ * Encrypts a message using AES-256-GCM with the active key and a fresh IV
  * @param plaintext - The message to encrypt
- * @returns Encrypted data with IV
+ * @returns Ciphertext, IV, auth tag and key ID
  */
 export function encryptMessage(plaintext: string): EncryptedData {
     try {
-        const encrypted = CryptoJS.AES.encrypt(plaintext, ENCRYPTION_KEY).toString();
+        const { activeKeyId, keys } = getKeyring();
+        const iv = crypto.randomBytes(IV_LENGTH);
+        const cipher = crypto.createCipheriv(ALGORITHM, keys.get(activeKeyId)!, iv);
+        cipher.setAAD(Buffer.from(activeKeyId));
 
-        // Extract IV from the encrypted string (CryptoJS includes it)
-        const iv = CryptoJS.lib.WordArray.random(128 / 8).toString();
+        const encrypted = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
 
         return {
-            encrypted,
-            iv,
+            encrypted: encrypted.toString("base64"),
+            iv: iv.toString("base64"),
+            authTag: cipher.getAuthTag().toString("base64"),
+            keyId: activeKeyId,
         };
     } catch (error: any) {
         logger.error(`❌ Encryption error: ${error.message}`);
@@ -35,27 +142,126 @@ export function encryptMessage(plaintext: string): EncryptedData {
 }
 
 /**
- * Decrypts a message using AES-256-GCM
- * @param encrypted - The encrypted message
- * @param iv - Initialization vector (not used in crypto-js but kept for compatibility)
+ * Map `encryptMessage` output onto the fields stored on a message
+ * @param data - Encrypted data
+ * @returns Message ciphertext fields
+ */
+export function toStoredCiphertext(data: EncryptedData): StoredCiphertext {
+    return {
+        encryptedContent: data.encrypted,
+        encryptionKeyId: data.keyId,
+        encryptionIv: data.iv,
+        encryptionAuthTag: data.authTag,
+    };
+}
+
+/**
+ * Decrypts stored message content. AES-GCM content is authenticated, so tampered
+ * ciphertext fails; content without a key ID uses the legacy CryptoJS format.
+ * @param stored - Ciphertext fields of a message or edit history entry
  * @returns Decrypted plaintext
  */
-export function decryptMessage(encrypted: string, iv?: string): string {
+export function decryptMessage(stored: StoredCiphertext): string {
     try {
-        const bytes = CryptoJS.AES.decrypt(encrypted, ENCRYPTION_KEY);
-        const decrypted = bytes.toString(CryptoJS.enc.Utf8);
+        if (!stored.encryptedContent) {
+            throw new Error("No encrypted content");
+        }
+
+        const { keys, legacyPassphrase } = getKeyring();
 
-        if (!decrypted) {
-            throw new Error("Decryption resulted in empty string");
+        if (!stored.encryptionKeyId) {
+            const decrypted = CryptoJS.AES.decrypt(stored.encryptedContent, legacyPassphrase).toString(CryptoJS.enc.Utf8);
+            if (!decrypted) {
+                throw new Error("Decryption resulted in empty string");
+            }
+            return decrypted;
         }
 
-        return decrypted;
+        const key = keys.get(stored.encryptionKeyId);
+        if (!key) {
+            throw new Error(`Unknown encryption key "${stored.encryptionKeyId}"`);
+        }
+
+        const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(stored.encryptionIv || "", "base64"));
+        decipher.setAAD(Buffer.from(stored.encryptionKeyId));
+        decipher.setAuthTag(Buffer.from(stored.encryptionAuthTag || "", "base64"));
+
+        return Buffer.concat([
+            decipher.update(Buffer.from(stored.encryptedContent, "base64")),
+            decipher.final(),
+        ]).toString("utf8");
     } catch (error: any) {
         logger.error(`❌ Decryption error: ${error.message}`);
         throw new Error("Failed to decrypt message");
     }
 }
 
+/**
+ * Lowercase a word and strip accents so "Café" and "cafe" index the same
+ * @param word - Word to normalize
+ * @returns Normalized word
+ */
+export function normalizeSearchTerm(word: string): string {
+    return word.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+/**
+ * Split message text into normalized search terms. HTML entities left by
+ * `sanitizeMessageContent` act as separators, so raw and sanitized text tokenize alike.
+ * @param text - Message text
+ * @returns Normalized terms (may contain duplicates)
+ */
+export function tokenizeSearchText(text: string): string[] {
+    return normalizeSearchTerm(text.replace(HTML_ENTITY, " "))
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((word) => word.length >= MIN_SEARCH_TERM_LENGTH);
+}
+
+/**
+ * Keyed blind-index token for a term: equal terms give equal tokens, but
+ * tokens reveal nothing about the term without the search index key
+ */
+function blindIndexToken(term: string): string {
+    return CryptoJS.HmacSHA256(term, getKeyring().searchIndexKey).toString();
+}
+
+/**
+ * Blind-index tokens stored alongside a message's encrypted content. Each word is
+ * indexed whole and by its prefixes, so searches match the start of words.
+ * @param plaintext - Message text (raw or sanitized)
+ * @returns Unique tokens
+ */
+export function generateSearchTokens(plaintext: string): string[] {
+    const terms = new Set<string>();
+
+    for (const word of tokenizeSearchText(plaintext)) {
+        terms.add(word);
+        for (let length = MIN_PREFIX_LENGTH; length < word.length && length <= MAX_PREFIX_LENGTH; length++) {
+            terms.add(word.slice(0, length));
+        }
+    }
+
+    return [...terms].map(blindIndexToken);
+}
+
+/**
+ * Turn a search query into the normalized terms to highlight and the tokens to look up
+ * @param query - User's search query
+ * @returns Terms and their blind-index tokens; throws if nothing searchable remains
+ */
+export function generateQueryTokens(query: string): { terms: string[]; tokens: string[] } {
+    const terms = [...new Set(tokenizeSearchText(query || ""))].slice(0, MAX_QUERY_TERMS);
+
+    if (terms.length === 0) {
+        throw new Error(`Search query must contain a word of at least ${MIN_SEARCH_TERM_LENGTH} characters`);
+    }
+
+    // Only prefixes up to MAX_PREFIX_LENGTH are indexed; longer terms are confirmed after decryption
+    const tokens = [...new Set(terms.map((term) => blindIndexToken(term.slice(0, MAX_PREFIX_LENGTH))))];
+
+    return { terms, tokens };
+}
+
 /**
  * Validates message content before encryption
  * @param content - Message content to validate
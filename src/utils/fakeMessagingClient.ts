@@ -0,0 +1,34 @@
+import { BatchResponse, MulticastMessage } from "firebase-admin/messaging";
+import { PushMessagingClient } from "../service/push.service";
+import { logger } from "./logger";
+
+/**
+ * In-memory stand-in for FCM, selected with PUSH_MESSAGING_CLIENT=fake.
+ * Records every multicast and reports tokens starting with "invalid" (or added to
+ * `invalidTokens`) as unregistered so token pruning can be exercised locally.
+ */
+export class FakeMessagingClient implements PushMessagingClient {
+    readonly sent: MulticastMessage[] = [];
+    readonly invalidTokens = new Set<string>();
+
+    async sendEachForMulticast(message: MulticastMessage): Promise<BatchResponse> {
+        this.sent.push(message);
+
+        const responses = message.tokens.map((token) => {
+            if (this.invalidTokens.has(token) || token.startsWith("invalid")) {
+                const error = {
+                    code: "messaging/registration-token-not-registered",
+                    message: "Requested entity was not found.",
+                    toJSON: () => ({ code: "messaging/registration-token-not-registered" }),
+                };
+                return { success: false, error };
+            }
+            return { success: true, messageId: `fake-${this.sent.length}-${token.slice(0, 8)}` };
+        });
+
+        const successCount = responses.filter((r) => r.success).length;
+        logger.info(`📨 [fake FCM] "${message.notification?.title}" to ${message.tokens.length} device(s)`);
+
+        return { responses, successCount, failureCount: responses.length - successCount };
+    }
+}
@@ -0,0 +1,36 @@
+import axios from "axios";
+import { ImageModerationScores } from "../model/imageModerationSchema";
+import { ImageClassifier } from "../service/imageModeration.service";
+
+/**
+ * Classifier backed by an external moderation API, selected with IMAGE_MODERATION_PROVIDER=http.
+ * POSTs `{ image: <base64>, mime_type }` to IMAGE_MODERATION_API_URL and expects
+ * `{ nsfw, violence, not_a_pet }` scores between 0 and 1 back.
+ */
+export class HttpImageClassifier implements ImageClassifier {
+    readonly name = "http";
+
+    constructor(
+        private readonly apiUrl: string = process.env.IMAGE_MODERATION_API_URL || "",
+        private readonly timeoutMs: number = Number(process.env.IMAGE_MODERATION_TIMEOUT_MS) || 10000
+    ) {}
+
+    async classify(buffer: Buffer, mimeType: string): Promise<ImageModerationScores> {
+        if (!this.apiUrl) {
+            throw new Error("IMAGE_MODERATION_API_URL is not defined");
+        }
+
+        const response = await axios.post(
+            this.apiUrl,
+            { image: buffer.toString("base64"), mime_type: mimeType },
+            { headers: { "Content-Type": "application/json" }, timeout: this.timeoutMs }
+        );
+
+        const toScore = (value: unknown) => Math.min(Math.max(Number(value) || 0, 0), 1);
+        return {
+            nsfw: toScore(response.data?.nsfw),
+            violence: toScore(response.data?.violence),
+            not_a_pet: toScore(response.data?.not_a_pet),
+        };
+    }
+}
@@ -0,0 +1,24 @@
+import { ImageModerationCategory, ImageModerationScores } from "../model/imageModerationSchema";
+import { ImageClassifier } from "../service/imageModeration.service";
+
+// e.g. "moderation:nsfw=0.95" in a PNG tEXt chunk or JPEG comment
+const MARKER_PATTERN = /moderation:(nsfw|violence|not_a_pet)=([01](?:\.\d+)?)/g;
+
+/**
+ * Offline stand-in for a real image classifier, selected with IMAGE_MODERATION_PROVIDER=local
+ * (the default). Every image scores 0 unless its bytes carry `moderation:<category>=<score>`
+ * markers, so test fixtures can trigger each verdict deterministically without a network call.
+ */
+export class LocalImageClassifier implements ImageClassifier {
+    readonly name = "local";
+
+    async classify(buffer: Buffer): Promise<ImageModerationScores> {
+        const scores: ImageModerationScores = { nsfw: 0, violence: 0, not_a_pet: 0 };
+
+        for (const [, category, score] of buffer.toString("latin1").matchAll(MARKER_PATTERN)) {
+            scores[category as ImageModerationCategory] = Math.min(Number(score), 1);
+        }
+
+        return scores;
+    }
+}
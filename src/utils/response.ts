@@ -25,6 +25,21 @@ export class ApiResponse {
     };
   }
 
+  /**
+   * Success response for cursor-paginated lists: `data` holds the nodes,
+   * alongside `edges` and `pageInfo`.
+   */
+  static paginated(
+    connection: { nodes: any[]; edges: any[]; pageInfo: { endCursor?: string; hasNextPage: boolean } },
+    message = "Success"
+  ) {
+    return {
+      ...ApiResponse.success(connection.nodes, message),
+      edges: connection.edges,
+      pageInfo: connection.pageInfo,
+    };
+  }
+
   static error<T = any>(message = "Internal Server Error", code = 500, data?: T): ApiResponseTypeWithStatus<T> {
     return {
       status: false,
@@ -1,5 +1,6 @@
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
+import { S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand } from "@aws-sdk/client-s3";
 import { logger } from "./logger";
+import { MediaUpload } from "../model/mediaUploadSchema";
 
 const r2Endpoint = process.env.CLOUDFLARE_R2_ENDPOINT || "";
 const r2AccessKeyId = process.env.CLOUDFLARE_R2_ACCESS_KEY_ID || "";
@@ -18,7 +19,8 @@ const s3Client = new S3Client({
 export const uploadToR2 = async (
     buffer: Buffer,
     fileName: string,
-    mimeType: string
+    mimeType: string,
+    ownerId: string
 ): Promise<string> => {
     if (!r2BucketName) {
         throw new Error("CLOUDFLARE_R2_BUCKET_NAME is not defined");
@@ -45,6 +47,8 @@ export const uploadToR2 = async (
             ? `${publicDomain}/${key}`
             : `${r2Endpoint}/${r2BucketName}/${key}`;
 
+        await MediaUpload.create({ key, url, ownerId, source: 'image_generation' });
+
         logger.info(`✅ File uploaded to R2: ${url}`);
         return url;
     } catch (error: any) {
@@ -53,4 +57,97 @@ export const uploadToR2 = async (
     }
 };
 
+/**
+ * Store an image held back by moderation under the quarantine/ prefix.
+ * Only the object key is returned: quarantined images must not be served publicly.
+ */
+export const uploadToQuarantine = async (
+    buffer: Buffer,
+    fileName: string,
+    mimeType: string,
+    userId: string
+): Promise<string> => {
+    if (!r2BucketName) {
+        throw new Error("CLOUDFLARE_R2_BUCKET_NAME is not defined");
+    }
+
+    const key = `quarantine/${userId}/${Date.now()}_${fileName.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
+
+    try {
+        await s3Client.send(new PutObjectCommand({
+            Bucket: r2BucketName,
+            Key: key,
+            Body: buffer,
+            ContentType: mimeType,
+        }));
+
+        logger.info(`🔒 File quarantined in R2: ${key}`);
+        return key;
+    } catch (error: any) {
+        logger.error(`❌ R2 Quarantine Error: ${error.message}`);
+        throw error;
+    }
+};
+
+/**
+ * Resolve the R2 object key behind a public URL produced by our uploads.
+ * Returns null for URLs that do not point at our bucket (e.g. third-party video hosts).
+ */
+export const getR2KeyFromUrl = (url: string): string | null => {
+    const publicDomain = process.env.CLOUDFLARE_R2_PUBLIC_DOMAIN;
+    const prefixes = [
+        publicDomain ? `${publicDomain}/` : null,
+        r2Endpoint && r2BucketName ? `${r2Endpoint}/${r2BucketName}/` : null,
+    ].filter((p): p is string => !!p);
+
+    const prefix = prefixes.find((p) => url.startsWith(p));
+    return prefix ? decodeURIComponent(url.slice(prefix.length)) : null;
+};
+
+/**
+ * Read an object from our bucket by key, refusing anything larger than `maxBytes`.
+ * Used instead of fetching the public URL so no request leaves for a host we do not control.
+ */
+export const getObjectFromR2 = async (
+    key: string,
+    maxBytes: number
+): Promise<{ buffer: Buffer; mimeType: string }> => {
+    if (!r2BucketName) {
+        throw new Error("CLOUDFLARE_R2_BUCKET_NAME is not defined");
+    }
+
+    try {
+        const response = await s3Client.send(new GetObjectCommand({ Bucket: r2BucketName, Key: key }));
+        if (!response.Body || (response.ContentLength ?? 0) > maxBytes) {
+            throw new Error(`Object is empty or larger than ${maxBytes} bytes`);
+        }
+
+        const buffer = Buffer.from(await response.Body.transformToByteArray());
+        if (buffer.length > maxBytes) {
+            throw new Error(`Object is larger than ${maxBytes} bytes`);
+        }
+        return { buffer, mimeType: String(response.ContentType || '').split(';')[0] };
+    } catch (error: any) {
+        logger.error(`❌ R2 Read Error: ${error.message}`);
+        throw error;
+    }
+};
+
+/**
+ * Delete an object by key. Callers must take the key from a MediaUpload record.
+ */
+export const deleteObjectFromR2 = async (key: string): Promise<void> => {
+    if (!r2BucketName) {
+        throw new Error("CLOUDFLARE_R2_BUCKET_NAME is not defined");
+    }
+
+    try {
+        await s3Client.send(new DeleteObjectCommand({ Bucket: r2BucketName, Key: key }));
+        logger.info(`🗑️ File deleted from R2: ${key}`);
+    } catch (error: any) {
+        logger.error(`❌ R2 Delete Error: ${error.message}`);
+        throw error;
+    }
+};
+
 export const uploadToS3 = uploadToR2; // Keep backward compatibility if needed
@@ -0,0 +1,285 @@
+export type TextFindingCategory = "profanity" | "link" | "spam";
+
+export interface TextFinding {
+    category: TextFindingCategory;
+    match: string; // Offending text, or the spam signals that added up
+    start: number;
+    end: number;
+    maskable: boolean; // Can be starred out in place (spam cannot)
+}
+
+export interface TextFilterOptions {
+    terms: string[]; // Word list entries, see textModerationWordLists.ts for the syntax
+    spamPhrases: string[];
+    blockedDomains: string[];
+    maxLinks: number; // More links than this counts as spam
+    spamThreshold: number; // Spam score at which a spam finding is reported
+}
+
+interface Token {
+    start: number;
+    end: number;
+    full: string; // Folded letters including leetspeak at the edges ("shit!" -> "shiti")
+    core: string; // Without leetspeak at the edges ("shit!" -> "shit")
+}
+
+interface CompiledTerm {
+    term: string;
+    word: RegExp; // Against a single token
+    spaced: RegExp; // Inside a run of single letters ("f u c k", "f.u.c.k")
+}
+
+const LEET: Record<string, string> = {
+    "0": "o", "1": "i", "3": "e", "4": "a", "5": "s", "7": "t", "8": "b",
+    "@": "a", "$": "s", "!": "i", "|": "i", "+": "t",
+};
+
+// Cyrillic and Greek letters that render like Latin ones
+const HOMOGLYPHS: Record<string, string> = {
+    "а": "a", "в": "b", "е": "e", "к": "k", "м": "m", "н": "h", "о": "o", "р": "p", "с": "c",
+    "т": "t", "у": "y", "х": "x", "і": "i", "ј": "j", "ѕ": "s", "α": "a", "ο": "o", "ν": "v",
+    "ß": "ss",
+};
+
+const INVISIBLE = /^[\u00AD\u200B-\u200F\u2060\uFEFF]$/;
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"]+|\b(?:[a-z0-9-]+\.)+(?:com|net|org|io|co|ly|me|gg|app|xyz|info|biz|link|site|online|club|top|shop|ru|cn|tk|at|gl|gd|to)\b(?:\/[^\s<>"]*)?/gi;
+
+const REPEATED_CHARACTERS = /(.)\1{7,}/u;
+const MIN_SPACED_RUN = 3;
+
+/**
+ * Fold one character for matching
+ * @returns letters it stands for ("" for invisible characters), whether it was leetspeak,
+ * or null for a separator
+ */
+function foldChar(ch: string): { letters: string; leet: boolean } | null {
+    if (INVISIBLE.test(ch)) return { letters: "", leet: false };
+
+    const lower = ch.toLowerCase();
+    if (HOMOGLYPHS[lower]) return { letters: HOMOGLYPHS[lower], leet: false };
+
+    // Accents and styled Unicode letters (fullwidth, mathematical bold...) fold to plain letters
+    const folded = lower.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+    if (/^\p{L}+$/u.test(folded)) return { letters: folded, leet: false };
+
+    if (LEET[lower]) return { letters: LEET[lower], leet: true };
+    return null;
+}
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let parts: { letters: string; leet: boolean }[] = [];
+    let start = 0;
+    let end = 0;
+
+    const flush = () => {
+        const letters = parts.filter((p) => p.letters);
+        if (letters.length) {
+            const first = letters.findIndex((p) => !p.leet);
+            const last = letters.length - 1 - [...letters].reverse().findIndex((p) => !p.leet);
+            tokens.push({
+                start,
+                end,
+                full: letters.map((p) => p.letters).join(""),
+                core: first === -1 ? "" : letters.slice(first, last + 1).map((p) => p.letters).join(""),
+            });
+        }
+        parts = [];
+    };
+
+    for (let i = 0; i < text.length;) {
+        const ch = String.fromCodePoint(text.codePointAt(i)!);
+        const folded = foldChar(ch);
+        if (folded) {
+            if (!parts.length) start = i;
+            parts.push(folded);
+            end = i + ch.length;
+        } else {
+            flush();
+        }
+        i += ch.length;
+    }
+    flush();
+
+    return tokens;
+}
+
+const collapseRepeats = (value: string) => value.replace(/(.)\1+/gu, "$1");
+
+/**
+ * Words of `text` as the filter sees them: folded, leetspeak resolved and repeated letters collapsed
+ */
+export function normalizeWords(text: string): string[] {
+    return tokenize(text).map((token) => collapseRepeats(token.core || token.full));
+}
+
+function compileTerm(term: string): CompiledTerm | null {
+    const prefix = term.endsWith("*");
+    const suffix = term.startsWith("*");
+    const letters = tokenize(term.replace(/\*/g, "")).map((t) => t.full).join("");
+    if (!letters) return null;
+
+    // Each letter may be repeated ("fuuuck")
+    const body = [...letters].map((c) => `${c.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}+`).join("");
+    return {
+        term,
+        word: new RegExp(`${suffix ? "" : "^"}${body}${prefix ? "" : "$"}`, "u"),
+        spaced: new RegExp(body, "u"),
+    };
+}
+
+function getHost(url: string): string {
+    return url.replace(/^https?:\/\//i, "").replace(/^www\./i, "").split(/[/?#:]/)[0].toLowerCase();
+}
+
+/**
+ * Word-list and spam filter. Matching is obfuscation-aware: case, accents, styled Unicode,
+ * look-alike Cyrillic letters, leetspeak, invisible characters, repeated letters and letters
+ * spelled out with separators ("f.u.c.k") all match the plain term.
+ */
+export class TextFilter {
+    private terms: CompiledTerm[];
+    private spamPhrases: string[];
+    private blockedDomains: Set<string>;
+
+    constructor(private options: TextFilterOptions) {
+        this.terms = options.terms.map(compileTerm).filter((t): t is CompiledTerm => !!t);
+        this.spamPhrases = options.spamPhrases.map((p) => normalizeWords(p).join(" ")).filter(Boolean);
+        this.blockedDomains = new Set(options.blockedDomains.map((d) => d.toLowerCase()));
+    }
+
+    /**
+     * Find word-list matches, blocked links and spam in `text`
+     * @param text - Raw user input
+     * @returns Findings in order of appearance (a spam finding covers the whole text)
+     */
+    analyze(text: string): TextFinding[] {
+        const tokens = tokenize(text);
+        const findings = [...this.findTerms(text, tokens)];
+
+        const spamSignals: string[] = [];
+        let spamScore = 0;
+
+        const links = text.match(URL_PATTERN) ?? [];
+        if (links.length > this.options.maxLinks) {
+            spamScore += this.options.spamThreshold;
+            spamSignals.push(`${links.length} links`);
+        }
+        for (const match of text.matchAll(URL_PATTERN)) {
+            if (this.isBlockedHost(getHost(match[0]))) {
+                findings.push({
+                    category: "link",
+                    match: match[0],
+                    start: match.index!,
+                    end: match.index! + match[0].length,
+                    maskable: true,
+                });
+                spamScore += 2;
+                spamSignals.push(`blocked link ${getHost(match[0])}`);
+            }
+        }
+
+        const words = tokens.map((token) => collapseRepeats(token.core || token.full)).filter(Boolean);
+        const joined = ` ${words.join(" ")} `;
+        for (const phrase of this.spamPhrases) {
+            if (joined.includes(` ${phrase} `)) {
+                spamScore += 1;
+                spamSignals.push(`"${phrase}"`);
+            }
+        }
+
+        if (REPEATED_CHARACTERS.test(text)) {
+            spamScore += 2;
+            spamSignals.push("repeated characters");
+        }
+
+        const counts = new Map<string, number>();
+        words.forEach((word) => counts.set(word, (counts.get(word) ?? 0) + 1));
+        const mostRepeated = Math.max(0, ...counts.values());
+        if (words.length >= 6 && mostRepeated >= 5 && mostRepeated / words.length > 0.5) {
+            spamScore += 2;
+            spamSignals.push("repeated words");
+        }
+
+        const letters = text.replace(/[^\p{L}]/gu, "");
+        if (letters.length >= 20 && letters === letters.toUpperCase() && letters !== letters.toLowerCase()) {
+            spamScore += 1;
+            spamSignals.push("all caps");
+        }
+
+        if (spamScore >= this.options.spamThreshold) {
+            findings.push({ category: "spam", match: spamSignals.join(", "), start: 0, end: text.length, maskable: false });
+        }
+
+        return findings.sort((a, b) => a.start - b.start);
+    }
+
+    /**
+     * Star out the maskable findings, keeping whitespace so the text keeps its shape
+     * @param text - Text the findings came from
+     * @param findings - Findings from analyze
+     * @returns Masked text
+     */
+    mask(text: string, findings: TextFinding[]): string {
+        const ranges = findings.filter((f) => f.maskable);
+        let masked = "";
+        for (let i = 0; i < text.length;) {
+            const ch = String.fromCodePoint(text.codePointAt(i)!);
+            masked += ranges.some((r) => i >= r.start && i < r.end) && !/\s/u.test(ch) ? "*" : ch;
+            i += ch.length;
+        }
+        return masked;
+    }
+
+    private findTerms(text: string, tokens: Token[]): TextFinding[] {
+        const findings: TextFinding[] = [];
+        const profanity = (start: number, end: number): TextFinding => ({
+            category: "profanity",
+            match: text.slice(start, end),
+            start,
+            end,
+            maskable: true,
+        });
+
+        for (const token of tokens) {
+            const variants = [token.full, token.core].filter(Boolean);
+            if (this.terms.some((t) => variants.some((v) => t.word.test(v)))) {
+                findings.push(profanity(token.start, token.end));
+            }
+        }
+
+        // Letters spelled out one by one: "f u c k", "f.u.c.k", "f-u-c-k"
+        let run: Token[] = [];
+        const checkRun = () => {
+            if (run.length >= MIN_SPACED_RUN) {
+                const letters = run.map((t) => t.full).join("");
+                for (const term of this.terms) {
+                    const match = term.spaced.exec(letters);
+                    if (match) {
+                        const first = run[match.index];
+                        const last = run[match.index + match[0].length - 1];
+                        findings.push(profanity(first.start, last.end));
+                        break;
+                    }
+                }
+            }
+            run = [];
+        };
+        for (const token of tokens) {
+            if (token.full.length === 1) {
+                run.push(token);
+            } else {
+                checkRun();
+            }
+        }
+        checkRun();
+
+        return findings;
+    }
+
+    private isBlockedHost(host: string): boolean {
+        const labels = host.split(".");
+        return labels.some((_, i) => this.blockedDomains.has(labels.slice(i).join(".")));
+    }
+}
@@ -0,0 +1,56 @@
+/**
+ * Bundled word lists for text moderation, keyed by locale. Enable locales with
+ * TEXT_MODERATION_LOCALES and add site-specific terms with TEXT_MODERATION_EXTRA_TERMS.
+ *
+ * Terms are lowercase letters without accents (matching folds accents, case, leetspeak and
+ * repeated letters). A term matches whole words only; a trailing `*` also matches words
+ * starting with it and a leading `*` words ending with it. Avoid wildcards on short stems
+ * that occur inside ordinary words. Words that are everyday vocabulary around animals
+ * (bitch, pussy, cock) are left out on purpose; add them per deployment if needed.
+ */
+export const WORD_LISTS: Record<string, string[]> = {
+    en: [
+        "fuck*", "*fucker", "motherfuck*", "shit", "shits", "shitty", "bullshit", "shithead*",
+        "asshole*", "arsehole*", "bastard*", "cunt*", "dick", "dicks", "dickhead*",
+        "cocksucker*", "twat*", "wanker*", "whore*", "slut*",
+        "prick", "pricks", "douchebag*", "jackass", "dumbass*",
+        "nigger*", "nigga*", "faggot*", "fag", "fags", "retard", "retards", "retarded", "spastic",
+        "kys",
+    ],
+    es: [
+        "puta", "putas", "puto", "putos", "mierda*", "cabron*", "gilipollas", "pendejo*", "pendeja*",
+        "joder", "jodete", "verga*", "chinga*", "culero*", "maricon*",
+        "hijueputa*", "malparido*",
+    ],
+    fr: [
+        "merde*", "putain*", "pute*", "connard*", "connasse*", "salope*", "encule*", "enculer",
+        "batard*", "nique", "niquer", "ntm", "fdp", "pede", "pedes", "couille*",
+    ],
+    de: [
+        "scheisse*", "scheiss*", "arschloch*", "fotze*", "hurensohn*", "wichser*", "schlampe*",
+        "missgeburt*", "spast*", "schwuchtel*", "fick", "ficken", "fickt", "ficker*",
+    ],
+    pt: [
+        "porra*", "caralho*", "merda*", "puta", "putas", "filhodaputa*", "fdp", "buceta*", "cuzao*",
+        "arrombado*", "viado*", "otario*", "vadia*",
+    ],
+};
+
+/**
+ * Phrases typical of follower-farming, scam and off-platform spam. Each one found adds to the
+ * spam score; it is not a violation on its own.
+ */
+export const SPAM_PHRASES: string[] = [
+    "free followers", "follow for follow", "follow back", "f4f", "l4l", "check my profile",
+    "check my bio", "link in bio", "dm me", "dm for promo", "promo code", "click the link",
+    "click here", "earn money", "make money fast", "work from home", "investment opportunity",
+    "crypto", "bitcoin", "forex", "giveaway winner", "whatsapp me", "telegram me", "onlyfans",
+];
+
+/**
+ * Link shorteners and hosts commonly used to hide spam destinations
+ */
+export const BLOCKED_LINK_DOMAINS: string[] = [
+    "bit.ly", "tinyurl.com", "t.co", "goo.gl", "ow.ly", "is.gd", "buff.ly", "cutt.ly",
+    "rebrand.ly", "shorturl.at", "t.me", "wa.me", "grabify.link", "iplogger.org",
+];
@@ -6,3 +6,11 @@ export class CustomGraphQLError extends Error {
     this.code = code;
   }
 }
+
+/**
+ * HTTP-style status code for a caught error: the code carried by a
+ * CustomGraphQLError, otherwise 500.
+ */
+export function getErrorCode(error: unknown): number {
+  return error instanceof CustomGraphQLError ? error.code : 500;
+}